@@ -19,6 +19,18 @@ const SubmitComplaint = lazy(() => import("./pages/SubmitComplaint"));
 const PublicSubmitComplaint = lazy(() => import("./pages/PublicSubmitComplaint"));
 const PublicTicketDetail = lazy(() => import("./pages/PublicTicketDetail"));
 const TicketDetail = lazy(() => import("./pages/TicketDetail"));
+const SlaPolicies = lazy(() => import("./pages/SlaPolicies"));
+const BusinessCalendar = lazy(() => import("./pages/BusinessCalendar"));
+const RoutingRules = lazy(() => import("./pages/RoutingRules"));
+const ShiftRoster = lazy(() => import("./pages/ShiftRoster"));
+const Teams = lazy(() => import("./pages/Teams"));
+const TechnicianVisits = lazy(() => import("./pages/TechnicianVisits"));
+const TechnicianVisit = lazy(() => import("./pages/TechnicianVisit"));
+const CustomerProfile = lazy(() => import("./pages/CustomerProfile"));
+const VehicleDetail = lazy(() => import("./pages/VehicleDetail"));
+const FleetAccounts = lazy(() => import("./pages/FleetAccounts"));
+const FleetAccountDetail = lazy(() => import("./pages/FleetAccountDetail"));
+const RegistryImport = lazy(() => import("./pages/RegistryImport"));
 
 const queryClient = new QueryClient();
 
@@ -38,9 +50,21 @@ const App = () => (
                   <Route path="/public-ticket/:id" element={<PublicTicketDetail />} />
                   <Route path="/welcome" element={<Index />} />
                   <Route path="/manage-roles" element={<ManageRoles />} />
+                  <Route path="/sla-policies" element={<SlaPolicies />} />
+                  <Route path="/business-calendar" element={<BusinessCalendar />} />
+                  <Route path="/routing-rules" element={<RoutingRules />} />
+                  <Route path="/shift-roster" element={<ShiftRoster />} />
+                  <Route path="/teams" element={<Teams />} />
+                  <Route path="/registry-import" element={<RegistryImport />} />
                   <Route path="/tickets" element={<Tickets />} />
                   <Route path="/tickets/:id" element={<TicketDetail />} />
                   <Route path="/submit-complaint" element={<SubmitComplaint />} />
+                  <Route path="/customers/:id" element={<CustomerProfile />} />
+                  <Route path="/vehicles/:id" element={<VehicleDetail />} />
+                  <Route path="/fleets" element={<FleetAccounts />} />
+                  <Route path="/fleets/:id" element={<FleetAccountDetail />} />
+                  <Route path="/visits" element={<TechnicianVisits />} />
+                  <Route path="/visits/:id" element={<TechnicianVisit />} />
                   <Route path="/" element={<Dashboard />} />
                   <Route path="*" element={<NotFound />} />
                 </Routes>
@@ -0,0 +1,81 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ChevronDown } from 'lucide-react';
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { supabase } from '@/integrations/supabase/client';
+import { showError } from '@/utils/toast';
+import {
+  AGENT_AVAILABILITIES,
+  AGENT_AVAILABILITY_LABELS,
+  AgentAvailability,
+  getAvailabilityDotClass,
+} from '@/utils/agentAvailability';
+
+interface AvailabilityToggleProps {
+  userId: string;
+}
+
+export const AvailabilityToggle = ({ userId }: AvailabilityToggleProps) => {
+  const queryClient = useQueryClient();
+
+  const { data: availability } = useQuery<AgentAvailability, Error>({
+    queryKey: ['myAvailability', userId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('availability')
+        .eq('id', userId)
+        .single();
+
+      if (error) throw new Error(error.message);
+      return data.availability;
+    },
+  });
+
+  const setAvailabilityMutation = useMutation({
+    mutationFn: async (newAvailability: AgentAvailability) => {
+      const { error } = await supabase.rpc('set_my_availability', { p_availability: newAvailability });
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['myAvailability', userId] });
+      queryClient.invalidateQueries({ queryKey: ['agentsOnDuty'] });
+    },
+    onError: (error: Error) => {
+      showError(`Gagal mengubah status: ${error.message}`);
+    },
+  });
+
+  if (!availability) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        className="flex items-center gap-2 text-sm text-gray-700 hover:text-primary transition-colors outline-none"
+        disabled={setAvailabilityMutation.isPending}
+        aria-label="Ubah status ketersediaan"
+      >
+        <span className={`h-2.5 w-2.5 rounded-full ${getAvailabilityDotClass(availability)}`} />
+        <span className="hidden md:inline">{AGENT_AVAILABILITY_LABELS[availability]}</span>
+        <ChevronDown className="h-4 w-4" />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {AGENT_AVAILABILITIES.map((option) => (
+          <DropdownMenuItem
+            key={option}
+            onClick={() => setAvailabilityMutation.mutate(option)}
+            disabled={option === availability}
+          >
+            <span className={`mr-2 h-2.5 w-2.5 rounded-full ${getAvailabilityDotClass(option)}`} />
+            {AGENT_AVAILABILITY_LABELS[option]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Loader2, NotebookPen, Send, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { showSuccess, showError } from '@/utils/toast';
+import { supabase } from '@/integrations/supabase/client';
+
+interface CustomerNote {
+  id: string;
+  customer_id: string;
+  author_id: string | null;
+  body: string;
+  created_at: string;
+  author: { first_name: string | null; last_name: string | null; email: string | null; } | null;
+}
+
+interface CustomerNotesProps {
+  customerId: string;
+  currentUserId?: string;
+  canDeleteAll: boolean;
+}
+
+const MAX_NOTE_LENGTH = 5000;
+
+export const CustomerNotes = ({ customerId, currentUserId, canDeleteAll }: CustomerNotesProps) => {
+  const queryClient = useQueryClient();
+  const [body, setBody] = useState('');
+
+  const { data: notes, isLoading } = useQuery<CustomerNote[], Error>({
+    queryKey: ['customerNotes', customerId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('customer_notes')
+        .select('*, author:profiles!customer_notes_author_id_fkey(first_name, last_name, email)')
+        .eq('customer_id', customerId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw new Error(error.message);
+      return data;
+    },
+  });
+
+  const addNoteMutation = useMutation({
+    mutationFn: async () => {
+      if (!currentUserId) throw new Error('Pengguna tidak terautentikasi.');
+
+      const { error } = await supabase
+        .from('customer_notes')
+        .insert({
+          customer_id: customerId,
+          author_id: currentUserId,
+          body: body.trim(),
+        });
+
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      showSuccess('Catatan pelanggan tersimpan!');
+      queryClient.invalidateQueries({ queryKey: ['customerNotes', customerId] });
+      setBody('');
+    },
+    onError: (error: Error) => {
+      showError(`Gagal menyimpan catatan: ${error.message}`);
+    },
+  });
+
+  const deleteNoteMutation = useMutation({
+    mutationFn: async (noteId: string) => {
+      const { error } = await supabase
+        .from('customer_notes')
+        .delete()
+        .eq('id', noteId);
+
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      showSuccess('Catatan berhasil dihapus.');
+      queryClient.invalidateQueries({ queryKey: ['customerNotes', customerId] });
+    },
+    onError: (error: Error) => {
+      showError(`Gagal menghapus catatan: ${error.message}`);
+    },
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!body.trim()) return;
+    addNoteMutation.mutate();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <NotebookPen className="h-5 w-5 text-primary" /> Catatan
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <Textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Contoh: pelanggan armada, lebih suka dihubungi sore hari."
+            rows={3}
+            maxLength={MAX_NOTE_LENGTH}
+          />
+          <div className="flex justify-end">
+            <Button type="submit" size="sm" disabled={addNoteMutation.isPending || !body.trim()}>
+              {addNoteMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+              Simpan
+            </Button>
+          </div>
+        </form>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : notes?.length === 0 ? (
+          <p className="text-sm text-gray-500">Belum ada catatan untuk pelanggan ini.</p>
+        ) : (
+          <div className="space-y-3">
+            {notes?.map((note) => {
+              const authorName = note.author
+                ? [note.author.first_name, note.author.last_name].filter(Boolean).join(' ') || note.author.email
+                : 'Pengguna Terhapus';
+              const canDelete = canDeleteAll || (!!currentUserId && note.author_id === currentUserId);
+
+              return (
+                <div key={note.id} className="p-3 border rounded-lg text-sm bg-amber-50 border-amber-200 dark:bg-amber-950 dark:border-amber-800">
+                  <div className="flex items-center justify-between mb-1 gap-2">
+                    <span className="font-medium text-gray-900 dark:text-white">{authorName}</span>
+                    <div className="flex items-center gap-1">
+                      <span className="text-xs text-gray-500">
+                        {new Date(note.created_at).toLocaleString('id-ID')}
+                      </span>
+                      {canDelete && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-auto p-1"
+                          onClick={() => deleteNoteMutation.mutate(note.id)}
+                          disabled={deleteNoteMutation.isPending}
+                          aria-label="Hapus catatan"
+                        >
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  <p className="whitespace-pre-wrap text-gray-800 dark:text-gray-200">{note.body}</p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,172 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, RefreshCw, Satellite } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { showError, showSuccess } from '@/utils/toast';
+import {
+  DEVICE_CONNECTIVITY_LABELS,
+  DeviceDiagnosticsSnapshot,
+  getDeviceConnectivity,
+  getDeviceConnectivityBadgeClass,
+} from '@shared/deviceStatus';
+
+interface DeviceDiagnosticsCardProps {
+  ticketId: string;
+  // Whether the ticket has an IMEI or simcard number the tracking platform can be asked about
+  hasDevice: boolean;
+}
+
+const dateTimeFormatOptions: Intl.DateTimeFormatOptions = {
+  day: 'numeric',
+  month: 'short',
+  year: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit',
+  hour12: false,
+};
+
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString('id-ID', dateTimeFormatOptions) : '-';
+
+export const DeviceDiagnosticsCard = ({ ticketId, hasDevice }: DeviceDiagnosticsCardProps) => {
+  const queryClient = useQueryClient();
+
+  // The latest check is the newest device_diagnostics entry in the ticket history
+  const { data: snapshot, isLoading, error } = useQuery<DeviceDiagnosticsSnapshot | null, Error>({
+    queryKey: ['deviceDiagnostics', ticketId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ticket_events')
+        .select('metadata')
+        .eq('ticket_id', ticketId)
+        .eq('event_type', 'device_diagnostics')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return (data?.metadata as DeviceDiagnosticsSnapshot) ?? null;
+    },
+  });
+
+  const runDiagnosticsMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke('device-diagnostics', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ticket_id: ticketId }),
+      });
+
+      if (error) throw new Error(error.message);
+      if (data.error) throw new Error(data.error);
+      return data.snapshot as DeviceDiagnosticsSnapshot;
+    },
+    onSuccess: (result) => {
+      showSuccess(result.status ? 'Status perangkat berhasil diperbarui.' : 'Perangkat tidak ditemukan di platform tracking.');
+      queryClient.invalidateQueries({ queryKey: ['deviceDiagnostics', ticketId] });
+      queryClient.invalidateQueries({ queryKey: ['ticketEvents', ticketId] });
+    },
+    onError: (error: Error) => {
+      showError(`Gagal mengecek perangkat: ${error.message}`);
+    },
+  });
+
+  const status = snapshot?.status ?? null;
+  // Judged at the time of the check, so an old snapshot does not turn offline by itself
+  const connectivity = status ? getDeviceConnectivity(status.lastHeartbeatAt, new Date(snapshot.fetched_at)) : null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Satellite className="h-5 w-5 text-primary" /> Diagnostik Perangkat
+        </CardTitle>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => runDiagnosticsMutation.mutate()}
+          disabled={!hasDevice || runDiagnosticsMutation.isPending}
+        >
+          {runDiagnosticsMutation.isPending
+            ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            : <RefreshCw className="mr-2 h-4 w-4" />}
+          Cek Perangkat
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">Gagal memuat diagnostik: {error.message}</p>
+        ) : !hasDevice && !snapshot ? (
+          <p className="text-sm text-gray-500">Tiket ini belum memiliki IMEI atau no simcard GPS.</p>
+        ) : !snapshot ? (
+          <p className="text-sm text-gray-500">Belum pernah dicek. Klik "Cek Perangkat" untuk mengambil status dari platform tracking.</p>
+        ) : (
+          <div className="space-y-3 text-sm">
+            {!status ? (
+              <p className="text-gray-700">
+                Perangkat {snapshot.lookup.imei ? `IMEI ${snapshot.lookup.imei}` : `simcard ${snapshot.lookup.simcard}`} tidak
+                ditemukan di platform tracking.
+              </p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                <p className="flex items-center gap-2">
+                  <strong>Koneksi:</strong>
+                  <Badge className={getDeviceConnectivityBadgeClass(connectivity)}>
+                    {DEVICE_CONNECTIVITY_LABELS[connectivity]}
+                  </Badge>
+                </p>
+                <p><strong>Heartbeat Terakhir:</strong> {formatDateTime(status.lastHeartbeatAt)}</p>
+                <p><strong>IMEI:</strong> {status.imei || '-'}</p>
+                <p><strong>No Simcard:</strong> {status.simcard || '-'}</p>
+                <p>
+                  <strong>Posisi:</strong>{' '}
+                  {status.position ? (
+                    <a
+                      href={`https://www.google.com/maps?q=${status.position.latitude},${status.position.longitude}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 hover:underline"
+                    >
+                      {status.position.latitude.toFixed(5)}, {status.position.longitude.toFixed(5)}
+                    </a>
+                  ) : '-'}
+                  {status.position && (
+                    <span className="text-gray-500"> ({formatDateTime(status.position.recordedAt)})</span>
+                  )}
+                </p>
+                <p><strong>Kecepatan:</strong> {status.position?.speedKph != null ? `${status.position.speedKph} km/jam` : '-'}</p>
+                {status.position?.address && (
+                  <p className="md:col-span-2"><strong>Alamat:</strong> {status.position.address}</p>
+                )}
+                <p><strong>Sinyal GSM:</strong> {status.gsmSignal != null ? `${status.gsmSignal}%` : '-'}</p>
+                <p><strong>Satelit:</strong> {status.satellites ?? '-'}</p>
+                <p>
+                  <strong>Daya Eksternal:</strong>{' '}
+                  {status.externalPowerVolts != null ? `${status.externalPowerVolts} V` : '-'}
+                  {status.externalPowerVolts === 0 && (
+                    <Badge className="ml-2 bg-red-100 text-red-800">Power terputus</Badge>
+                  )}
+                </p>
+                <p>
+                  <strong>Kunci Kontak:</strong>{' '}
+                  {status.ignitionOn == null ? '-' : status.ignitionOn ? 'ON' : 'OFF'}
+                </p>
+              </div>
+            )}
+            <p className="text-xs text-gray-500">
+              Dicek {formatDateTime(snapshot.fetched_at)} · sumber: {snapshot.adapter}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
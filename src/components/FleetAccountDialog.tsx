@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { showError, showSuccess } from '@/utils/toast';
+import { CONTRACT_TIERS, CONTRACT_TIER_LABELS, ContractTier, FleetAccount } from '@/utils/fleets';
+import { parsePhoneNumber } from '@shared/phoneNumber';
+
+interface FleetAccountDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edits this fleet; creates a new one when absent
+  fleet?: FleetAccount;
+  onSaved?: (fleet: FleetAccount) => void;
+}
+
+export const FleetAccountDialog = ({ isOpen, onOpenChange, fleet, onSaved }: FleetAccountDialogProps) => {
+  const queryClient = useQueryClient();
+
+  // Mounted fresh each time the dialog opens, so the initial state is the form reset
+  const [name, setName] = useState(fleet?.name ?? '');
+  const [picName, setPicName] = useState(fleet?.pic_name ?? '');
+  const [picWhatsapp, setPicWhatsapp] = useState(fleet?.pic_whatsapp ?? '');
+  const [picEmail, setPicEmail] = useState(fleet?.pic_email ?? '');
+  const [contractTier, setContractTier] = useState<ContractTier>(fleet?.contract_tier ?? 'standard');
+  const [notes, setNotes] = useState(fleet?.notes ?? '');
+
+  const picPhone = picWhatsapp.trim() ? parsePhoneNumber(picWhatsapp) : null;
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!name.trim()) throw new Error('Nama perusahaan wajib diisi.');
+      if (picPhone?.error) throw new Error(picPhone.error);
+
+      const payload = {
+        name: name.trim(),
+        pic_name: picName.trim() || null,
+        pic_whatsapp: picPhone?.phone.e164 ?? null,
+        pic_email: picEmail.trim() || null,
+        contract_tier: contractTier,
+        notes: notes.trim() || null,
+      };
+
+      const { data, error } = fleet
+        ? await supabase.from('fleet_accounts').update(payload).eq('id', fleet.id).select().single()
+        : await supabase.from('fleet_accounts').insert(payload).select().single();
+      if (error) {
+        if (error.code === '23505') throw new Error('Nama perusahaan sudah terdaftar.');
+        throw new Error(error.message);
+      }
+      return data as FleetAccount;
+    },
+    onSuccess: (saved) => {
+      showSuccess(fleet ? 'Data armada berhasil diperbarui!' : 'Armada berhasil ditambahkan!');
+      queryClient.invalidateQueries({ queryKey: ['fleetAccounts'] });
+      queryClient.invalidateQueries({ queryKey: ['fleetAccount', saved.id] });
+      queryClient.invalidateQueries({ queryKey: ['tickets'] });
+      onOpenChange(false);
+      onSaved?.(saved);
+    },
+    onError: (error: Error) => {
+      showError(`Gagal menyimpan armada: ${error.message}`);
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{fleet ? 'Ubah Armada' : 'Tambah Armada'}</DialogTitle>
+          <DialogDescription>
+            Perusahaan pelanggan dengan banyak kendaraan dalam satu kontrak.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="fleet-name">Nama Perusahaan</Label>
+            <Input
+              id="fleet-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Contoh: PT Logistik Nusantara"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Tier Kontrak</Label>
+            <Select value={contractTier} onValueChange={(value) => setContractTier(value as ContractTier)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONTRACT_TIERS.map((tier) => (
+                  <SelectItem key={tier} value={tier}>
+                    {CONTRACT_TIER_LABELS[tier]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="fleet-pic-name">Nama PIC</Label>
+            <Input
+              id="fleet-pic-name"
+              value={picName}
+              onChange={(e) => setPicName(e.target.value)}
+              placeholder="Penanggung jawab di perusahaan"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="fleet-pic-whatsapp">WhatsApp PIC</Label>
+            <Input
+              id="fleet-pic-whatsapp"
+              value={picWhatsapp}
+              onChange={(e) => setPicWhatsapp(e.target.value)}
+              placeholder="Contoh: 081234567890"
+            />
+            {picPhone?.phone && (
+              <p className="text-xs text-muted-foreground">
+                {picPhone.phone.e164} · {picPhone.phone.country}
+                {picPhone.phone.lineType === 'landline' && ' · telepon rumah/kantor, tidak bisa WhatsApp'}
+              </p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="fleet-pic-email">Email PIC</Label>
+            <Input
+              id="fleet-pic-email"
+              type="email"
+              value={picEmail}
+              onChange={(e) => setPicEmail(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="fleet-notes">Catatan</Label>
+            <Textarea
+              id="fleet-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+              placeholder="Contoh: review layanan tiap kuartal, jam operasional 24 jam."
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Batal
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Simpan
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
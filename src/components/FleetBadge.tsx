@@ -0,0 +1,20 @@
+import { Link } from 'react-router-dom';
+import { Building2 } from 'lucide-react';
+
+import { CONTRACT_TIER_LABELS, FleetAccount, getContractTierBadgeClass } from '@/utils/fleets';
+
+interface FleetBadgeProps {
+  fleet: Pick<FleetAccount, 'id' | 'name' | 'contract_tier'>;
+}
+
+// Company badge for tickets filed for a fleet vehicle; links to the fleet page
+export const FleetBadge = ({ fleet }: FleetBadgeProps) => (
+  <Link
+    to={`/fleets/${fleet.id}`}
+    className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold hover:opacity-80 ${getContractTierBadgeClass(fleet.contract_tier)}`}
+    title={`Armada ${fleet.name} · ${CONTRACT_TIER_LABELS[fleet.contract_tier]}`}
+  >
+    <Building2 className="h-3 w-3" />
+    {fleet.name}
+  </Link>
+);
@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { showError, showSuccess } from '@/utils/toast';
+import { useTeams } from '@/hooks/use-teams';
+import { NO_TEAM_SENTINEL } from '@/utils/teams';
+import { ESCALATION_LEVELS, ESCALATION_LEVEL_LABELS, HandoffDirection } from '@/utils/escalation';
+
+interface HandoffTicketDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  direction: HandoffDirection;
+  ticket: {
+    id: string;
+    escalation_level: number;
+    team_id: string | null;
+  };
+}
+
+export const HandoffTicketDialog = ({ isOpen, onOpenChange, direction, ticket }: HandoffTicketDialogProps) => {
+  const queryClient = useQueryClient();
+  const { data: teams } = useTeams();
+
+  // Escalation may stay on the same tier when moving to another team; de-escalation must go down
+  const targetLevels = ESCALATION_LEVELS.filter((level) =>
+    direction === 'escalate' ? level >= ticket.escalation_level : level < ticket.escalation_level
+  );
+
+  // Mounted fresh for each handoff, so the initial state is the form reset
+  const [toLevel, setToLevel] = useState<number>(
+    direction === 'escalate'
+      ? Math.min(ticket.escalation_level + 1, ESCALATION_LEVELS[ESCALATION_LEVELS.length - 1])
+      : ticket.escalation_level - 1
+  );
+  const [toTeamId, setToTeamId] = useState<string>(ticket.team_id ?? NO_TEAM_SENTINEL);
+  const [reason, setReason] = useState('');
+
+  const handoffMutation = useMutation({
+    mutationFn: async () => {
+      if (!reason.trim()) throw new Error('Alasan wajib diisi.');
+
+      const { error } = await supabase.rpc('handoff_ticket', {
+        p_ticket_id: ticket.id,
+        p_direction: direction,
+        p_to_level: toLevel,
+        p_to_team_id: toTeamId === NO_TEAM_SENTINEL ? null : toTeamId,
+        p_reason: reason.trim(),
+      });
+
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      showSuccess(direction === 'escalate' ? 'Tiket berhasil dieskalasi!' : 'Tiket berhasil di-de-eskalasi!');
+      queryClient.invalidateQueries({ queryKey: ['ticket', ticket.id] });
+      queryClient.invalidateQueries({ queryKey: ['ticketEvents', ticket.id] });
+      queryClient.invalidateQueries({ queryKey: ['tickets'] });
+      queryClient.invalidateQueries({ queryKey: ['escalationTierReport'] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      showError(`Gagal memindahkan tiket: ${error.message}`);
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{direction === 'escalate' ? 'Eskalasi Tiket' : 'De-eskalasi Tiket'}</DialogTitle>
+          <DialogDescription>
+            Tiket akan dilepas dari agen saat ini dan masuk ke antrian tujuan untuk diambil oleh tier berikutnya.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Tier Tujuan</Label>
+            <Select value={String(toLevel)} onValueChange={(value) => setToLevel(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {targetLevels.map((level) => (
+                  <SelectItem key={level} value={String(level)}>
+                    {ESCALATION_LEVEL_LABELS[level]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Tim Tujuan</Label>
+            <Select value={toTeamId} onValueChange={setToTeamId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_TEAM_SENTINEL}>Tanpa Tim</SelectItem>
+                {teams?.map((team) => (
+                  <SelectItem key={team.id} value={team.id}>
+                    {team.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="handoff-reason">Alasan</Label>
+            <Textarea
+              id="handoff-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              placeholder={direction === 'escalate'
+                ? 'Contoh: perangkat perlu dicek teknisi, sudah coba restart dari jarak jauh.'
+                : 'Contoh: masalah teknis selesai, tinggal konfirmasi ke pelanggan.'}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Batal
+          </Button>
+          <Button onClick={() => handoffMutation.mutate()} disabled={handoffMutation.isPending || !reason.trim()}>
+            {handoffMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {direction === 'escalate' ? 'Eskalasi' : 'De-eskalasi'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
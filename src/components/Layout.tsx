@@ -2,13 +2,33 @@ import { ReactNode } from "react";
 import { Outlet, Link, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ChevronDown } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { useSession } from "@/components/SessionContextProvider";
+import { NotificationBell } from "@/components/NotificationBell";
+import { AvailabilityToggle } from "@/components/AvailabilityToggle";
 
 interface LayoutProps {
   children?: ReactNode;
 }
 
+// Admin-only configuration pages, grouped under "Pengaturan"
+const ADMIN_SETTINGS_LINKS = [
+  { to: "/manage-roles", label: "Manage Roles" },
+  { to: "/sla-policies", label: "Kebijakan SLA" },
+  { to: "/business-calendar", label: "Kalender Kerja" },
+  { to: "/routing-rules", label: "Routing Tiket" },
+  { to: "/shift-roster", label: "Jadwal Shift" },
+  { to: "/teams", label: "Tim & Antrian" },
+  { to: "/registry-import", label: "Import Registry" },
+];
+
 interface UserProfileHeader {
   first_name: string | null;
   last_name: string | null;
@@ -69,11 +89,28 @@ const Layout = ({ children }: LayoutProps) => {
               {session && (role === 'admin' || role === 'customer_service') && (
                 <Link to="/tickets" className="text-sm font-medium text-gray-700 hover:text-primary transition-colors">Tickets</Link>
               )}
+              {session && (role === 'admin' || role === 'customer_service') && (
+                <Link to="/fleets" className="text-sm font-medium text-gray-700 hover:text-primary transition-colors">Armada</Link>
+              )}
               {session && (role === 'admin' || role === 'customer_service') && (
                 <Link to="/submit-complaint" className="text-sm font-medium text-gray-700 hover:text-primary transition-colors">Ajukan Keluhan</Link>
               )}
+              {session && role === 'technician' && (
+                <Link to="/visits" className="text-sm font-medium text-gray-700 hover:text-primary transition-colors">Kunjungan Saya</Link>
+              )}
               {session && role === 'admin' && (
-                <Link to="/manage-roles" className="text-sm font-medium text-gray-700 hover:text-primary transition-colors">Manage Roles</Link>
+                <DropdownMenu>
+                  <DropdownMenuTrigger className="flex items-center gap-1 text-sm font-medium text-gray-700 hover:text-primary transition-colors outline-none">
+                    Pengaturan <ChevronDown className="h-4 w-4" />
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start">
+                    {ADMIN_SETTINGS_LINKS.map((link) => (
+                      <DropdownMenuItem key={link.to} asChild>
+                        <Link to={link.to}>{link.label}</Link>
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
               )}
             </nav>
           </div>
@@ -90,12 +127,20 @@ const Layout = ({ children }: LayoutProps) => {
                         ? 'bg-red-100 text-red-800 border border-red-200'
                         : role === 'customer_service'
                         ? 'bg-blue-100 text-blue-800 border border-blue-200'
+                        : role === 'technician'
+                        ? 'bg-amber-100 text-amber-800 border border-amber-200'
                         : 'bg-gray-100 text-gray-800'
                     }`}>
                       {role.replaceAll('_', ' ')}
                     </span>
                   )}
                 </div>
+                {(role === 'admin' || role === 'customer_service') && (
+                  <>
+                    <AvailabilityToggle userId={session.user.id} />
+                    <NotificationBell userId={session.user.id} />
+                  </>
+                )}
                 <Button variant="outline" size="sm" onClick={handleLogout}>Logout</Button>
               </>
             ) : (
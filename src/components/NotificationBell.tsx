@@ -0,0 +1,128 @@
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Bell, Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { supabase } from '@/integrations/supabase/client';
+import { showError } from '@/utils/toast';
+
+interface Notification {
+  id: string;
+  ticket_id: string | null;
+  type: string;
+  title: string;
+  body: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+interface NotificationBellProps {
+  userId: string;
+}
+
+export const NotificationBell = ({ userId }: NotificationBellProps) => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data: notifications, isLoading } = useQuery<Notification[], Error>({
+    queryKey: ['notifications', userId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('id, ticket_id, type, title, body, read_at, created_at')
+        .eq('recipient_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    // Escalations are written by a scheduled job, so poll instead of waiting for a user action
+    refetchInterval: 60 * 1000,
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (notificationIds: string[]) => {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .in('id', notificationIds);
+
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications', userId] });
+    },
+    onError: (error: Error) => {
+      showError(`Gagal memperbarui notifikasi: ${error.message}`);
+    },
+  });
+
+  const unread = notifications?.filter((notification) => !notification.read_at) ?? [];
+
+  const handleOpenNotification = (notification: Notification) => {
+    if (!notification.read_at) {
+      markReadMutation.mutate([notification.id]);
+    }
+    if (notification.ticket_id) {
+      navigate(`/tickets/${notification.ticket_id}`);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifikasi">
+          <Bell className="h-5 w-5" />
+          {unread.length > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold flex items-center justify-center">
+              {unread.length > 9 ? '9+' : unread.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-2 border-b">
+          <p className="text-sm font-semibold">Notifikasi</p>
+          {unread.length > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              onClick={() => markReadMutation.mutate(unread.map((notification) => notification.id))}
+              disabled={markReadMutation.isPending}
+            >
+              Tandai semua dibaca
+            </Button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : notifications?.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">Belum ada notifikasi.</p>
+          ) : (
+            notifications?.map((notification) => (
+              <button
+                key={notification.id}
+                onClick={() => handleOpenNotification(notification)}
+                className={`w-full text-left px-4 py-3 border-b last:border-b-0 hover:bg-gray-50 ${notification.read_at ? '' : 'bg-blue-50'}`}
+              >
+                <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                {notification.body && <p className="text-xs text-gray-600 mt-0.5">{notification.body}</p>}
+                <p className="text-xs text-gray-400 mt-1">
+                  {new Date(notification.created_at).toLocaleString('id-ID', {
+                    day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit', hour12: false,
+                  })}
+                </p>
+              </button>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,64 @@
+import { useQuery } from '@tanstack/react-query';
+import { Loader2, Users } from 'lucide-react';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  AGENT_AVAILABILITY_LABELS,
+  AgentOnDuty,
+  getAvailabilityDotClass,
+  isAgentAvailable,
+} from '@/utils/agentAvailability';
+
+// Supervisor view of who can take tickets right now
+export const OnDutyAgentsCard = () => {
+  const { data: agents, isLoading, error } = useQuery<AgentOnDuty[], Error>({
+    queryKey: ['agentsOnDuty'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_agents_on_duty');
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    refetchInterval: 60 * 1000,
+  });
+
+  const availableCount = agents?.filter(isAgentAvailable).length ?? 0;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">Agen Bertugas Saat Ini</CardTitle>
+        <Users className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        ) : error ? (
+          <p className="text-sm text-red-600">Gagal memuat: {error.message}</p>
+        ) : (
+          <>
+            <div className="text-2xl font-bold">{availableCount} / {agents?.length ?? 0}</div>
+            <p className="text-xs text-muted-foreground mb-3">agen online dan dalam jadwal shift</p>
+            <ul className="space-y-1 text-sm">
+              {agents?.map((agent) => (
+                <li key={agent.agent_id} className="flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-2 truncate">
+                    <span className={`h-2 w-2 shrink-0 rounded-full ${getAvailabilityDotClass(agent.availability)}`} />
+                    {[agent.first_name, agent.last_name].filter(Boolean).join(' ') || agent.email}
+                  </span>
+                  <span className="text-xs text-gray-500 whitespace-nowrap">
+                    {agent.availability !== 'online'
+                      ? AGENT_AVAILABILITY_LABELS[agent.availability]
+                      : agent.is_on_shift
+                      ? (agent.has_roster ? 'Dalam shift' : 'Tanpa jadwal')
+                      : 'Di luar jadwal'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -22,6 +22,7 @@ interface ShareTicketModalProps {
     title: string;
     description?: string | null;
     customer_whatsapp?: string | null;
+    customer_whatsapp_e164?: string | null;
     status: string;
     priority: string;
     no_plat_kendaraan?: string | null;
@@ -48,7 +49,7 @@ export const ShareTicketModal = ({
     let phoneNumber: string | undefined;
     
     if (selectedOption === 'customer') {
-      phoneNumber = ticket.customer_whatsapp || undefined;
+      phoneNumber = ticket.customer_whatsapp_e164 || undefined;
     } else if (selectedOption === 'custom') {
       phoneNumber = customPhoneNumber;
     } else {
@@ -87,7 +88,7 @@ export const ShareTicketModal = ({
   };
 
   const isCustomSelected = selectedOption === 'custom';
-  const isShareDisabled = !ticket.customer_whatsapp && selectedOption === 'customer' ||
+  const isShareDisabled = !ticket.customer_whatsapp_e164 && selectedOption === 'customer' ||
     isCustomSelected && !customPhoneNumber ||
     selectedOption !== 'customer' && selectedOption !== 'custom' && 
     !shareOptions.find(opt => opt.id === selectedOption)?.phoneNumber;
@@ -117,7 +118,7 @@ export const ShareTicketModal = ({
                 <div>
                   <p className="font-medium">Kirim ke Konsumen</p>
                   <p className="text-sm text-gray-500">
-                    {ticket.customer_whatsapp ? ticket.customer_whatsapp : 'Nomor konsumen tidak tersedia'}
+                    {ticket.customer_whatsapp_e164 ? ticket.customer_whatsapp_e164 : 'Nomor konsumen tidak tersedia'}
                   </p>
                 </div>
               </Label>
@@ -0,0 +1,92 @@
+import { PointerEvent, useEffect, useRef, useState } from 'react';
+import { Eraser } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+
+interface SignaturePadProps {
+  onChange: (signature: Blob | null) => void;
+  disabled?: boolean;
+}
+
+// Finger / stylus signature capture; reports a PNG after every stroke
+export const SignaturePad = ({ onChange, disabled }: SignaturePadProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDrawingRef = useRef(false);
+  const [isEmpty, setIsEmpty] = useState(true);
+
+  // Match the canvas buffer to its rendered size so strokes are not blurry on high-DPI phones
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = canvas.offsetHeight * ratio;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    context.scale(ratio, ratio);
+    context.lineWidth = 2;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = '#111827';
+  }, []);
+
+  const getPoint = (event: PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    isDrawingRef.current = true;
+    const { x, y } = getPoint(event);
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingRef.current) return;
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+    const { x, y } = getPoint(event);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingRef.current) return;
+    isDrawingRef.current = false;
+    setIsEmpty(false);
+    event.currentTarget.toBlob((blob) => onChange(blob), 'image/png');
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    setIsEmpty(true);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        className="w-full h-40 rounded-md border border-dashed bg-white touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      />
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>{isEmpty ? 'Minta pelanggan tanda tangan di kotak ini.' : 'Tanda tangan tersimpan.'}</span>
+        <Button type="button" variant="ghost" size="sm" onClick={handleClear} disabled={disabled || isEmpty}>
+          <Eraser className="mr-2 h-4 w-4" /> Hapus
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,229 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Loader2, MessageSquare, Send, Lock, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { showSuccess, showError } from '@/utils/toast';
+import { supabase } from '@/integrations/supabase/client';
+
+type CommentVisibility = 'internal' | 'public';
+
+interface TicketComment {
+  id: string;
+  ticket_id: string;
+  author_id: string | null;
+  visibility: CommentVisibility;
+  body: string;
+  created_at: string;
+  author: { first_name: string | null; last_name: string | null; email: string | null; } | null;
+}
+
+interface TicketConversationProps {
+  ticketId: string;
+  currentUserId?: string;
+  canPost: boolean;
+  canDeleteAll: boolean;
+}
+
+const MAX_COMMENT_LENGTH = 5000;
+
+export const TicketConversation = ({ ticketId, currentUserId, canPost, canDeleteAll }: TicketConversationProps) => {
+  const queryClient = useQueryClient();
+  const [body, setBody] = useState('');
+  const [visibility, setVisibility] = useState<CommentVisibility>('internal');
+
+  const { data: comments, isLoading } = useQuery<TicketComment[], Error>({
+    queryKey: ['ticketComments', ticketId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ticket_comments')
+        .select('*, author:profiles!ticket_comments_author_id_fkey(first_name, last_name, email)')
+        .eq('ticket_id', ticketId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw new Error(error.message);
+      return data;
+    },
+  });
+
+  const addCommentMutation = useMutation({
+    mutationFn: async () => {
+      if (!currentUserId) throw new Error('Pengguna tidak terautentikasi.');
+
+      const { error } = await supabase
+        .from('ticket_comments')
+        .insert({
+          ticket_id: ticketId,
+          author_id: currentUserId,
+          visibility,
+          body: body.trim(),
+        });
+
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      showSuccess(visibility === 'public' ? 'Balasan ke pelanggan terkirim!' : 'Catatan internal tersimpan!');
+      queryClient.invalidateQueries({ queryKey: ['ticketComments', ticketId] });
+      if (visibility === 'public') {
+        // The first public reply stamps first_response_at on the ticket
+        queryClient.invalidateQueries({ queryKey: ['ticket', ticketId] });
+        queryClient.invalidateQueries({ queryKey: ['ticketEvents', ticketId] });
+      }
+      setBody('');
+    },
+    onError: (error: Error) => {
+      showError(`Gagal menyimpan pesan: ${error.message}`);
+    },
+  });
+
+  const deleteCommentMutation = useMutation({
+    mutationFn: async (commentId: string) => {
+      const { error } = await supabase
+        .from('ticket_comments')
+        .delete()
+        .eq('id', commentId);
+
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      showSuccess('Pesan berhasil dihapus.');
+      queryClient.invalidateQueries({ queryKey: ['ticketComments', ticketId] });
+    },
+    onError: (error: Error) => {
+      showError(`Gagal menghapus pesan: ${error.message}`);
+    },
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!body.trim()) return;
+    addCommentMutation.mutate();
+  };
+
+  const dateTimeFormatOptions: Intl.DateTimeFormatOptions = {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5 text-primary" /> Percakapan
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : comments?.length === 0 ? (
+          <p className="text-sm text-gray-500">Belum ada percakapan pada tiket ini.</p>
+        ) : (
+          <div className="space-y-3">
+            {comments?.map((comment) => {
+              const authorName = comment.author
+                ? [comment.author.first_name, comment.author.last_name].filter(Boolean).join(' ') || comment.author.email
+                : 'Pengguna Terhapus';
+              const isInternal = comment.visibility === 'internal';
+              const canDelete = canDeleteAll || (!!currentUserId && comment.author_id === currentUserId);
+
+              return (
+                <div
+                  key={comment.id}
+                  className={`p-3 border rounded-lg text-sm ${
+                    isInternal
+                      ? 'bg-amber-50 border-amber-200 dark:bg-amber-950 dark:border-amber-800'
+                      : 'bg-blue-50 border-blue-200 dark:bg-blue-950 dark:border-blue-800'
+                  }`}
+                >
+                  <div className="flex items-center justify-between mb-1 gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900 dark:text-white">{authorName}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                        isInternal ? 'bg-amber-100 text-amber-800' : 'bg-blue-100 text-blue-800'
+                      }`}>
+                        {isInternal ? 'Catatan Internal' : 'Ke Pelanggan'}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <span className="text-xs text-gray-500">
+                        {new Date(comment.created_at).toLocaleString('id-ID', dateTimeFormatOptions)}
+                      </span>
+                      {canDelete && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-auto p-1"
+                          onClick={() => deleteCommentMutation.mutate(comment.id)}
+                          disabled={deleteCommentMutation.isPending}
+                          aria-label="Hapus pesan"
+                        >
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  <p className="whitespace-pre-wrap text-gray-800 dark:text-gray-200">{comment.body}</p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {canPost && (
+          <form onSubmit={handleSubmit} className="space-y-3 border-t pt-4">
+            <RadioGroup
+              value={visibility}
+              onValueChange={(value) => setVisibility(value as CommentVisibility)}
+              className="flex flex-wrap gap-4"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="internal" id="comment-internal" />
+                <Label htmlFor="comment-internal" className="flex items-center gap-1 cursor-pointer">
+                  <Lock className="h-3 w-3" /> Catatan Internal
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="public" id="comment-public" />
+                <Label htmlFor="comment-public" className="cursor-pointer">
+                  Balas ke Pelanggan
+                </Label>
+              </div>
+            </RadioGroup>
+            <Textarea
+              value={body}
+              onChange={(event) => setBody(event.target.value)}
+              rows={3}
+              maxLength={MAX_COMMENT_LENGTH}
+              placeholder={
+                visibility === 'internal'
+                  ? 'Tulis catatan untuk tim (tidak terlihat oleh pelanggan)'
+                  : 'Tulis balasan yang akan terlihat oleh pelanggan di halaman tiket publik'
+              }
+            />
+            <div className="flex justify-end">
+              <Button type="submit" disabled={!body.trim() || addCommentMutation.isPending}>
+                {addCommentMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Send className="mr-2 h-4 w-4" />
+                )}
+                {visibility === 'internal' ? 'Simpan Catatan' : 'Kirim Balasan'}
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,208 @@
+import { useQuery } from '@tanstack/react-query';
+import { Loader2, History } from 'lucide-react';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { ROUTING_STRATEGY_LABELS, RoutingStrategy } from '@/utils/ticketRouting';
+import { WORK_ORDER_STATUS_LABELS, WorkOrderStatus } from '@/utils/workOrders';
+import { DEVICE_CONNECTIVITY_LABELS, DeviceConnectivity } from '@shared/deviceStatus';
+import { DEVICE_ALERT_TYPE_LABELS, DeviceAlertType } from '@shared/deviceAlert';
+
+interface ProfileName {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+}
+
+interface TicketEvent {
+  id: number;
+  ticket_id: string;
+  event_type: string;
+  field: string | null;
+  old_value: string | null;
+  new_value: string | null;
+  actor_id: string | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
+
+interface TicketTimelineProps {
+  ticketId: string;
+}
+
+const FIRST_RESPONSE_SOURCE_LABELS: Record<string, string> = {
+  public_reply: 'balasan ke pelanggan',
+  whatsapp_share: 'share WhatsApp ke konsumen',
+  status_in_progress: 'tiket mulai dikerjakan',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  status: 'Status',
+  priority: 'Prioritas',
+  assigned_to: 'Penugasan',
+  team: 'Tim',
+};
+
+const formatProfileName = (profile: ProfileName | undefined) =>
+  profile
+    ? [profile.first_name, profile.last_name].filter(Boolean).join(' ') || profile.email || 'Pengguna'
+    : 'Pengguna Terhapus';
+
+export const TicketTimeline = ({ ticketId }: TicketTimelineProps) => {
+  const { data, isLoading, error } = useQuery<{ events: TicketEvent[]; profiles: Record<string, ProfileName> }, Error>({
+    queryKey: ['ticketEvents', ticketId],
+    queryFn: async () => {
+      const { data: events, error: eventsError } = await supabase
+        .from('ticket_events')
+        .select('*')
+        .eq('ticket_id', ticketId)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true });
+
+      if (eventsError) throw new Error(eventsError.message);
+
+      // Resolve actor and assignee IDs to names in a single round-trip
+      const profileIds = new Set<string>();
+      events.forEach((event) => {
+        if (event.actor_id) profileIds.add(event.actor_id);
+        if (event.field === 'assigned_to') {
+          if (event.old_value) profileIds.add(event.old_value);
+          if (event.new_value) profileIds.add(event.new_value);
+        }
+        if (event.event_type === 'work_order' && typeof event.metadata?.technician_id === 'string') {
+          profileIds.add(event.metadata.technician_id);
+        }
+      });
+
+      const profiles: Record<string, ProfileName> = {};
+      if (profileIds.size > 0) {
+        const { data: profileRows, error: profileError } = await supabase
+          .from('profiles')
+          .select('id, first_name, last_name, email')
+          .in('id', Array.from(profileIds));
+
+        if (!profileError && profileRows) {
+          profileRows.forEach((profile) => {
+            profiles[profile.id] = profile;
+          });
+        }
+      }
+
+      return { events, profiles };
+    },
+  });
+
+  const describeValue = (field: string | null, value: string | null) => {
+    if (!value) {
+      if (field === 'assigned_to') return 'Belum Ditugaskan';
+      if (field === 'team') return 'Tanpa Tim';
+      return '-';
+    }
+    if (field === 'assigned_to') return formatProfileName(data?.profiles[value]);
+    return value.replaceAll('_', ' ');
+  };
+
+  const describeEvent = (event: TicketEvent) => {
+    switch (event.event_type) {
+      case 'created':
+        return 'Tiket dibuat';
+      case 'field_changed':
+        return `${FIELD_LABELS[event.field || ''] || event.field}: ${describeValue(event.field, event.old_value)} → ${describeValue(event.field, event.new_value)}`;
+      case 'routed': {
+        const strategyLabel = ROUTING_STRATEGY_LABELS[event.metadata?.strategy as RoutingStrategy];
+        return `Ditugaskan otomatis ke ${describeValue('assigned_to', event.new_value)}${strategyLabel ? ` (${strategyLabel})` : ''}`;
+      }
+      case 'first_response': {
+        const source = String(event.metadata?.source ?? '');
+        return FIRST_RESPONSE_SOURCE_LABELS[source]
+          ? `Respon pertama (${FIRST_RESPONSE_SOURCE_LABELS[source]})`
+          : 'Respon pertama';
+      }
+      case 'sla_escalated':
+        return event.old_value !== event.new_value
+          ? `Eskalasi SLA (${event.metadata?.level === 'warning' ? 'peringatan' : 'lewat SLA'}): prioritas ${event.old_value} → ${event.new_value}`
+          : `Eskalasi SLA (${event.metadata?.level === 'warning' ? 'peringatan' : 'lewat SLA'})`;
+      case 'escalated':
+      case 'de_escalated': {
+        const label = event.event_type === 'escalated' ? 'Eskalasi' : 'De-eskalasi';
+        const levels = event.old_value !== event.new_value ? ` L${event.old_value} → L${event.new_value}` : '';
+        return `${label}${levels}${event.metadata?.reason ? `: ${event.metadata.reason}` : ''}`;
+      }
+      case 'work_order': {
+        const technician = typeof event.metadata?.technician_id === 'string'
+          ? ` (${formatProfileName(data?.profiles[event.metadata.technician_id])})`
+          : '';
+        switch (event.new_value) {
+          case 'scheduled':
+            return `Kunjungan teknisi dijadwalkan${technician}`;
+          case 'checked_in':
+            return `Teknisi check-in di lokasi${technician}`;
+          case 'completed':
+            return `Kunjungan teknisi selesai${event.metadata?.signoff_name ? `, diterima oleh ${event.metadata.signoff_name}` : ''}`;
+          default:
+            return `Kunjungan teknisi: ${WORK_ORDER_STATUS_LABELS[event.new_value as WorkOrderStatus] ?? event.new_value}`;
+        }
+      }
+      case 'sla_breached':
+        return 'Melewati tenggat SLA';
+      case 'device_alert': {
+        const label = DEVICE_ALERT_TYPE_LABELS[event.new_value as DeviceAlertType] ?? event.new_value;
+        return event.metadata?.repeat ? `Alert perangkat berulang: ${label}` : `Alert perangkat: ${label}`;
+      }
+      case 'device_diagnostics':
+        return event.new_value === 'not_found'
+          ? 'Diagnostik perangkat: tidak ditemukan di platform tracking'
+          : `Diagnostik perangkat: ${DEVICE_CONNECTIVITY_LABELS[event.new_value as DeviceConnectivity] ?? event.new_value}`;
+      default:
+        return event.event_type.replaceAll('_', ' ');
+    }
+  };
+
+  const dateTimeFormatOptions: Intl.DateTimeFormatOptions = {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hour12: false,
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5 text-primary" /> Riwayat Aktivitas
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">Gagal memuat riwayat: {error.message}</p>
+        ) : data?.events.length === 0 ? (
+          <p className="text-sm text-gray-500">Belum ada aktivitas tercatat.</p>
+        ) : (
+          <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2">
+            {data?.events.map((event) => (
+              <li key={event.id} className="mb-4 ml-4">
+                <div className="absolute w-3 h-3 bg-primary rounded-full -left-1.5 mt-1.5 border border-white dark:border-gray-900" />
+                <p className="text-sm font-medium text-gray-900 dark:text-white">
+                  {describeEvent(event)}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {new Date(event.created_at).toLocaleString('id-ID', dateTimeFormatOptions)}
+                  {' · '}
+                  {event.actor_id ? formatProfileName(data.profiles[event.actor_id]) : 'Sistem'}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,333 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Plus, Wrench, XCircle } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { showError, showSuccess } from '@/utils/toast';
+import {
+  WORK_ORDER_STATUS_LABELS,
+  WorkOrder,
+  formatWorkOrderWindow,
+  getWorkOrderBadgeClass,
+  parseRequiredParts,
+} from '@/utils/workOrders';
+
+interface Technician {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+}
+
+interface WorkOrdersCardProps {
+  ticketId: string;
+  canSchedule: boolean;
+}
+
+const technicianName = (technician: Technician | undefined) =>
+  technician ? [technician.first_name, technician.last_name].filter(Boolean).join(' ') || technician.email : 'Belum Ditugaskan';
+
+// Signed links to the technician's photo proof and the customer's signature
+const WorkOrderProof = ({ workOrder }: { workOrder: WorkOrder }) => {
+  const paths = [...workOrder.photo_paths, ...(workOrder.signoff_signature_path ? [workOrder.signoff_signature_path] : [])];
+
+  const { data: urls, isLoading } = useQuery<string[], Error>({
+    queryKey: ['workOrderProof', workOrder.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.storage
+        .from('ticket-attachments')
+        .createSignedUrls(paths, 60 * 60);
+      if (error) throw new Error(error.message);
+      return data.map((item) => item.signedUrl);
+    },
+    enabled: paths.length > 0,
+    staleTime: 30 * 60 * 1000,
+  });
+
+  if (isLoading) return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+
+  return (
+    <div className="flex flex-wrap gap-3 text-sm">
+      {urls?.map((url, index) => (
+        <a key={paths[index]} href={url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+          {paths[index] === workOrder.signoff_signature_path ? 'Tanda tangan' : `Foto ${index + 1}`}
+        </a>
+      ))}
+    </div>
+  );
+};
+
+export const WorkOrdersCard = ({ ticketId, canSchedule }: WorkOrdersCardProps) => {
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [address, setAddress] = useState('');
+  const [scheduledStart, setScheduledStart] = useState('');
+  const [scheduledEnd, setScheduledEnd] = useState('');
+  const [technicianId, setTechnicianId] = useState('');
+  const [requiredParts, setRequiredParts] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const { data: workOrders, isLoading, error } = useQuery<WorkOrder[], Error>({
+    queryKey: ['workOrders', ticketId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('work_orders')
+        .select('*')
+        .eq('ticket_id', ticketId)
+        .order('scheduled_start', { ascending: false });
+      if (error) throw new Error(error.message);
+      return data;
+    },
+  });
+
+  const { data: technicians } = useQuery<Technician[], Error>({
+    queryKey: ['technicians'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, first_name, last_name, email')
+        .eq('role', 'technician')
+        .order('first_name');
+      if (error) throw new Error(error.message);
+      return data;
+    },
+  });
+
+  const invalidateWorkOrders = () => {
+    queryClient.invalidateQueries({ queryKey: ['workOrders', ticketId] });
+    queryClient.invalidateQueries({ queryKey: ['ticketEvents', ticketId] });
+  };
+
+  const resetForm = () => {
+    setAddress('');
+    setScheduledStart('');
+    setScheduledEnd('');
+    setTechnicianId('');
+    setRequiredParts('');
+    setNotes('');
+  };
+
+  const createWorkOrderMutation = useMutation({
+    mutationFn: async () => {
+      if (!address.trim()) throw new Error('Alamat kunjungan wajib diisi.');
+      if (!scheduledStart || !scheduledEnd) throw new Error('Jadwal kunjungan wajib diisi.');
+      if (new Date(scheduledEnd) <= new Date(scheduledStart)) throw new Error('Waktu selesai harus setelah waktu mulai.');
+      if (!technicianId) throw new Error('Teknisi wajib dipilih.');
+
+      const { error } = await supabase.from('work_orders').insert({
+        ticket_id: ticketId,
+        address: address.trim(),
+        scheduled_start: new Date(scheduledStart).toISOString(),
+        scheduled_end: new Date(scheduledEnd).toISOString(),
+        technician_id: technicianId,
+        required_parts: parseRequiredParts(requiredParts),
+        notes: notes.trim() || null,
+      });
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      showSuccess('Kunjungan teknisi berhasil dijadwalkan!');
+      setIsDialogOpen(false);
+      resetForm();
+      invalidateWorkOrders();
+    },
+    onError: (error: Error) => {
+      showError(`Gagal menjadwalkan kunjungan: ${error.message}`);
+    },
+  });
+
+  const cancelWorkOrderMutation = useMutation({
+    mutationFn: async (workOrderId: string) => {
+      const { error } = await supabase.from('work_orders').update({ status: 'cancelled' }).eq('id', workOrderId);
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      showSuccess('Kunjungan teknisi dibatalkan.');
+      invalidateWorkOrders();
+    },
+    onError: (error: Error) => {
+      showError(`Gagal membatalkan kunjungan: ${error.message}`);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Wrench className="h-5 w-5 text-primary" /> Kunjungan Teknisi
+        </CardTitle>
+        {canSchedule && (
+          <Button size="sm" variant="outline" onClick={() => setIsDialogOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" /> Jadwalkan
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">Gagal memuat kunjungan: {error.message}</p>
+        ) : !workOrders?.length ? (
+          <p className="text-sm text-gray-500">Belum ada kunjungan teknisi untuk tiket ini.</p>
+        ) : (
+          <ul className="space-y-4">
+            {workOrders.map((workOrder) => (
+              <li key={workOrder.id} className="rounded-md border p-4 space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className={`px-2 py-1 rounded-full text-xs font-semibold ${getWorkOrderBadgeClass(workOrder.status)}`}>
+                      {WORK_ORDER_STATUS_LABELS[workOrder.status]}
+                    </span>
+                    <span className="text-sm font-medium">
+                      {formatWorkOrderWindow(workOrder.scheduled_start, workOrder.scheduled_end)}
+                    </span>
+                  </div>
+                  {(workOrder.status === 'scheduled' || workOrder.status === 'checked_in') && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-red-600"
+                      onClick={() => cancelWorkOrderMutation.mutate(workOrder.id)}
+                      disabled={cancelWorkOrderMutation.isPending}
+                    >
+                      <XCircle className="mr-2 h-4 w-4" /> Batalkan
+                    </Button>
+                  )}
+                </div>
+                <p className="text-sm"><span className="text-gray-500">Teknisi:</span> {technicianName(technicians?.find((t) => t.id === workOrder.technician_id))}</p>
+                <p className="text-sm"><span className="text-gray-500">Alamat:</span> {workOrder.address}</p>
+                {workOrder.required_parts.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-1 text-sm">
+                    <span className="text-gray-500">Suku cadang:</span>
+                    {workOrder.required_parts.map((part) => (
+                      <Badge key={part} variant="secondary">{part}</Badge>
+                    ))}
+                  </div>
+                )}
+                {workOrder.notes && <p className="text-sm text-gray-600 whitespace-pre-wrap">{workOrder.notes}</p>}
+                {workOrder.status === 'completed' && (
+                  <div className="rounded-md bg-green-50 p-3 space-y-1">
+                    <p className="text-sm whitespace-pre-wrap">{workOrder.work_summary}</p>
+                    <p className="text-xs text-gray-600">
+                      Diterima oleh {workOrder.signoff_name}
+                      {workOrder.completed_at && ` · ${new Date(workOrder.completed_at).toLocaleString('id-ID')}`}
+                    </p>
+                    <WorkOrderProof workOrder={workOrder} />
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>Jadwalkan Kunjungan Teknisi</DialogTitle>
+            <DialogDescription>
+              Teknisi akan melihat kunjungan ini di halaman Kunjungan Saya dan menutupnya dengan bukti foto serta tanda tangan pelanggan.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="work-order-address">Alamat</Label>
+              <Textarea
+                id="work-order-address"
+                value={address}
+                onChange={(e) => setAddress(e.target.value)}
+                rows={2}
+                placeholder="Alamat lengkap lokasi kendaraan"
+              />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="work-order-start">Mulai</Label>
+                <Input
+                  id="work-order-start"
+                  type="datetime-local"
+                  value={scheduledStart}
+                  onChange={(e) => setScheduledStart(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="work-order-end">Selesai</Label>
+                <Input
+                  id="work-order-end"
+                  type="datetime-local"
+                  value={scheduledEnd}
+                  onChange={(e) => setScheduledEnd(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Teknisi</Label>
+              <Select value={technicianId} onValueChange={setTechnicianId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Pilih teknisi" />
+                </SelectTrigger>
+                <SelectContent>
+                  {technicians?.map((technician) => (
+                    <SelectItem key={technician.id} value={technician.id}>
+                      {technicianName(technician)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="work-order-parts">Suku Cadang</Label>
+              <Input
+                id="work-order-parts"
+                value={requiredParts}
+                onChange={(e) => setRequiredParts(e.target.value)}
+                placeholder="Pisahkan dengan koma, contoh: GPS GT06N, relay, kabel power"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="work-order-notes">Catatan</Label>
+              <Textarea
+                id="work-order-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Batal
+            </Button>
+            <Button onClick={() => createWorkOrderMutation.mutate()} disabled={createWorkOrderMutation.isPending}>
+              {createWorkOrderMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Jadwalkan
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
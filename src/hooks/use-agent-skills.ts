@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { AgentSkill } from '@/utils/agentSkills';
+
+// Skills of every agent, used by ManageRoles and the assignment dropdown in TicketDetail
+export const useAgentSkills = (enabled = true) =>
+  useQuery<AgentSkill[], Error>({
+    queryKey: ['agentSkills'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('agent_skills')
+        .select('agent_id, skill_type, value')
+        .order('skill_type')
+        .order('value');
+
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled,
+  });
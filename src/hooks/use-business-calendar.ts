@@ -0,0 +1,27 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { BusinessCalendar } from '@/utils/businessCalendar';
+
+// Shared cache of the business calendar (timezone, working hours, holidays) used for SLA time
+export const useBusinessCalendar = () =>
+  useQuery<BusinessCalendar, Error>({
+    queryKey: ['businessCalendar'],
+    queryFn: async () => {
+      const [settingsResult, hoursResult, holidaysResult] = await Promise.all([
+        supabase.from('business_calendar_settings').select('timezone').maybeSingle(),
+        supabase.from('business_hours').select('weekday, is_working_day, start_time, end_time').order('weekday'),
+        supabase.from('holidays').select('holiday_date, name').order('holiday_date'),
+      ]);
+
+      if (settingsResult.error) throw new Error(settingsResult.error.message);
+      if (hoursResult.error) throw new Error(hoursResult.error.message);
+      if (holidaysResult.error) throw new Error(holidaysResult.error.message);
+
+      return {
+        timezone: settingsResult.data?.timezone ?? 'Asia/Jakarta',
+        hours: hoursResult.data,
+        holidays: holidaysResult.data,
+      };
+    },
+    staleTime: 5 * 60 * 1000,
+  });
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+// Value that only follows `value` once it has stopped changing for `delayMs`, for search-as-you-type
+export const useDebouncedValue = <T,>(value: T, delayMs = 300) => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebounced(value), delayMs);
+    return () => window.clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debounced;
+};
@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { FleetAccount } from '@/utils/fleets';
+
+// Shared cache of fleet accounts, used by the fleet list and the fleet pickers on vehicles and customers
+export const useFleetAccounts = (enabled = true) =>
+  useQuery<FleetAccount[], Error>({
+    queryKey: ['fleetAccounts'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('fleet_accounts')
+        .select('*')
+        .order('name');
+
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  });
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+// Current time that re-renders the caller every `intervalMs`, for live countdowns
+export const useNow = (intervalMs = 1000) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), intervalMs);
+    return () => window.clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+};
@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { SlaPolicy } from '@/utils/sla';
+
+// Shared cache of sla_policies, used by every page that renders an SLA badge
+export const useSlaPolicies = () =>
+  useQuery<SlaPolicy[], Error>({
+    queryKey: ['slaPolicies'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('sla_policies')
+        .select('id, priority, category, first_response_minutes, warning_minutes, resolution_minutes, warning_priority_bump, breach_priority_bump')
+        .order('priority')
+        .order('category', { nullsFirst: true });
+
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
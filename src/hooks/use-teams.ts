@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Team } from '@/utils/teams';
+
+// Shared cache of teams, used by the team admin page, routing rules, the ticket list and ticket detail
+export const useTeams = (enabled = true) =>
+  useQuery<Team[], Error>({
+    queryKey: ['teams'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('teams')
+        .select('id, name, lead_id, restrict_visibility')
+        .order('name');
+
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  });
@@ -0,0 +1,31 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { VehicleSuggestion } from '@/utils/vehicles';
+
+const MIN_SEARCH_LENGTH = 2;
+
+// Registered vehicles whose plate starts with `term`, with owner and installed device for prefilling forms.
+// Plates are stored canonically ("B 1234 XYZ"), so the term is spaced the same way: "b1234x" -> "B 1234 X".
+export const useVehicleSearch = (term: string, enabled = true) => {
+  const normalizedTerm = term
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, '')
+    .replace(/([A-Z])(?=[0-9])|([0-9])(?=[A-Z])/g, '$1$2 ');
+
+  return useQuery<VehicleSuggestion[], Error>({
+    queryKey: ['vehicleSearch', normalizedTerm],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('vehicles')
+        .select('*, customer:customers(name, whatsapp_number), gps_devices(imei, simcard_number)')
+        .ilike('plate_number', `${normalizedTerm}%`)
+        .order('plate_number')
+        .limit(8);
+
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: enabled && normalizedTerm.length >= MIN_SEARCH_LENGTH,
+    staleTime: 30 * 1000,
+  });
+};
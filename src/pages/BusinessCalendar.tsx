@@ -0,0 +1,336 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+
+import { useSession } from '@/components/SessionContextProvider';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { showSuccess, showError } from '@/utils/toast';
+import { supabase } from '@/integrations/supabase/client';
+import { BusinessHours, WEEKDAY_LABELS } from '@/utils/businessCalendar';
+import { useBusinessCalendar } from '@/hooks/use-business-calendar';
+
+const TIMEZONE_OPTIONS = [
+  { value: 'Asia/Jakarta', label: 'WIB (Asia/Jakarta)' },
+  { value: 'Asia/Makassar', label: 'WITA (Asia/Makassar)' },
+  { value: 'Asia/Jayapura', label: 'WIT (Asia/Jayapura)' },
+];
+
+// Postgres returns TIME as "HH:MM:SS", <input type="time"> works with "HH:MM"
+const toTimeInputValue = (time: string) => time.slice(0, 5);
+
+const BusinessCalendar = () => {
+  const { session, loading, role } = useSession();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const [timezone, setTimezone] = useState('Asia/Jakarta');
+  const [hours, setHours] = useState<BusinessHours[]>([]);
+  const [newHolidayDate, setNewHolidayDate] = useState('');
+  const [newHolidayName, setNewHolidayName] = useState('');
+
+  // Redirect if not admin
+  useEffect(() => {
+    if (!loading && (!session || role !== 'admin')) {
+      showError('Anda tidak memiliki izin untuk mengakses halaman ini.');
+      navigate('/');
+    }
+  }, [session, loading, role, navigate]);
+
+  const { data: calendar, isLoading, error } = useBusinessCalendar();
+
+  // Editable copies of the stored calendar
+  useEffect(() => {
+    if (calendar) {
+      setTimezone(calendar.timezone);
+      setHours(calendar.hours.map((row) => ({
+        ...row,
+        start_time: toTimeInputValue(row.start_time),
+        end_time: toTimeInputValue(row.end_time),
+      })));
+    }
+  }, [calendar]);
+
+  const invalidateCalendar = () => {
+    queryClient.invalidateQueries({ queryKey: ['businessCalendar'] });
+    queryClient.invalidateQueries({ queryKey: ['slaPerformancePercentage'] });
+  };
+
+  const saveScheduleMutation = useMutation({
+    mutationFn: async () => {
+      const invalidRow = hours.find((row) => row.is_working_day && row.start_time >= row.end_time);
+      if (invalidRow) {
+        throw new Error(`Jam mulai hari ${WEEKDAY_LABELS[invalidRow.weekday]} harus sebelum jam selesai.`);
+      }
+
+      const { error: settingsError } = await supabase
+        .from('business_calendar_settings')
+        .update({ timezone, updated_at: new Date().toISOString() })
+        .eq('id', true);
+      if (settingsError) throw new Error(settingsError.message);
+
+      const results = await Promise.all(hours.map((row) =>
+        supabase
+          .from('business_hours')
+          .update({ is_working_day: row.is_working_day, start_time: row.start_time, end_time: row.end_time })
+          .eq('weekday', row.weekday),
+      ));
+      const failed = results.find((result) => result.error);
+      if (failed?.error) throw new Error(failed.error.message);
+    },
+    onSuccess: () => {
+      showSuccess('Jam kerja berhasil disimpan!');
+      invalidateCalendar();
+    },
+    onError: (error: Error) => {
+      showError(`Gagal menyimpan jam kerja: ${error.message}`);
+    },
+  });
+
+  const addHolidayMutation = useMutation({
+    mutationFn: async () => {
+      if (!newHolidayDate || !newHolidayName.trim()) {
+        throw new Error('Tanggal dan nama hari libur wajib diisi.');
+      }
+      const { error } = await supabase
+        .from('holidays')
+        .insert({ holiday_date: newHolidayDate, name: newHolidayName.trim() });
+      if (error) {
+        if (error.code === '23505') throw new Error('Tanggal tersebut sudah terdaftar sebagai hari libur.');
+        throw new Error(error.message);
+      }
+    },
+    onSuccess: () => {
+      showSuccess('Hari libur berhasil ditambahkan!');
+      setNewHolidayDate('');
+      setNewHolidayName('');
+      invalidateCalendar();
+    },
+    onError: (error: Error) => {
+      showError(`Gagal menambahkan hari libur: ${error.message}`);
+    },
+  });
+
+  const deleteHolidayMutation = useMutation({
+    mutationFn: async (holidayDate: string) => {
+      const { error } = await supabase.from('holidays').delete().eq('holiday_date', holidayDate);
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      showSuccess('Hari libur berhasil dihapus!');
+      invalidateCalendar();
+    },
+    onError: (error: Error) => {
+      showError(`Gagal menghapus hari libur: ${error.message}`);
+    },
+  });
+
+  const updateHoursRow = (weekday: number, changes: Partial<BusinessHours>) => {
+    setHours((rows) => rows.map((row) => (row.weekday === weekday ? { ...row, ...changes } : row)));
+  };
+
+  if (loading || (session && role !== 'admin')) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+        <p className="text-gray-700 dark:text-gray-300">
+          {loading ? 'Memuat...' : 'Mengalihkan...'}
+        </p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+        <h1 className="text-3xl font-bold text-red-600 dark:text-red-400 mb-4">Error</h1>
+        <p className="text-lg text-gray-700 dark:text-gray-300">
+          Gagal memuat kalender kerja: {error.message}
+        </p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2 text-gray-900 dark:text-white">Kalender Kerja</h1>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Waktu SLA hanya berjalan pada jam kerja dan tidak dihitung pada hari libur.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Jam Kerja</CardTitle>
+          <CardDescription>Jam kerja per hari dalam zona waktu kalender.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="max-w-xs">
+            <label className="text-sm font-medium">Zona Waktu</label>
+            <Select value={timezone} onValueChange={setTimezone}>
+              <SelectTrigger className="mt-1">
+                <SelectValue placeholder="Pilih zona waktu" />
+              </SelectTrigger>
+              <SelectContent>
+                {TIMEZONE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Hari</TableHead>
+                  <TableHead>Hari Kerja</TableHead>
+                  <TableHead>Mulai</TableHead>
+                  <TableHead>Selesai</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {hours.map((row) => (
+                  <TableRow key={row.weekday}>
+                    <TableCell className="font-medium">{WEEKDAY_LABELS[row.weekday]}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={row.is_working_day}
+                        onCheckedChange={(checked) => updateHoursRow(row.weekday, { is_working_day: checked })}
+                        aria-label={`Hari kerja ${WEEKDAY_LABELS[row.weekday]}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="time"
+                        value={row.start_time}
+                        disabled={!row.is_working_day}
+                        onChange={(e) => updateHoursRow(row.weekday, { start_time: e.target.value })}
+                        className="w-32"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="time"
+                        value={row.end_time}
+                        disabled={!row.is_working_day}
+                        onChange={(e) => updateHoursRow(row.weekday, { end_time: e.target.value })}
+                        className="w-32"
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={() => saveScheduleMutation.mutate()} disabled={saveScheduleMutation.isPending}>
+              {saveScheduleMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Simpan Jam Kerja
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Hari Libur</CardTitle>
+          <CardDescription>Libur nasional dan cuti bersama. Perbarui daftar ini setiap tahun.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col md:flex-row gap-2">
+            <Input
+              type="date"
+              value={newHolidayDate}
+              onChange={(e) => setNewHolidayDate(e.target.value)}
+              className="md:w-48"
+            />
+            <Input
+              placeholder="Nama hari libur, contoh: Idul Fitri"
+              value={newHolidayName}
+              onChange={(e) => setNewHolidayName(e.target.value)}
+            />
+            <Button onClick={() => addHolidayMutation.mutate()} disabled={addHolidayMutation.isPending}>
+              {addHolidayMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+              Tambah
+            </Button>
+          </div>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tanggal</TableHead>
+                  <TableHead>Nama</TableHead>
+                  <TableHead className="text-center">Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {calendar?.holidays.length ? (
+                  calendar.holidays.map((holiday) => (
+                    <TableRow key={holiday.holiday_date}>
+                      <TableCell>
+                        {new Date(`${holiday.holiday_date}T00:00:00`).toLocaleDateString('id-ID', {
+                          weekday: 'long', year: 'numeric', month: 'long', day: 'numeric',
+                        })}
+                      </TableCell>
+                      <TableCell>{holiday.name}</TableCell>
+                      <TableCell className="text-center">
+                        <Button
+                          variant="destructive"
+                          size="icon"
+                          onClick={() => deleteHolidayMutation.mutate(holiday.holiday_date)}
+                          disabled={deleteHolidayMutation.isPending}
+                          aria-label="Hapus hari libur"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={3} className="h-24 text-center">
+                      Belum ada hari libur.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default BusinessCalendar;
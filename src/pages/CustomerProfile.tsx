@@ -0,0 +1,341 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, Car, Loader2, Save, Ticket as TicketIcon, UserRound } from 'lucide-react';
+
+import { useSession } from '@/components/SessionContextProvider';
+import { CustomerNotes } from '@/components/CustomerNotes';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { showSuccess, showError } from '@/utils/toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Customer, CustomerTicket } from '@/utils/customers';
+import { VehicleWithDevice } from '@/utils/vehicles';
+import { NO_FLEET_SENTINEL } from '@/utils/fleets';
+import { useFleetAccounts } from '@/hooks/use-fleet-accounts';
+import { parsePhoneNumber } from '@shared/phoneNumber';
+import { ACTIVE_TICKET_STATUSES, TICKET_STATUS_LABELS, getStatusBadgeClass } from '@/utils/ticketStatus';
+
+const CustomerProfile = () => {
+  const { id } = useParams<{ id: string }>();
+  const { session, loading, role, user } = useSession();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+
+  const canView = role === 'admin' || role === 'customer_service';
+
+  // Redirect if not admin or customer service
+  useEffect(() => {
+    if (!loading && (!session || !canView)) {
+      showError('Anda tidak memiliki izin untuk mengakses halaman ini.');
+      navigate('/');
+    }
+  }, [session, loading, canView, navigate]);
+
+  const { data: customer, isLoading: isLoadingCustomer, error } = useQuery<Customer, Error>({
+    queryKey: ['customer', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('customers')
+        .select('*')
+        .eq('id', id)
+        .single();
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!session && canView && !!id,
+  });
+
+  const { data: tickets, isLoading: isLoadingTickets } = useQuery<CustomerTicket[], Error>({
+    queryKey: ['customerTickets', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('tickets')
+        .select('id, ticket_number, title, status, priority, category, no_plat_kendaraan, no_simcard_gps, vehicle_id, created_at')
+        .eq('customer_id', id)
+        .order('created_at', { ascending: false });
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!session && canView && !!id,
+  });
+
+  const { data: fleets } = useFleetAccounts(!!session && canView);
+
+  const { data: vehicles } = useQuery<VehicleWithDevice[], Error>({
+    queryKey: ['customerVehicles', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('vehicles')
+        .select('*, gps_devices(imei, simcard_number)')
+        .eq('customer_id', id)
+        .order('plate_number');
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!session && canView && !!id,
+  });
+
+  useEffect(() => {
+    if (customer) setName(customer.name || '');
+  }, [customer]);
+
+  const updateNameMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('customers')
+        .update({ name: name.trim() || null })
+        .eq('id', id);
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      showSuccess('Nama pelanggan berhasil diperbarui!');
+      queryClient.invalidateQueries({ queryKey: ['customer', id] });
+    },
+    onError: (error: Error) => {
+      showError(`Gagal memperbarui pelanggan: ${error.message}`);
+    },
+  });
+
+  const updateFleetMutation = useMutation({
+    mutationFn: async (fleetAccountId: string | null) => {
+      const { error } = await supabase
+        .from('customers')
+        .update({ fleet_account_id: fleetAccountId })
+        .eq('id', id);
+      if (error) throw new Error(error.message);
+      return fleetAccountId;
+    },
+    onSuccess: (fleetAccountId) => {
+      showSuccess(fleetAccountId ? 'Pelanggan dihubungkan ke armada!' : 'Pelanggan dilepas dari armada.');
+      queryClient.invalidateQueries({ queryKey: ['customer', id] });
+      queryClient.invalidateQueries({ queryKey: ['fleetCustomers'] });
+      queryClient.invalidateQueries({ queryKey: ['fleetAccounts'] });
+    },
+    onError: (error: Error) => {
+      showError(`Gagal memperbarui armada pelanggan: ${error.message}`);
+    },
+  });
+
+  if (loading || (session && !canView)) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+        <p className="text-gray-700 dark:text-gray-300">
+          {loading ? 'Memuat...' : 'Mengalihkan...'}
+        </p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+        <h1 className="text-3xl font-bold text-red-600 dark:text-red-400 mb-4">Error</h1>
+        <p className="text-lg text-gray-700 dark:text-gray-300">
+          Gagal memuat pelanggan: {error.message}
+        </p>
+      </div>
+    );
+  }
+
+  if (isLoadingCustomer || isLoadingTickets || !customer) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const currentYear = new Date().getFullYear();
+  const ticketsThisYear = tickets?.filter((ticket) => new Date(ticket.created_at).getFullYear() === currentYear).length ?? 0;
+  const activeTickets = tickets?.filter((ticket) => ACTIVE_TICKET_STATUSES.includes(ticket.status)).length ?? 0;
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <Button variant="outline" onClick={() => navigate(-1)}>
+        <ArrowLeft className="mr-2 h-4 w-4" /> Kembali
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserRound className="h-5 w-5 text-primary" /> Profil Pelanggan
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Nama pelanggan"
+                aria-label="Nama pelanggan"
+              />
+              <Button
+                variant="outline"
+                onClick={() => updateNameMutation.mutate()}
+                disabled={updateNameMutation.isPending || name.trim() === (customer.name || '')}
+              >
+                {updateNameMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Simpan
+              </Button>
+            </div>
+            <p>
+              <strong>WhatsApp:</strong> {customer.whatsapp_number}
+              {parsePhoneNumber(customer.whatsapp_number).phone?.lineType === 'landline' && (
+                <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-amber-100 text-amber-800">
+                  Telepon rumah/kantor, tidak bisa WhatsApp
+                </span>
+              )}
+            </p>
+            <div className="flex items-center gap-2">
+              <strong>Armada:</strong>
+              <Select
+                value={customer.fleet_account_id ?? NO_FLEET_SENTINEL}
+                onValueChange={(value) => updateFleetMutation.mutate(value === NO_FLEET_SENTINEL ? null : value)}
+                disabled={updateFleetMutation.isPending}
+              >
+                <SelectTrigger className="w-[240px]" aria-label="Armada pelanggan">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_FLEET_SENTINEL}>Pelanggan Perorangan</SelectItem>
+                  {fleets?.map((fleet) => (
+                    <SelectItem key={fleet.id} value={fleet.id}>
+                      {fleet.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {customer.fleet_account_id && (
+                <Link to={`/fleets/${customer.fleet_account_id}`} className="text-sm text-blue-600 hover:underline dark:text-blue-400">
+                  Lihat
+                </Link>
+              )}
+            </div>
+            <p><strong>Pelanggan Sejak:</strong> {new Date(customer.created_at).toLocaleDateString('id-ID')}</p>
+          </div>
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <div className="text-2xl font-bold">{tickets?.length ?? 0}</div>
+              <p className="text-xs text-muted-foreground">Total Tiket</p>
+            </div>
+            <div>
+              <div className="text-2xl font-bold">{ticketsThisYear}</div>
+              <p className="text-xs text-muted-foreground">Tiket {currentYear}</p>
+            </div>
+            <div>
+              <div className="text-2xl font-bold">{activeTickets}</div>
+              <p className="text-xs text-muted-foreground">Masih Aktif</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TicketIcon className="h-5 w-5 text-primary" /> Tiket
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>No. Tiket</TableHead>
+                  <TableHead>Judul</TableHead>
+                  <TableHead>Kendaraan</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Dibuat</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tickets?.length ? (
+                  tickets.map((ticket) => (
+                    <TableRow key={ticket.id}>
+                      <TableCell className="font-medium">
+                        <Link to={`/tickets/${ticket.id}`} className="text-blue-600 hover:underline">
+                          {ticket.ticket_number}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{ticket.title}</TableCell>
+                      <TableCell>{ticket.no_plat_kendaraan || '-'}</TableCell>
+                      <TableCell>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getStatusBadgeClass(ticket.status)}`}>
+                          {TICKET_STATUS_LABELS[ticket.status]}
+                        </span>
+                      </TableCell>
+                      <TableCell>{new Date(ticket.created_at).toLocaleDateString('id-ID')}</TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center">
+                      Belum ada tiket.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Car className="h-5 w-5 text-primary" /> Kendaraan
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {vehicles?.length ? (
+            <ul className="divide-y text-sm">
+              {vehicles.map((vehicle) => {
+                const device = vehicle.gps_devices[0];
+                const ticketCount = tickets?.filter((ticket) => ticket.vehicle_id === vehicle.id).length ?? 0;
+                return (
+                  <li key={vehicle.id} className="flex items-center justify-between py-2 gap-2">
+                    <div>
+                      <Link to={`/vehicles/${vehicle.id}`} className="font-medium text-blue-600 hover:underline dark:text-blue-400">
+                        {vehicle.plate_number}
+                      </Link>
+                      {vehicle.make && <span className="ml-2 text-gray-500">{vehicle.make}</span>}
+                      <p className="text-xs text-gray-500">
+                        {device ? `IMEI ${device.imei} · Simcard ${device.simcard_number || '-'}` : 'Belum ada perangkat GPS'}
+                      </p>
+                    </div>
+                    <span className="text-xs text-gray-500 text-right">{ticketCount} tiket</span>
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500">Belum ada kendaraan terdaftar untuk pelanggan ini.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <CustomerNotes customerId={customer.id} currentUserId={user?.id} canDeleteAll={role === 'admin'} />
+    </div>
+  );
+};
+
+export default CustomerProfile;
@@ -1,9 +1,10 @@
 import { useEffect, useState, useMemo } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Loader2, Ticket as TicketIcon, CheckCircle, UserCheck, TrendingUp, Eye, PieChart, Share2, Hand } from 'lucide-react';
+import { Loader2, Ticket as TicketIcon, CheckCircle, UserCheck, TrendingUp, Eye, PieChart, Share2, Hand, MessageSquareReply, Layers, MapPin } from 'lucide-react';
 
 import { useSession } from '@/components/SessionContextProvider';
+import { OnDutyAgentsCard } from '@/components/OnDutyAgentsCard';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import {
@@ -16,8 +17,13 @@ import {
 } from '@/components/ui/table';
 import { showError, showSuccess } from '@/utils/toast';
 import { supabase } from '@/integrations/supabase/client';
-import { getSlaStatus } from '@/utils/sla';
+import { getSlaBadgeClass, getSlaStatus } from '@/utils/sla';
+import { useSlaPolicies } from '@/hooks/use-sla-policies';
+import { useBusinessCalendar } from '@/hooks/use-business-calendar';
 import { buildTicketWhatsappLink } from '@/utils/whatsapp';
+import { ACTIVE_TICKET_STATUSES, getStatusBadgeClass } from '@/utils/ticketStatus';
+import { ESCALATION_LEVEL_LABELS, EscalationTierReportRow } from '@/utils/escalation';
+import { TicketRegionReportRow } from '@/utils/vehicles';
 
 interface LatestTicket {
   id: string;
@@ -26,13 +32,18 @@ interface LatestTicket {
   title: string;
   status: string;
   priority: string;
+  category: string | null;
   no_plat_kendaraan?: string | null;
   no_simcard_gps?: string | null;
   customer_name?: string | null;
   customer_whatsapp: string | null;
+  customer_whatsapp_e164: string | null;
   created_by: string | null;
   assigned_to: string | null;
   resolved_at: string | null;
+  sla_paused_at: string | null;
+  sla_paused_seconds: number;
+  sla_priority: string;
 }
 
 const Dashboard = () => {
@@ -48,6 +59,13 @@ const Dashboard = () => {
     }
   }, [session, loading, navigate]);
 
+  // Technicians work from their visit list, not the ticket dashboard
+  useEffect(() => {
+    if (!loading && session && role === 'technician') {
+      navigate('/visits', { replace: true });
+    }
+  }, [session, loading, role, navigate]);
+
   // Query for all tickets count (for sales role) - using count
   const { data: allTicketsCount, isLoading: isLoadingAllTickets } = useQuery<number, Error>({
     queryKey: ['allTicketsCount'],
@@ -92,7 +110,7 @@ const Dashboard = () => {
     enabled: !!session && (role === 'admin' || role === 'customer_service') && !!user?.id,
   });
 
-  // Query: Tickets assigned to the current agent that are in_progress - using count
+  // Query: Tickets assigned to the current agent that are still being worked on - using count
   const { data: assignedActiveTicketsCount, isLoading: isLoadingAssignedActiveTickets } = useQuery<number, Error>({
     queryKey: ['assignedActiveTicketsCount', user?.id],
     queryFn: async () => {
@@ -101,7 +119,7 @@ const Dashboard = () => {
         .from('tickets')
         .select('*', { count: 'exact', head: true })
         .eq('assigned_to', user.id)
-        .eq('status', 'in_progress');
+        .in('status', ACTIVE_TICKET_STATUSES);
 
       if (error) throw new Error(error.message);
       return count || 0;
@@ -169,19 +187,18 @@ const Dashboard = () => {
     fetchProfiles();
   }, [latestTickets]);
 
+  const { data: slaPolicies } = useSlaPolicies();
+
+  const { data: businessCalendar } = useBusinessCalendar();
+
   // Mutation for taking a ticket as PIC from Dashboard
   const takeTicketMutation = useMutation({
     mutationFn: async (ticketId: string) => {
       if (!user?.id) throw new Error('Pengguna tidak terautentikasi.');
 
+      // Atomic claim: fails with "Tiket sudah diambil oleh X" if another agent got there first
       const { data, error } = await supabase
-        .from('tickets')
-        .update({
-          status: 'in_progress',
-          assigned_to: user.id,
-        })
-        .eq('id', ticketId)
-        .select()
+        .rpc('claim_ticket', { p_ticket_id: ticketId })
         .single();
 
       if (error) throw new Error(error.message);
@@ -195,9 +212,12 @@ const Dashboard = () => {
       queryClient.invalidateQueries({ queryKey: ['latestTickets'] });
       queryClient.invalidateQueries({ queryKey: ['assignedActiveTicketsCount'] });
       queryClient.invalidateQueries({ queryKey: ['tickets'] });
+      queryClient.invalidateQueries({ queryKey: ['firstResponsePerformance'] });
     },
     onError: (err: Error) => {
       showError(`Gagal mengambil tiket: ${err.message}`);
+      // The list is stale if someone else claimed it first
+      queryClient.invalidateQueries({ queryKey: ['latestTickets'] });
     },
     onSettled: () => {
       setPendingTicketId(null);
@@ -216,6 +236,22 @@ const Dashboard = () => {
     enabled: !!session && (role === 'admin' || role === 'customer_service'),
   });
 
+  // Query: First Response Performance - server-side aggregation
+  const { data: firstResponsePerformance, isLoading: isLoadingFirstResponsePerformance } = useQuery<{ percentage: number; avgMinutes: number }, Error>({
+    queryKey: ['firstResponsePerformance'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_first_response_performance');
+
+      if (error) throw new Error(error.message);
+      const row = data?.[0];
+      return {
+        percentage: row?.first_response_percentage ?? 0,
+        avgMinutes: row?.avg_first_response_minutes ?? 0,
+      };
+    },
+    enabled: !!session && (role === 'admin' || role === 'customer_service'),
+  });
+
   // Query: Ticket Status Percentages - server-side aggregation
   const { data: ticketStatusPercentages, isLoading: isLoadingTicketStatusPercentages } = useQuery<{ open: number; inProgress: number; resolved: number }, Error>({
     queryKey: ['ticketStatusPercentages'],
@@ -233,7 +269,31 @@ const Dashboard = () => {
     enabled: !!session && (role === 'admin' || role === 'customer_service'),
   });
 
-  const isLoading = loading || isLoadingAllTickets || isLoadingActiveTickets || isLoadingResolvedTicketsByAgent || isLoadingLatestTickets || isLoadingAssignedActiveTickets || isLoadingSlaPerformance || isLoadingTicketStatusPercentages;
+  // Query: Escalation tiers - resolved versus handed up, per tier
+  const { data: escalationTierReport } = useQuery<EscalationTierReportRow[], Error>({
+    queryKey: ['escalationTierReport'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_escalation_tier_report');
+
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!session && (role === 'admin' || role === 'customer_service'),
+  });
+
+  // Query: Tickets per plate region (province)
+  const { data: ticketRegionReport } = useQuery<TicketRegionReportRow[], Error>({
+    queryKey: ['ticketRegionReport'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_ticket_region_report');
+
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!session && (role === 'admin' || role === 'customer_service'),
+  });
+
+  const isLoading = loading || isLoadingAllTickets || isLoadingActiveTickets || isLoadingResolvedTicketsByAgent || isLoadingLatestTickets || isLoadingAssignedActiveTickets || isLoadingSlaPerformance || isLoadingFirstResponsePerformance || isLoadingTicketStatusPercentages;
 
   if (isLoading) {
     return (
@@ -318,6 +378,86 @@ const Dashboard = () => {
           </Card>
         )}
 
+        {/* Card: First Response Performance */}
+        {(role === 'admin' || role === 'customer_service') && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">
+                Performa Respon Pertama
+              </CardTitle>
+              <MessageSquareReply className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {firstResponsePerformance !== undefined ? `${firstResponsePerformance.percentage.toFixed(1)}%` : 'N/A'}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Tiket yang direspon tepat waktu
+                {firstResponsePerformance && firstResponsePerformance.avgMinutes > 0 && (
+                  <> · rata-rata {Math.round(firstResponsePerformance.avgMinutes)} menit kerja</>
+                )}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Card: Escalation tier report */}
+        {(role === 'admin' || role === 'customer_service') && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">
+                Diselesaikan vs Dieskalasi per Tier
+              </CardTitle>
+              <Layers className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 gap-2 text-sm">
+                {escalationTierReport?.map((row) => (
+                  <div key={row.escalation_level} className="flex justify-between">
+                    <span>{ESCALATION_LEVEL_LABELS[row.escalation_level]}:</span>
+                    <span>
+                      <span className="font-bold">{row.resolved_count}</span> selesai
+                      {row.escalation_level < 3 && (
+                        <> · <span className="font-bold">{row.escalated_count}</span> dieskalasi</>
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Card: Tickets per region */}
+        {(role === 'admin' || role === 'customer_service') && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">
+                Tiket per Wilayah
+              </CardTitle>
+              <MapPin className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 gap-2 text-sm">
+                {ticketRegionReport?.slice(0, 6).map((row) => (
+                  <div key={row.region ?? 'unknown'} className="flex justify-between">
+                    <span>{row.region ?? 'Tidak diketahui'}:</span>
+                    <span>
+                      <span className="font-bold">{row.ticket_count}</span> tiket
+                      {row.active_count > 0 && (
+                        <> · <span className="font-bold">{row.active_count}</span> aktif</>
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Card: Agents on duty (supervisors) */}
+        {role === 'admin' && <OnDutyAgentsCard />}
+
         {/* Card: Ticket Status Percentages */}
         {(role === 'admin' || role === 'customer_service') && (
           <Card>
@@ -383,13 +523,8 @@ const Dashboard = () => {
                     </TableRow>
                   ) : (
                     latestTickets?.map((ticket) => {
-                      const slaStatus = getSlaStatus(ticket.created_at, ticket.resolved_at, ticket.status);
-                      const slaBadgeClass =
-                        slaStatus === 'green'
-                          ? 'bg-green-100 text-green-800'
-                          : slaStatus === 'yellow'
-                          ? 'bg-yellow-100 text-yellow-800'
-                          : 'bg-red-100 text-red-800';
+                      const slaStatus = getSlaStatus(ticket, slaPolicies, businessCalendar);
+                      const slaBadgeClass = getSlaBadgeClass(slaStatus);
                       
                       // Get name from userProfiles map
                       const createdByProfile = ticket.created_by ? userProfiles[ticket.created_by] : null;
@@ -403,7 +538,7 @@ const Dashboard = () => {
                         : 'Belum Ditugaskan';
 
                       const whatsappLink = buildTicketWhatsappLink({
-                        phoneNumber: ticket.customer_whatsapp,
+                        phoneNumber: ticket.customer_whatsapp_e164,
                         audience: 'internal',
                         ticket,
                       });
@@ -424,12 +559,7 @@ const Dashboard = () => {
                           <TableCell>{new Date(ticket.created_at).toLocaleDateString()}</TableCell>
                           <TableCell>{createdByName}</TableCell>
                           <TableCell>
-                            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold capitalize ${
-                              ticket.status === 'open' ? 'bg-yellow-100 text-yellow-800' :
-                              ticket.status === 'in_progress' ? 'bg-blue-100 text-blue-800' :
-                              ticket.status === 'resolved' ? 'bg-green-100 text-green-800' :
-                              'bg-gray-100 text-gray-800'
-                            }`}>
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold capitalize ${getStatusBadgeClass(ticket.status)}`}>
                               {ticket.status.replaceAll('_', ' ')}
                             </span>
                           </TableCell>
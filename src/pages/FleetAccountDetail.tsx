@@ -0,0 +1,473 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, BarChart3, Building2, Car, Edit, Loader2, Plus, Ticket as TicketIcon, Users, X } from 'lucide-react';
+
+import { useSession } from '@/components/SessionContextProvider';
+import { FleetAccountDialog } from '@/components/FleetAccountDialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { showSuccess, showError } from '@/utils/toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Customer, CustomerTicket } from '@/utils/customers';
+import { VehicleWithDevice } from '@/utils/vehicles';
+import { CONTRACT_TIER_LABELS, FleetAccount, FleetMonthlyVolumeRow, getContractTierBadgeClass } from '@/utils/fleets';
+import { ACTIVE_TICKET_STATUSES, TICKET_STATUS_LABELS, getStatusBadgeClass } from '@/utils/ticketStatus';
+import { formatWhatsappNumber } from '@/utils/whatsapp';
+import { parsePlateNumber } from '@shared/plateNumber';
+
+// RPC months are the first day of the month; parsed as local dates so the label does not shift a month west of UTC
+const formatMonth = (month: string) =>
+  new Date(`${month}T00:00:00`).toLocaleDateString('id-ID', { month: 'short', year: 'numeric' });
+
+const FleetAccountDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { session, loading, role } = useSession();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [plateInput, setPlateInput] = useState('');
+
+  const canView = role === 'admin' || role === 'customer_service';
+
+  // Redirect if not admin or customer service
+  useEffect(() => {
+    if (!loading && (!session || !canView)) {
+      showError('Anda tidak memiliki izin untuk mengakses halaman ini.');
+      navigate('/');
+    }
+  }, [session, loading, canView, navigate]);
+
+  const { data: fleet, isLoading: isLoadingFleet, error } = useQuery<FleetAccount, Error>({
+    queryKey: ['fleetAccount', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('fleet_accounts')
+        .select('*')
+        .eq('id', id)
+        .single();
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!session && canView && !!id,
+  });
+
+  const { data: vehicles } = useQuery<VehicleWithDevice[], Error>({
+    queryKey: ['fleetVehicles', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('vehicles')
+        .select('*, gps_devices(imei, simcard_number)')
+        .eq('fleet_account_id', id)
+        .order('plate_number');
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!session && canView && !!id,
+  });
+
+  const { data: contacts } = useQuery<Customer[], Error>({
+    queryKey: ['fleetCustomers', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('customers')
+        .select('*')
+        .eq('fleet_account_id', id)
+        .order('name');
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!session && canView && !!id,
+  });
+
+  // Tickets belong to the fleet through their vehicle
+  const { data: openTickets, isLoading: isLoadingTickets } = useQuery<CustomerTicket[], Error>({
+    queryKey: ['fleetOpenTickets', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('tickets')
+        .select('id, ticket_number, title, status, priority, category, no_plat_kendaraan, no_simcard_gps, vehicle_id, created_at, vehicle:vehicles!inner(fleet_account_id)')
+        .eq('vehicle.fleet_account_id', id)
+        .in('status', ACTIVE_TICKET_STATUSES)
+        .order('created_at', { ascending: true });
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!session && canView && !!id,
+  });
+
+  const { data: monthlyVolume } = useQuery<FleetMonthlyVolumeRow[], Error>({
+    queryKey: ['fleetMonthlyVolume', id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_fleet_monthly_ticket_volume', {
+        p_fleet_account_id: id,
+        p_months: 12,
+      });
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!session && canView && !!id,
+  });
+
+  const invalidateFleetVehicles = (vehicleId: string) => {
+    queryClient.invalidateQueries({ queryKey: ['fleetVehicles', id] });
+    queryClient.invalidateQueries({ queryKey: ['fleetOpenTickets', id] });
+    queryClient.invalidateQueries({ queryKey: ['fleetMonthlyVolume', id] });
+    queryClient.invalidateQueries({ queryKey: ['fleetAccounts'] });
+    queryClient.invalidateQueries({ queryKey: ['vehicle', vehicleId] });
+    queryClient.invalidateQueries({ queryKey: ['tickets'] });
+  };
+
+  // Registers the vehicle if the plate is new; a vehicle already in another fleet has to be released there first
+  const addVehicleMutation = useMutation({
+    mutationFn: async () => {
+      const { plate, error: plateError } = parsePlateNumber(plateInput);
+      if (plateError) throw new Error(plateError);
+
+      const { data: existing, error: lookupError } = await supabase
+        .from('vehicles')
+        .select('id, fleet_account_id')
+        .eq('plate_number', plate.canonical)
+        .maybeSingle();
+      if (lookupError) throw new Error(lookupError.message);
+
+      if (existing?.fleet_account_id === id) throw new Error(`${plate.canonical} sudah ada di armada ini.`);
+      if (existing?.fleet_account_id) throw new Error(`${plate.canonical} terdaftar di armada lain.`);
+
+      const { data, error } = existing
+        ? await supabase.from('vehicles').update({ fleet_account_id: id }).eq('id', existing.id).select('id').single()
+        : await supabase.from('vehicles').insert({ plate_number: plate.canonical, fleet_account_id: id }).select('id').single();
+      if (error) throw new Error(error.message);
+      return data.id as string;
+    },
+    onSuccess: (vehicleId) => {
+      showSuccess('Kendaraan berhasil ditambahkan ke armada!');
+      setPlateInput('');
+      invalidateFleetVehicles(vehicleId);
+    },
+    onError: (error: Error) => {
+      showError(`Gagal menambahkan kendaraan: ${error.message}`);
+    },
+  });
+
+  const removeVehicleMutation = useMutation({
+    mutationFn: async (vehicleId: string) => {
+      const { error } = await supabase
+        .from('vehicles')
+        .update({ fleet_account_id: null })
+        .eq('id', vehicleId);
+      if (error) throw new Error(error.message);
+      return vehicleId;
+    },
+    onSuccess: (vehicleId) => {
+      showSuccess('Kendaraan dilepas dari armada.');
+      invalidateFleetVehicles(vehicleId);
+    },
+    onError: (error: Error) => {
+      showError(`Gagal melepas kendaraan: ${error.message}`);
+    },
+  });
+
+  if (loading || (session && !canView)) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+        <p className="text-gray-700 dark:text-gray-300">
+          {loading ? 'Memuat...' : 'Mengalihkan...'}
+        </p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+        <h1 className="text-3xl font-bold text-red-600 dark:text-red-400 mb-4">Error</h1>
+        <p className="text-lg text-gray-700 dark:text-gray-300">
+          Gagal memuat armada: {error.message}
+        </p>
+      </div>
+    );
+  }
+
+  if (isLoadingFleet || isLoadingTickets || !fleet) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const picWhatsapp = formatWhatsappNumber(fleet.pic_whatsapp);
+  const plateByVehicleId = new Map(vehicles?.map((vehicle) => [vehicle.id, vehicle.plate_number]));
+  const maxMonthlyCount = Math.max(1, ...(monthlyVolume?.map((row) => row.ticket_count) ?? []));
+  const ticketsThisMonth = monthlyVolume?.[monthlyVolume.length - 1]?.ticket_count ?? 0;
+  const ticketsLast12Months = monthlyVolume?.reduce((total, row) => total + row.ticket_count, 0) ?? 0;
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <Button variant="outline" onClick={() => navigate(-1)}>
+        <ArrowLeft className="mr-2 h-4 w-4" /> Kembali
+      </Button>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center gap-2">
+            <Building2 className="h-5 w-5 text-primary" /> {fleet.name}
+            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getContractTierBadgeClass(fleet.contract_tier)}`}>
+              {CONTRACT_TIER_LABELS[fleet.contract_tier]}
+            </span>
+          </CardTitle>
+          <Button size="sm" variant="outline" onClick={() => setIsEditOpen(true)}>
+            <Edit className="mr-2 h-4 w-4" /> Ubah
+          </Button>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <p><strong>PIC:</strong> {fleet.pic_name || '-'}</p>
+            <p>
+              <strong>WhatsApp PIC:</strong>{' '}
+              {picWhatsapp ? (
+                <a
+                  href={`https://wa.me/${picWhatsapp}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:underline dark:text-blue-400"
+                >
+                  {fleet.pic_whatsapp}
+                </a>
+              ) : (
+                fleet.pic_whatsapp || '-'
+              )}
+            </p>
+            <p><strong>Email PIC:</strong> {fleet.pic_email || '-'}</p>
+            {fleet.notes && <p className="text-sm text-gray-600 dark:text-gray-400 whitespace-pre-wrap">{fleet.notes}</p>}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+            <div>
+              <div className="text-2xl font-bold">{vehicles?.length ?? 0}</div>
+              <p className="text-xs text-muted-foreground">Kendaraan</p>
+            </div>
+            <div>
+              <div className="text-2xl font-bold">{openTickets?.length ?? 0}</div>
+              <p className="text-xs text-muted-foreground">Tiket Aktif</p>
+            </div>
+            <div>
+              <div className="text-2xl font-bold">{ticketsThisMonth}</div>
+              <p className="text-xs text-muted-foreground">Tiket Bulan Ini</p>
+            </div>
+            <div>
+              <div className="text-2xl font-bold">{ticketsLast12Months}</div>
+              <p className="text-xs text-muted-foreground">Tiket 12 Bulan</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TicketIcon className="h-5 w-5 text-primary" /> Tiket Aktif
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>No. Tiket</TableHead>
+                  <TableHead>Kendaraan</TableHead>
+                  <TableHead>Judul</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Dibuat</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {openTickets?.length ? (
+                  openTickets.map((ticket) => (
+                    <TableRow key={ticket.id}>
+                      <TableCell className="font-medium">
+                        <Link to={`/tickets/${ticket.id}`} className="text-blue-600 hover:underline">
+                          {ticket.ticket_number}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        {(ticket.vehicle_id && plateByVehicleId.get(ticket.vehicle_id)) || ticket.no_plat_kendaraan || '-'}
+                      </TableCell>
+                      <TableCell>{ticket.title}</TableCell>
+                      <TableCell>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getStatusBadgeClass(ticket.status)}`}>
+                          {TICKET_STATUS_LABELS[ticket.status]}
+                        </span>
+                      </TableCell>
+                      <TableCell>{new Date(ticket.created_at).toLocaleDateString('id-ID')}</TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center">
+                      Tidak ada tiket aktif untuk armada ini.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="h-5 w-5 text-primary" /> Volume Keluhan per Bulan
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-1 text-sm">
+              {monthlyVolume?.map((row) => (
+                <li key={row.month} className="grid grid-cols-[5rem_1fr_4rem] items-center gap-2">
+                  <span className="text-gray-600 dark:text-gray-400">{formatMonth(row.month)}</span>
+                  <div className="h-3 rounded bg-gray-100 dark:bg-gray-800">
+                    <div
+                      className="h-3 rounded bg-primary"
+                      style={{ width: `${(row.ticket_count / maxMonthlyCount) * 100}%` }}
+                    />
+                  </div>
+                  <span className="text-right">
+                    <span className="font-bold">{row.ticket_count}</span>
+                    {row.ticket_count > 0 && (
+                      <span className="text-xs text-gray-500" title="Selesai"> / {row.resolved_count}</span>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <p className="mt-3 text-xs text-muted-foreground">Jumlah tiket / tiket selesai, menurut tanggal tiket dibuat.</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5 text-primary" /> Kontak
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {contacts?.length ? (
+              <ul className="divide-y text-sm">
+                {contacts.map((contact) => (
+                  <li key={contact.id} className="flex items-center justify-between py-2 gap-2">
+                    <Link to={`/customers/${contact.id}`} className="font-medium text-blue-600 hover:underline dark:text-blue-400">
+                      {contact.name || contact.whatsapp_number}
+                    </Link>
+                    <span className="text-gray-500">{contact.whatsapp_number}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">
+                Belum ada kontak. Hubungkan pelanggan ke armada ini dari halaman profil pelanggan.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Car className="h-5 w-5 text-primary" /> Kendaraan
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form
+            className="flex gap-2 max-w-md"
+            onSubmit={(e) => {
+              e.preventDefault();
+              addVehicleMutation.mutate();
+            }}
+          >
+            <Input
+              value={plateInput}
+              onChange={(e) => setPlateInput(e.target.value)}
+              placeholder="No plat, contoh: B 1234 XYZ"
+              aria-label="No plat kendaraan"
+            />
+            <Button type="submit" variant="outline" disabled={addVehicleMutation.isPending || !plateInput.trim()}>
+              {addVehicleMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+              Tambah
+            </Button>
+          </form>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>No Plat</TableHead>
+                  <TableHead>Merek</TableHead>
+                  <TableHead>IMEI</TableHead>
+                  <TableHead>No Simcard</TableHead>
+                  <TableHead className="text-right">Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {vehicles?.length ? (
+                  vehicles.map((vehicle) => {
+                    const device = vehicle.gps_devices[0];
+                    return (
+                      <TableRow key={vehicle.id}>
+                        <TableCell className="font-medium">
+                          <Link to={`/vehicles/${vehicle.id}`} className="text-blue-600 hover:underline dark:text-blue-400">
+                            {vehicle.plate_number}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{vehicle.make || '-'}</TableCell>
+                        <TableCell className="font-mono">{device?.imei || '-'}</TableCell>
+                        <TableCell>{device?.simcard_number || '-'}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => removeVehicleMutation.mutate(vehicle.id)}
+                            disabled={removeVehicleMutation.isPending}
+                            title="Lepas dari armada"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center">
+                      Belum ada kendaraan di armada ini.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isEditOpen && (
+        <FleetAccountDialog
+          isOpen={isEditOpen}
+          onOpenChange={setIsEditOpen}
+          fleet={fleet}
+        />
+      )}
+    </div>
+  );
+};
+
+export default FleetAccountDetail;
@@ -0,0 +1,165 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Building2, Loader2, Plus } from 'lucide-react';
+
+import { useSession } from '@/components/SessionContextProvider';
+import { FleetAccountDialog } from '@/components/FleetAccountDialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { showError } from '@/utils/toast';
+import { supabase } from '@/integrations/supabase/client';
+import { CONTRACT_TIER_LABELS, FleetAccount, getContractTierBadgeClass } from '@/utils/fleets';
+
+interface FleetAccountOverview extends FleetAccount {
+  vehicles: { count: number }[];
+  customers: { count: number }[];
+}
+
+const FleetAccounts = () => {
+  const { session, loading, role } = useSession();
+  const navigate = useNavigate();
+  const [search, setSearch] = useState('');
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  const canView = role === 'admin' || role === 'customer_service';
+
+  // Redirect if not admin or customer service
+  useEffect(() => {
+    if (!loading && (!session || !canView)) {
+      showError('Anda tidak memiliki izin untuk mengakses halaman ini.');
+      navigate('/');
+    }
+  }, [session, loading, canView, navigate]);
+
+  const { data: fleets, isLoading, error } = useQuery<FleetAccountOverview[], Error>({
+    queryKey: ['fleetAccounts', 'overview'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('fleet_accounts')
+        .select('*, vehicles(count), customers(count)')
+        .order('name');
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!session && canView,
+  });
+
+  if (loading || (session && !canView)) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+        <p className="text-gray-700 dark:text-gray-300">
+          {loading ? 'Memuat...' : 'Mengalihkan...'}
+        </p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+        <h1 className="text-3xl font-bold text-red-600 dark:text-red-400 mb-4">Error</h1>
+        <p className="text-lg text-gray-700 dark:text-gray-300">
+          Gagal memuat armada: {error.message}
+        </p>
+      </div>
+    );
+  }
+
+  const term = search.trim().toLowerCase();
+  const filteredFleets = fleets?.filter((fleet) =>
+    !term || fleet.name.toLowerCase().includes(term) || (fleet.pic_name || '').toLowerCase().includes(term)
+  );
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center gap-2">
+            <Building2 className="h-5 w-5 text-primary" /> Armada Perusahaan
+          </CardTitle>
+          <Button size="sm" onClick={() => setIsCreateOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" /> Tambah Armada
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Cari nama perusahaan atau PIC"
+            aria-label="Cari armada"
+            className="max-w-sm"
+          />
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Perusahaan</TableHead>
+                    <TableHead>Tier Kontrak</TableHead>
+                    <TableHead>PIC</TableHead>
+                    <TableHead className="text-right">Kendaraan</TableHead>
+                    <TableHead className="text-right">Kontak</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredFleets?.length ? (
+                    filteredFleets.map((fleet) => (
+                      <TableRow key={fleet.id}>
+                        <TableCell className="font-medium">
+                          <Link to={`/fleets/${fleet.id}`} className="text-blue-600 hover:underline dark:text-blue-400">
+                            {fleet.name}
+                          </Link>
+                        </TableCell>
+                        <TableCell>
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getContractTierBadgeClass(fleet.contract_tier)}`}>
+                            {CONTRACT_TIER_LABELS[fleet.contract_tier]}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          {fleet.pic_name || '-'}
+                          {fleet.pic_whatsapp && <span className="ml-2 text-xs text-gray-500">{fleet.pic_whatsapp}</span>}
+                        </TableCell>
+                        <TableCell className="text-right">{fleet.vehicles[0]?.count ?? 0}</TableCell>
+                        <TableCell className="text-right">{fleet.customers[0]?.count ?? 0}</TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={5} className="h-24 text-center">
+                        {term ? 'Tidak ada armada yang cocok.' : 'Belum ada armada terdaftar.'}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isCreateOpen && (
+        <FleetAccountDialog
+          isOpen={isCreateOpen}
+          onOpenChange={setIsCreateOpen}
+          onSaved={(fleet) => navigate(`/fleets/${fleet.id}`)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default FleetAccounts;
@@ -4,9 +4,10 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { z } from 'zod';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { Loader2, Pencil, Trash2, UserPlus } from 'lucide-react';
+import { Loader2, Pencil, Trash2, UserPlus, Sparkles, X } from 'lucide-react';
 
 import { useSession } from '@/components/SessionContextProvider';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -53,9 +54,12 @@ import {
 } from '@/components/ui/alert-dialog';
 import { showSuccess, showError } from '@/utils/toast';
 import { supabase } from '@/integrations/supabase/client';
+import { useAgentSkills } from '@/hooks/use-agent-skills';
+import { AGENT_LANGUAGES, AgentSkill, AgentSkillType } from '@/utils/agentSkills';
+import { TICKET_CATEGORIES } from '@/utils/ticketCategories';
 
 // Define user role enum for client-side validation and display
-const USER_ROLES = ['admin', 'customer_service', 'sales'] as const;
+const USER_ROLES = ['admin', 'customer_service', 'sales', 'technician'] as const;
 type UserRole = typeof USER_ROLES[number];
 
 interface UserProfile {
@@ -95,6 +99,7 @@ const ManageRoles = () => {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [selectedUser, setSelectedUser] = useState<UserProfile | null>(null);
   const [pendingRoleChange, setPendingRoleChange] = useState<{ userId: string; userName: string; currentRole: UserRole; newRole: UserRole } | null>(null);
+  const [skillsUser, setSkillsUser] = useState<UserProfile | null>(null);
 
   // Redirect if not admin
   useEffect(() => {
@@ -122,6 +127,40 @@ const ManageRoles = () => {
     enabled: !!session && role === 'admin',
   });
 
+  // Skills drive skill-based routing and the match indicator in TicketDetail
+  const { data: agentSkills = [] } = useAgentSkills(!!session && role === 'admin');
+
+  const addSkillMutation = useMutation<void, Error, AgentSkill>({
+    mutationFn: async (skill) => {
+      const { error } = await supabase.from('agent_skills').insert(skill);
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['agentSkills'] });
+    },
+    onError: (error) => {
+      showError(`Failed to add skill: ${error.message}`);
+    },
+  });
+
+  const removeSkillMutation = useMutation<void, Error, AgentSkill>({
+    mutationFn: async ({ agent_id, skill_type, value }) => {
+      const { error } = await supabase
+        .from('agent_skills')
+        .delete()
+        .eq('agent_id', agent_id)
+        .eq('skill_type', skill_type)
+        .eq('value', value);
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['agentSkills'] });
+    },
+    onError: (error) => {
+      showError(`Failed to remove skill: ${error.message}`);
+    },
+  });
+
   // Mutation for creating a new user
   const createUserMutation = useMutation<{ message: string; user?: Record<string, unknown> }, Error, CreateUserFormValues>({
     mutationFn: async (newUser) => {
@@ -290,6 +329,12 @@ const ManageRoles = () => {
     setIsDeleteDialogOpen(true);
   };
 
+  const handleAddSkill = (skillType: AgentSkillType, value: string) => {
+    if (skillsUser) {
+      addSkillMutation.mutate({ agent_id: skillsUser.id, skill_type: skillType, value });
+    }
+  };
+
   const handleConfirmDelete = () => {
     if (selectedUser) {
       deleteUserMutation.mutate(selectedUser.id);
@@ -440,6 +485,7 @@ const ManageRoles = () => {
                 <TableHead>First Name</TableHead>
                 <TableHead>Last Name</TableHead>
                 <TableHead>Role</TableHead>
+                <TableHead>Skills</TableHead>
                 <TableHead>Created At</TableHead>
                 <TableHead className="text-center">Actions</TableHead>
               </TableRow>
@@ -468,9 +514,28 @@ const ManageRoles = () => {
                       </SelectContent>
                     </Select>
                   </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1 max-w-[260px]">
+                      {agentSkills.filter((skill) => skill.agent_id === user.id).map((skill) => (
+                        <Badge key={`${skill.skill_type}-${skill.value}`} variant={skill.skill_type === 'category' ? 'secondary' : 'outline'}>
+                          {skill.value}
+                        </Badge>
+                      ))}
+                      {!agentSkills.some((skill) => skill.agent_id === user.id) && '-'}
+                    </div>
+                  </TableCell>
                   <TableCell>{new Date(user.created_at).toLocaleDateString()}</TableCell>
                   <TableCell>
                     <div className="flex items-center justify-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => setSkillsUser(user)}
+                        disabled={user.role === 'sales' || user.role === 'technician'}
+                        aria-label="Manage skills"
+                      >
+                        <Sparkles className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="outline"
                         size="icon"
@@ -565,6 +630,66 @@ const ManageRoles = () => {
         </DialogContent>
       </Dialog>
 
+      {/* Skills Dialog */}
+      <Dialog open={!!skillsUser} onOpenChange={(open) => { if (!open) setSkillsUser(null); }}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Agent Skills</DialogTitle>
+            <DialogDescription>
+              New tickets are routed to customer service agents whose category skills match the ticket category.
+              Languages are shown for reference.
+            </DialogDescription>
+          </DialogHeader>
+          {(['category', 'language'] as const).map((skillType) => {
+            const userSkills = agentSkills.filter(
+              (skill) => skill.agent_id === skillsUser?.id && skill.skill_type === skillType
+            );
+            const options: readonly string[] = skillType === 'category' ? TICKET_CATEGORIES : AGENT_LANGUAGES;
+            const available = options.filter((option) => !userSkills.some((skill) => skill.value === option));
+            return (
+              <div key={skillType} className="space-y-2">
+                <p className="text-sm font-medium">{skillType === 'category' ? 'Categories' : 'Languages'}</p>
+                <div className="flex flex-wrap gap-1 min-h-[1.5rem]">
+                  {userSkills.length === 0 && <span className="text-sm text-gray-500">None</span>}
+                  {userSkills.map((skill) => (
+                    <Badge key={skill.value} variant={skillType === 'category' ? 'secondary' : 'outline'} className="gap-1">
+                      {skill.value}
+                      <button
+                        type="button"
+                        onClick={() => removeSkillMutation.mutate(skill)}
+                        disabled={removeSkillMutation.isPending}
+                        aria-label={`Remove ${skill.value}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+                <Select
+                  value=""
+                  onValueChange={(value) => handleAddSkill(skillType, value)}
+                  disabled={available.length === 0 || addSkillMutation.isPending}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder={skillType === 'category' ? 'Add category' : 'Add language'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {available.map((option) => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          })}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setSkillsUser(null)}>
+              Close
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <AlertDialogContent>
@@ -28,36 +28,36 @@ import {
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { showSuccess, showError } from '@/utils/toast';
 import { supabase } from '@/integrations/supabase/client';
-
-const COMPLAINT_CATEGORIES = [
-  'Technical Issue',
-  'Billing Inquiry',
-  'Service Interruption',
-  'Product Feedback',
-  'General Inquiry',
-  'Other',
-] as const;
+import { COMPLAINT_CATEGORIES } from '@/utils/ticketCategories';
+import { canonicalizePlateNumber, parsePlateNumber } from '@shared/plateNumber';
+import { SIMCARD_OPERATOR_LABELS, normalizeSimcardNumber, parseSimcardNumber } from '@shared/simcardNumber';
+import { parsePhoneNumber } from '@shared/phoneNumber';
 
 const publicSubmitComplaintSchema = z.object({
   title: z.string().min(1, { message: 'Judul keluhan diperlukan.' }).max(255, { message: 'Judul maksimal 255 karakter.' }),
   description: z.string().max(5000, { message: 'Deskripsi maksimal 5000 karakter.' }).optional(),
   customer_name: z.string().min(1, { message: 'Nama pelanggan diperlukan.' }),
-  customer_whatsapp: z.string().min(1, { message: 'Nomor WhatsApp diperlukan.' }),
+  customer_whatsapp: z.string().superRefine((value, ctx) => {
+    const { error } = parsePhoneNumber(value);
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  }),
   category: z.enum(COMPLAINT_CATEGORIES, { message: 'Kategori keluhan diperlukan.' }),
   no_plat_kendaraan: z
     .string()
-    .min(1, { message: 'No plat kendaraan diperlukan.' })
-    .max(15, { message: 'No plat kendaraan maksimal 15 karakter.' })
-    .regex(/^[A-Za-z0-9 ]+$/, {
-      message: 'No plat hanya boleh berisi huruf, angka, dan spasi.',
-    }),
+    .superRefine((value, ctx) => {
+      const { error } = parsePlateNumber(value);
+      if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    })
+    // Submitted in canonical form, e.g. "b1234xyz" -> "B 1234 XYZ"
+    .transform((value) => canonicalizePlateNumber(value) ?? value),
   no_simcard_gps: z
     .string()
-    .min(1, { message: 'No simcard GPS diperlukan.' })
-    .max(15, { message: 'No simcard GPS maksimal 15 digit.' })
-    .regex(/^08\d{0,13}$/, {
-      message: 'No simcard harus angka, diawali 08, maksimal 15 digit.',
-    }),
+    .superRefine((value, ctx) => {
+      const { error } = parseSimcardNumber(value);
+      if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    })
+    // Submitted in E.164, e.g. "0812-3456-7890" -> "+6281234567890"
+    .transform((value) => normalizeSimcardNumber(value) ?? value),
   cf_turnstile_token: z.string().optional(), // Optional for localhost, enforced in production
 });
 
@@ -84,6 +84,10 @@ const PublicSubmitComplaint = () => {
     },
   });
 
+  const parsedPlate = parsePlateNumber(form.watch('no_plat_kendaraan')).plate;
+  const parsedSimcard = parseSimcardNumber(form.watch('no_simcard_gps')).simcard;
+  const parsedPhone = parsePhoneNumber(form.watch('customer_whatsapp')).phone;
+
   // Auto-set bypass token for localhost development (from env var, not hardcoded)
   useEffect(() => {
     if (isLocalhost) {
@@ -265,6 +269,11 @@ const PublicSubmitComplaint = () => {
                         }}
                       />
                     </FormControl>
+                    {parsedPlate && (
+                      <p className="text-xs text-muted-foreground">
+                        {parsedPlate.canonical} · Wilayah {parsedPlate.region}
+                      </p>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -281,14 +290,19 @@ const PublicSubmitComplaint = () => {
                         type="text"
                         inputMode="numeric"
                         placeholder="Contoh: 081234567890"
-                        maxLength={15}
+                        maxLength={16}
                         {...field}
                         onChange={(event) => {
-                          const sanitized = event.target.value.replace(/\D/g, '');
+                          const sanitized = event.target.value.replace(/[^\d+]/g, '');
                           field.onChange(sanitized);
                         }}
                       />
                     </FormControl>
+                    {parsedSimcard && (
+                      <p className="text-xs text-muted-foreground">
+                        {parsedSimcard.e164} · {parsedSimcard.operator ? SIMCARD_OPERATOR_LABELS[parsedSimcard.operator] : 'Operator tidak dikenal'}
+                      </p>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -329,8 +343,14 @@ const PublicSubmitComplaint = () => {
                   <FormItem>
                     <FormLabel>Nomor WhatsApp</FormLabel>
                     <FormControl>
-                      <Input type="text" placeholder="Contoh: 081234567890" {...field} />
+                      <Input type="text" placeholder="Contoh: 081234567890 atau +60 12 345 6789" {...field} />
                     </FormControl>
+                    {parsedPhone && (
+                      <p className={`text-xs ${parsedPhone.whatsappCapable ? 'text-muted-foreground' : 'text-amber-600'}`}>
+                        {parsedPhone.e164} · {parsedPhone.country}
+                        {!parsedPhone.whatsappCapable && ' · Nomor telepon rumah/kantor, tidak bisa menerima WhatsApp'}
+                      </p>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -1,11 +1,14 @@
 import { useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
-import { Loader2, ArrowLeft, File as FileIcon } from 'lucide-react';
+import { Loader2, ArrowLeft, File as FileIcon, MessageSquare } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { supabase } from '@/integrations/supabase/client';
-import { getSlaStatus } from '@/utils/sla';
+import { getSlaBadgeClass, getSlaStatus } from '@/utils/sla';
+import { useSlaPolicies } from '@/hooks/use-sla-policies';
+import { useBusinessCalendar } from '@/hooks/use-business-calendar';
+import { TicketStatus, getStatusBadgeClass } from '@/utils/ticketStatus';
 
 interface Ticket {
   id: string;
@@ -15,14 +18,24 @@ interface Ticket {
   no_plat_kendaraan: string | null;
   no_simcard_gps: string | null;
   description: string | null;
-  status: 'open' | 'in_progress' | 'resolved' | 'closed';
+  status: TicketStatus;
   priority: 'low' | 'medium' | 'high' | 'urgent';
+  category: string | null;
   customer_name: string | null;
   customer_whatsapp: string | null;
   resolved_at: string | null;
+  sla_paused_at: string | null;
+  sla_paused_seconds: number;
+  sla_priority: string;
   attachments: string[] | null;
 }
 
+interface PublicReply {
+  id: string;
+  body: string;
+  created_at: string;
+}
+
 const PublicTicketDetail = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -71,6 +84,27 @@ const PublicTicketDetail = () => {
     enabled: !!ticket?.attachments && ticket.attachments.length > 0,
   });
 
+  const { data: slaPolicies } = useSlaPolicies();
+
+  const { data: businessCalendar } = useBusinessCalendar();
+
+  // Only customer-visible replies, internal notes are filtered out by RLS as well
+  const { data: replies = [] } = useQuery<PublicReply[], Error>({
+    queryKey: ['publicTicketReplies', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ticket_comments')
+        .select('id, body, created_at')
+        .eq('ticket_id', id)
+        .eq('visibility', 'public')
+        .order('created_at', { ascending: true });
+
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!ticket,
+  });
+
   if (isLoadingTicket) {
     return (
       <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
@@ -95,13 +129,8 @@ const PublicTicketDetail = () => {
     );
   }
 
-  const slaStatus = getSlaStatus(ticket.created_at, ticket.resolved_at, ticket.status);
-  const slaBadgeClass =
-    slaStatus === 'green'
-      ? 'bg-green-100 text-green-800'
-      : slaStatus === 'yellow'
-      ? 'bg-yellow-100 text-yellow-800'
-      : 'bg-red-100 text-red-800';
+  const slaStatus = getSlaStatus(ticket, slaPolicies, businessCalendar);
+  const slaBadgeClass = getSlaBadgeClass(slaStatus);
 
   const dateTimeFormatOptions: Intl.DateTimeFormatOptions = {
     year: 'numeric',
@@ -163,12 +192,7 @@ const PublicTicketDetail = () => {
               <div>
                 <p className="text-sm text-gray-600 dark:text-gray-400">Status</p>
                 <p>
-                  <span className={`inline-block px-3 py-1 rounded-full text-sm font-semibold capitalize ${
-                    ticket.status === 'open' ? 'bg-yellow-100 text-yellow-800' :
-                    ticket.status === 'in_progress' ? 'bg-blue-100 text-blue-800' :
-                    ticket.status === 'resolved' ? 'bg-green-100 text-green-800' :
-                    'bg-gray-100 text-gray-800'
-                  }`}>
+                  <span className={`inline-block px-3 py-1 rounded-full text-sm font-semibold capitalize ${getStatusBadgeClass(ticket.status)}`}>
                     {ticket.status.replaceAll('_', ' ')}
                   </span>
                 </p>
@@ -232,6 +256,29 @@ const PublicTicketDetail = () => {
           </Card>
         )}
 
+        {/* Replies from CS */}
+        {replies.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MessageSquare className="h-5 w-5" /> Balasan dari Tim CS
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {replies.map((reply) => (
+                  <div key={reply.id} className="p-3 border rounded-lg bg-blue-50 border-blue-200 dark:bg-blue-950 dark:border-blue-800">
+                    <p className="text-xs text-gray-500 mb-1">
+                      {new Date(reply.created_at).toLocaleString('id-ID', dateTimeFormatOptions)}
+                    </p>
+                    <p className="text-gray-900 dark:text-white whitespace-pre-wrap">{reply.body}</p>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Attachments */}
         {ticket.attachments && ticket.attachments.length > 0 && (
           <Card>
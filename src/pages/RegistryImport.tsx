@@ -0,0 +1,374 @@
+import { ChangeEvent, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Download, FileSpreadsheet, Loader2, PlayCircle, Upload } from 'lucide-react';
+
+import { useSession } from '@/components/SessionContextProvider';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { showSuccess, showError } from '@/utils/toast';
+import { supabase } from '@/integrations/supabase/client';
+import { CsvRow, downloadCsv, parseCsv } from '@/utils/csv';
+import {
+  REGISTRY_IMPORT_BATCH_SIZE,
+  REGISTRY_IMPORT_FIELDS,
+  REGISTRY_IMPORT_FIELD_LABELS,
+  REGISTRY_IMPORT_STATUS_LABELS,
+  RegistryColumnMapping,
+  RegistryImportField,
+  RegistryImportResult,
+  RegistryImportStatus,
+  buildRegistryErrorReport,
+  getRegistryImportStatusBadgeClass,
+  guessColumnMapping,
+  validateRegistryRows,
+} from '@/utils/registryImport';
+
+// Select value for an unmapped field, Radix Select does not accept an empty string
+const UNMAPPED_SENTINEL = '__unmapped__';
+
+// Rows rendered in the preview table; the summary and error report always cover the whole file
+const PREVIEW_ROW_LIMIT = 300;
+
+const MAX_FILE_SIZE_MB = 5;
+
+interface ImportRun {
+  dryRun: boolean;
+  results: Map<number, RegistryImportResult>;
+}
+
+const RegistryImport = () => {
+  const { session, loading, role } = useSession();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<CsvRow[]>([]);
+  const [mapping, setMapping] = useState<RegistryColumnMapping | null>(null);
+  const [run, setRun] = useState<ImportRun | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [errorsOnly, setErrorsOnly] = useState(false);
+
+  // Redirect if not admin
+  useEffect(() => {
+    if (!loading && (!session || role !== 'admin')) {
+      showError('Anda tidak memiliki izin untuk mengakses halaman ini.');
+      navigate('/');
+    }
+  }, [session, loading, role, navigate]);
+
+  const rows = useMemo(
+    () => (mapping ? validateRegistryRows(dataRows, mapping) : []),
+    [dataRows, mapping],
+  );
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    if (file.size > MAX_FILE_SIZE_MB * 1024 * 1024) {
+      showError(`Ukuran file maksimal ${MAX_FILE_SIZE_MB}MB.`);
+      return;
+    }
+
+    const [headerRow, ...rest] = parseCsv(await file.text());
+    if (!headerRow || rest.length === 0) {
+      showError('File CSV kosong atau hanya berisi header.');
+      return;
+    }
+
+    setFileName(file.name);
+    setHeaders(headerRow.cells.map((header) => header.trim()));
+    setDataRows(rest);
+    setMapping(guessColumnMapping(headerRow.cells));
+    setRun(null);
+  };
+
+  const handleMappingChange = (field: RegistryImportField, value: string) => {
+    setMapping((current) => current && { ...current, [field]: value === UNMAPPED_SENTINEL ? null : Number(value) });
+    setRun(null);
+  };
+
+  // Valid rows go to the server in batches; rows that failed validation are never sent
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const payloads = rows.flatMap((row) => (row.payload ? [row.payload] : []));
+      const results = new Map<number, RegistryImportResult>();
+      setProgress(0);
+
+      for (let start = 0; start < payloads.length; start += REGISTRY_IMPORT_BATCH_SIZE) {
+        const { data, error } = await supabase.rpc('import_registry_rows', {
+          p_rows: payloads.slice(start, start + REGISTRY_IMPORT_BATCH_SIZE),
+          p_dry_run: dryRun,
+        });
+        if (error) throw new Error(error.message);
+
+        for (const result of data as RegistryImportResult[]) {
+          results.set(result.row_number, result);
+        }
+        setProgress(Math.min(start + REGISTRY_IMPORT_BATCH_SIZE, payloads.length));
+      }
+
+      return { dryRun, results };
+    },
+    onSuccess: (completedRun) => {
+      setRun(completedRun);
+      if (completedRun.dryRun) {
+        showSuccess('Pratinjau selesai. Tidak ada data yang disimpan.');
+      } else {
+        showSuccess('Import selesai!');
+        queryClient.invalidateQueries({ queryKey: ['customerVehicles'] });
+        queryClient.invalidateQueries({ queryKey: ['vehicle'] });
+        queryClient.invalidateQueries({ queryKey: ['vehicleDevice'] });
+        queryClient.invalidateQueries({ queryKey: ['vehicleInstallations'] });
+        queryClient.invalidateQueries({ queryKey: ['vehicleSearch'] });
+      }
+    },
+    onError: (error: Error) => {
+      showError(`Gagal memproses import: ${error.message}`);
+    },
+  });
+
+  const statusOf = (rowNumber: number, hasErrors: boolean): RegistryImportStatus | null =>
+    hasErrors ? 'error' : run?.results.get(rowNumber)?.status ?? null;
+
+  const statusCounts = rows.reduce<Record<RegistryImportStatus, number>>(
+    (counts, row) => {
+      const status = statusOf(row.rowNumber, row.errors.length > 0);
+      if (status) counts[status] += 1;
+      return counts;
+    },
+    { created: 0, updated: 0, unchanged: 0, error: 0 },
+  );
+
+  const invalidRowCount = rows.filter((row) => row.errors.length > 0).length;
+  const previewRows = rows
+    .filter((row) => !errorsOnly || statusOf(row.rowNumber, row.errors.length > 0) === 'error')
+    .slice(0, PREVIEW_ROW_LIMIT);
+  const canImport = !!run?.dryRun && rows.length > invalidRowCount && !importMutation.isPending;
+
+  const handleDownloadErrors = () => {
+    const reportName = `${fileName.replace(/\.csv$/i, '') || 'import'}-error.csv`;
+    downloadCsv(reportName, buildRegistryErrorReport(headers, rows, run?.results ?? new Map()));
+  };
+
+  if (loading || (session && role !== 'admin')) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+        <p className="text-gray-700 dark:text-gray-300">
+          {loading ? 'Memuat...' : 'Mengalihkan...'}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-primary" /> Import Data Registry
+          </CardTitle>
+          <CardDescription>
+            Muat data pelanggan, kendaraan dan perangkat GPS dari spreadsheet (CSV). Setiap baris dicocokkan dengan
+            no plat, nomor WhatsApp dan IMEI yang sudah terdaftar, sehingga file yang sama boleh diimpor ulang tanpa
+            membuat data ganda.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Label htmlFor="registry-import-file">File CSV</Label>
+          <Input
+            id="registry-import-file"
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleFileChange}
+            className="max-w-md"
+          />
+          {fileName && (
+            <p className="text-xs text-muted-foreground">
+              {fileName} · {dataRows.length} baris data · {headers.length} kolom
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {mapping && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Pemetaan Kolom</CardTitle>
+            <CardDescription>
+              Pilih kolom file untuk setiap data. Kolom dikenali otomatis dari judulnya; periksa sebelum melanjutkan.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {REGISTRY_IMPORT_FIELDS.map((field) => (
+              <div key={field} className="space-y-2">
+                <Label>{REGISTRY_IMPORT_FIELD_LABELS[field]}</Label>
+                <Select
+                  value={mapping[field] === null ? UNMAPPED_SENTINEL : String(mapping[field])}
+                  onValueChange={(value) => handleMappingChange(field, value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED_SENTINEL}>Tidak ada di file</SelectItem>
+                    {headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {header || `Kolom ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {mapping && (
+        <Card>
+          <CardHeader className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <CardTitle className="text-lg">Pratinjau</CardTitle>
+                <CardDescription>
+                  Jalankan pratinjau (dry run) untuk melihat hasil tiap baris tanpa menyimpan apa pun.
+                </CardDescription>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => importMutation.mutate(true)}
+                  disabled={importMutation.isPending || rows.length === invalidRowCount}
+                >
+                  {importMutation.isPending && importMutation.variables ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <PlayCircle className="mr-2 h-4 w-4" />
+                  )}
+                  Pratinjau
+                </Button>
+                <Button onClick={() => importMutation.mutate(false)} disabled={!canImport}>
+                  {importMutation.isPending && !importMutation.variables ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Upload className="mr-2 h-4 w-4" />
+                  )}
+                  Import
+                </Button>
+                <Button variant="outline" onClick={handleDownloadErrors} disabled={statusCounts.error === 0}>
+                  <Download className="mr-2 h-4 w-4" /> Laporan Error
+                </Button>
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              {(Object.keys(statusCounts) as RegistryImportStatus[]).map((status) => (
+                <span key={status}>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getRegistryImportStatusBadgeClass(status)}`}>
+                    {REGISTRY_IMPORT_STATUS_LABELS[status]}
+                  </span>{' '}
+                  <span className="font-bold">{statusCounts[status]}</span>
+                </span>
+              ))}
+              {importMutation.isPending && (
+                <span className="text-muted-foreground">
+                  Memproses {progress}/{rows.length - invalidRowCount} baris...
+                </span>
+              )}
+              {run && !importMutation.isPending && (
+                <span className="text-muted-foreground">
+                  {run.dryRun ? 'Hasil pratinjau, belum disimpan.' : 'Data sudah disimpan.'}
+                </span>
+              )}
+              <div className="flex items-center gap-2 ml-auto">
+                <Switch id="registry-import-errors-only" checked={errorsOnly} onCheckedChange={setErrorsOnly} />
+                <Label htmlFor="registry-import-errors-only">Hanya baris error</Label>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Baris</TableHead>
+                    <TableHead>No Plat</TableHead>
+                    <TableHead>WhatsApp</TableHead>
+                    <TableHead>IMEI</TableHead>
+                    <TableHead>No Simcard</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Keterangan</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previewRows.length ? (
+                    previewRows.map((row) => {
+                      const status = statusOf(row.rowNumber, row.errors.length > 0);
+                      const message = row.errors.length ? row.errors.join(' ') : run?.results.get(row.rowNumber)?.message;
+                      return (
+                        <TableRow key={row.rowNumber}>
+                          <TableCell>{row.rowNumber}</TableCell>
+                          <TableCell className="font-medium">
+                            {row.payload?.plate_number ?? (mapping.plate_number === null ? '-' : row.cells[mapping.plate_number])}
+                          </TableCell>
+                          <TableCell>{row.payload?.customer_whatsapp || '-'}</TableCell>
+                          <TableCell className="font-mono">{row.payload?.imei || '-'}</TableCell>
+                          <TableCell>{row.payload?.simcard_number || '-'}</TableCell>
+                          <TableCell>
+                            {status ? (
+                              <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getRegistryImportStatusBadgeClass(status)}`}>
+                                {REGISTRY_IMPORT_STATUS_LABELS[status]}
+                              </span>
+                            ) : (
+                              <span className="text-xs text-muted-foreground">Valid</span>
+                            )}
+                          </TableCell>
+                          <TableCell className={`text-sm ${status === 'error' ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-400'}`}>
+                            {message || '-'}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={7} className="h-24 text-center">
+                        Tidak ada baris untuk ditampilkan.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+            {rows.length > PREVIEW_ROW_LIMIT && (
+              <p className="mt-2 text-xs text-muted-foreground">
+                Menampilkan {previewRows.length} baris pertama. Ringkasan dan laporan error mencakup seluruh file.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default RegistryImport;
@@ -0,0 +1,187 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+
+import { useSession } from '@/components/SessionContextProvider';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { showSuccess, showError } from '@/utils/toast';
+import { supabase } from '@/integrations/supabase/client';
+import { TICKET_CATEGORIES } from '@/utils/ticketCategories';
+import { ROUTING_STRATEGIES, ROUTING_STRATEGY_LABELS, RoutingRule, RoutingStrategy } from '@/utils/ticketRouting';
+import { NO_TEAM_SENTINEL } from '@/utils/teams';
+import { useTeams } from '@/hooks/use-teams';
+
+const ROUTING_STRATEGY_DESCRIPTIONS: Record<RoutingStrategy, string> = {
+  round_robin: 'Tiket dibagikan bergiliran ke setiap agen CS.',
+  least_loaded: 'Tiket diberikan ke agen CS dengan tiket aktif paling sedikit.',
+  manual: 'Tiket menunggu di tab Unassigned sampai diambil agen.',
+};
+
+const RoutingRules = () => {
+  const { session, loading, role } = useSession();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  // Redirect if not admin
+  useEffect(() => {
+    if (!loading && (!session || role !== 'admin')) {
+      showError('Anda tidak memiliki izin untuk mengakses halaman ini.');
+      navigate('/');
+    }
+  }, [session, loading, role, navigate]);
+
+  const { data: rules, isLoading, error } = useQuery<RoutingRule[], Error>({
+    queryKey: ['routingRules'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('routing_rules')
+        .select('category, strategy, team_id')
+        .order('category');
+
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!session && role === 'admin',
+  });
+
+  const { data: teams } = useTeams(!!session && role === 'admin');
+
+  const saveRuleMutation = useMutation({
+    mutationFn: async (rule: RoutingRule) => {
+      const { error } = await supabase
+        .from('routing_rules')
+        .upsert({ ...rule, updated_at: new Date().toISOString() }, { onConflict: 'category' });
+
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: (_, rule) => {
+      showSuccess(`Aturan routing ${rule.category} berhasil disimpan.`);
+      queryClient.invalidateQueries({ queryKey: ['routingRules'] });
+    },
+    onError: (error: Error) => {
+      showError(`Gagal menyimpan aturan routing: ${error.message}`);
+    },
+  });
+
+  if (loading || (session && role !== 'admin')) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+        <p className="text-gray-700 dark:text-gray-300">
+          {loading ? 'Memuat...' : 'Mengalihkan...'}
+        </p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+        <h1 className="text-3xl font-bold text-red-600 dark:text-red-400 mb-4">Error</h1>
+        <p className="text-lg text-gray-700 dark:text-gray-300">
+          Gagal memuat aturan routing: {error.message}
+        </p>
+      </div>
+    );
+  }
+
+  // Categories without a rule are routed manually and have no team queue
+  const ruleByCategory = new Map(rules?.map((rule) => [rule.category, rule]));
+
+  return (
+    <div className="container mx-auto p-4">
+      <h1 className="text-3xl font-bold mb-2 text-gray-900 dark:text-white">Routing Tiket</h1>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+        Tiket baru (termasuk dari form publik) masuk ke antrian tim kategorinya dan ditugaskan otomatis ke agen customer service tim tersebut sesuai strateginya.
+      </p>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Kategori</TableHead>
+                <TableHead className="w-[220px]">Tim</TableHead>
+                <TableHead className="w-[260px]">Strategi</TableHead>
+                <TableHead>Keterangan</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {TICKET_CATEGORIES.map((category) => {
+                const strategy = ruleByCategory.get(category)?.strategy ?? 'manual';
+                const teamId = ruleByCategory.get(category)?.team_id ?? null;
+                return (
+                  <TableRow key={category}>
+                    <TableCell className="font-medium">{category}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={teamId ?? NO_TEAM_SENTINEL}
+                        onValueChange={(value) => saveRuleMutation.mutate({
+                          category,
+                          strategy,
+                          team_id: value === NO_TEAM_SENTINEL ? null : value,
+                        })}
+                        disabled={saveRuleMutation.isPending}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_TEAM_SENTINEL}>Tanpa Tim</SelectItem>
+                          {teams?.map((team) => (
+                            <SelectItem key={team.id} value={team.id}>
+                              {team.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={strategy}
+                        onValueChange={(value) => saveRuleMutation.mutate({ category, strategy: value as RoutingStrategy, team_id: teamId })}
+                        disabled={saveRuleMutation.isPending}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROUTING_STRATEGIES.map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {ROUTING_STRATEGY_LABELS[option]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">{ROUTING_STRATEGY_DESCRIPTIONS[strategy]}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RoutingRules;
@@ -0,0 +1,267 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+
+import { useSession } from '@/components/SessionContextProvider';
+import { OnDutyAgentsCard } from '@/components/OnDutyAgentsCard';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { showSuccess, showError } from '@/utils/toast';
+import { supabase } from '@/integrations/supabase/client';
+import { WEEKDAY_LABELS } from '@/utils/businessCalendar';
+import { AgentShift } from '@/utils/agentAvailability';
+
+interface Agent {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+  role: string;
+}
+
+// Monday first, matching how the roster is usually read
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const agentName = (agent: Agent | undefined) =>
+  agent ? [agent.first_name, agent.last_name].filter(Boolean).join(' ') || agent.email : '-';
+
+const ShiftRoster = () => {
+  const { session, loading, role } = useSession();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const [newAgentId, setNewAgentId] = useState('');
+  const [newWeekday, setNewWeekday] = useState('1');
+  const [newStartTime, setNewStartTime] = useState('08:00');
+  const [newEndTime, setNewEndTime] = useState('17:00');
+
+  // Redirect if not admin
+  useEffect(() => {
+    if (!loading && (!session || role !== 'admin')) {
+      showError('Anda tidak memiliki izin untuk mengakses halaman ini.');
+      navigate('/');
+    }
+  }, [session, loading, role, navigate]);
+
+  const { data: agents, isLoading: isLoadingAgents } = useQuery<Agent[], Error>({
+    queryKey: ['agents'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, first_name, last_name, email, role')
+        .in('role', ['admin', 'customer_service']);
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!session && role === 'admin',
+  });
+
+  const { data: shifts, isLoading: isLoadingShifts, error } = useQuery<AgentShift[], Error>({
+    queryKey: ['agentShifts'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('agent_shifts')
+        .select('id, agent_id, weekday, start_time, end_time')
+        .order('start_time');
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!session && role === 'admin',
+  });
+
+  const invalidateRoster = () => {
+    queryClient.invalidateQueries({ queryKey: ['agentShifts'] });
+    queryClient.invalidateQueries({ queryKey: ['agentsOnDuty'] });
+  };
+
+  const addShiftMutation = useMutation({
+    mutationFn: async () => {
+      if (!newAgentId) throw new Error('Pilih agen terlebih dahulu.');
+      if (newStartTime >= newEndTime) throw new Error('Jam mulai harus sebelum jam selesai.');
+
+      const { error } = await supabase.from('agent_shifts').insert({
+        agent_id: newAgentId,
+        weekday: Number(newWeekday),
+        start_time: newStartTime,
+        end_time: newEndTime,
+      });
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      showSuccess('Shift berhasil ditambahkan!');
+      invalidateRoster();
+    },
+    onError: (error: Error) => {
+      showError(`Gagal menambahkan shift: ${error.message}`);
+    },
+  });
+
+  const deleteShiftMutation = useMutation({
+    mutationFn: async (shiftId: string) => {
+      const { error } = await supabase.from('agent_shifts').delete().eq('id', shiftId);
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      showSuccess('Shift berhasil dihapus!');
+      invalidateRoster();
+    },
+    onError: (error: Error) => {
+      showError(`Gagal menghapus shift: ${error.message}`);
+    },
+  });
+
+  if (loading || (session && role !== 'admin')) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+        <p className="text-gray-700 dark:text-gray-300">
+          {loading ? 'Memuat...' : 'Mengalihkan...'}
+        </p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+        <h1 className="text-3xl font-bold text-red-600 dark:text-red-400 mb-4">Error</h1>
+        <p className="text-lg text-gray-700 dark:text-gray-300">
+          Gagal memuat jadwal shift: {error.message}
+        </p>
+      </div>
+    );
+  }
+
+  if (isLoadingAgents || isLoadingShifts) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const agentsById = new Map(agents?.map((agent) => [agent.id, agent]));
+  const sortedShifts = [...(shifts ?? [])].sort(
+    (a, b) =>
+      (agentName(agentsById.get(a.agent_id)) ?? '').localeCompare(agentName(agentsById.get(b.agent_id)) ?? '') ||
+      WEEKDAY_ORDER.indexOf(a.weekday) - WEEKDAY_ORDER.indexOf(b.weekday)
+  );
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2 text-gray-900 dark:text-white">Jadwal Shift</h1>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Routing otomatis dan notifikasi eskalasi hanya ditujukan ke agen yang online dan sedang dalam shift.
+          Agen tanpa jadwal dianggap selalu dalam shift.
+        </p>
+      </div>
+
+      <div className="max-w-md">
+        <OnDutyAgentsCard />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Roster Mingguan</CardTitle>
+          <CardDescription>Jam shift mengikuti zona waktu kalender kerja.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col md:flex-row gap-2">
+            <Select value={newAgentId} onValueChange={setNewAgentId}>
+              <SelectTrigger className="md:w-64">
+                <SelectValue placeholder="Pilih agen" />
+              </SelectTrigger>
+              <SelectContent>
+                {agents?.map((agent) => (
+                  <SelectItem key={agent.id} value={agent.id}>
+                    {agentName(agent)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={newWeekday} onValueChange={setNewWeekday}>
+              <SelectTrigger className="md:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WEEKDAY_ORDER.map((weekday) => (
+                  <SelectItem key={weekday} value={String(weekday)}>
+                    {WEEKDAY_LABELS[weekday]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input type="time" value={newStartTime} onChange={(e) => setNewStartTime(e.target.value)} className="md:w-32" />
+            <Input type="time" value={newEndTime} onChange={(e) => setNewEndTime(e.target.value)} className="md:w-32" />
+            <Button onClick={() => addShiftMutation.mutate()} disabled={addShiftMutation.isPending}>
+              {addShiftMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+              Tambah
+            </Button>
+          </div>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Agen</TableHead>
+                  <TableHead>Hari</TableHead>
+                  <TableHead>Mulai</TableHead>
+                  <TableHead>Selesai</TableHead>
+                  <TableHead className="text-center">Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedShifts.length ? (
+                  sortedShifts.map((shift) => (
+                    <TableRow key={shift.id}>
+                      <TableCell className="font-medium">{agentName(agentsById.get(shift.agent_id))}</TableCell>
+                      <TableCell>{WEEKDAY_LABELS[shift.weekday]}</TableCell>
+                      <TableCell>{shift.start_time.slice(0, 5)}</TableCell>
+                      <TableCell>{shift.end_time.slice(0, 5)}</TableCell>
+                      <TableCell className="text-center">
+                        <Button
+                          variant="destructive"
+                          size="icon"
+                          onClick={() => deleteShiftMutation.mutate(shift.id)}
+                          disabled={deleteShiftMutation.isPending}
+                          aria-label="Hapus shift"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center">
+                      Belum ada jadwal shift.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ShiftRoster;
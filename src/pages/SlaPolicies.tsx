@@ -0,0 +1,408 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+
+import { useSession } from '@/components/SessionContextProvider';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { showSuccess, showError } from '@/utils/toast';
+import { supabase } from '@/integrations/supabase/client';
+import { SlaPolicy } from '@/utils/sla';
+import { useSlaPolicies } from '@/hooks/use-sla-policies';
+import { TICKET_CATEGORIES } from '@/utils/ticketCategories';
+
+const TICKET_PRIORITIES = ['urgent', 'high', 'medium', 'low'] as const;
+
+// Sentinel value for "all categories" (category = NULL)
+const ALL_CATEGORIES_SENTINEL = '__all__';
+
+const slaPolicyFormSchema = z.object({
+  priority: z.enum(TICKET_PRIORITIES),
+  category: z.string(),
+  first_response_minutes: z.coerce.number().int().positive({ message: 'Harus lebih dari 0 menit.' }),
+  warning_minutes: z.coerce.number().int().positive({ message: 'Harus lebih dari 0 menit.' }),
+  resolution_minutes: z.coerce.number().int().positive({ message: 'Harus lebih dari 0 menit.' }),
+  warning_priority_bump: z.coerce.number().int().min(0).max(3, { message: 'Maksimal 3 tingkat.' }),
+  breach_priority_bump: z.coerce.number().int().min(0).max(3, { message: 'Maksimal 3 tingkat.' }),
+}).refine(
+  (values) => values.warning_minutes <= values.resolution_minutes,
+  { message: 'Batas peringatan tidak boleh melebihi batas penyelesaian.', path: ['warning_minutes'] },
+);
+
+type SlaPolicyFormValues = z.infer<typeof slaPolicyFormSchema>;
+
+const DEFAULT_FORM_VALUES: SlaPolicyFormValues = {
+  priority: 'medium',
+  category: ALL_CATEGORIES_SENTINEL,
+  first_response_minutes: 120,
+  warning_minutes: 1140,
+  resolution_minutes: 1440,
+  warning_priority_bump: 0,
+  breach_priority_bump: 1,
+};
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} menit`;
+  return rest === 0 ? `${hours} jam` : `${hours} jam ${rest} menit`;
+};
+
+const SlaPolicies = () => {
+  const { session, loading, role } = useSession();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<SlaPolicy | null>(null);
+
+  // Redirect if not admin
+  useEffect(() => {
+    if (!loading && (!session || role !== 'admin')) {
+      showError('Anda tidak memiliki izin untuk mengakses halaman ini.');
+      navigate('/');
+    }
+  }, [session, loading, role, navigate]);
+
+  const { data: policies, isLoading, error } = useSlaPolicies();
+
+  const form = useForm<SlaPolicyFormValues>({
+    resolver: zodResolver(slaPolicyFormSchema),
+    defaultValues: DEFAULT_FORM_VALUES,
+  });
+
+  const savePolicyMutation = useMutation({
+    mutationFn: async (values: SlaPolicyFormValues) => {
+      const payload = {
+        priority: values.priority,
+        category: values.category === ALL_CATEGORIES_SENTINEL ? null : values.category,
+        first_response_minutes: values.first_response_minutes,
+        warning_minutes: values.warning_minutes,
+        resolution_minutes: values.resolution_minutes,
+        warning_priority_bump: values.warning_priority_bump,
+        breach_priority_bump: values.breach_priority_bump,
+        updated_at: new Date().toISOString(),
+      };
+
+      const { error } = editingPolicy
+        ? await supabase.from('sla_policies').update(payload).eq('id', editingPolicy.id)
+        : await supabase.from('sla_policies').insert(payload);
+
+      if (error) {
+        if (error.code === '23505') throw new Error('Kebijakan untuk prioritas dan kategori ini sudah ada.');
+        throw new Error(error.message);
+      }
+    },
+    onSuccess: () => {
+      showSuccess('Kebijakan SLA berhasil disimpan!');
+      queryClient.invalidateQueries({ queryKey: ['slaPolicies'] });
+      queryClient.invalidateQueries({ queryKey: ['slaPerformancePercentage'] });
+      setIsDialogOpen(false);
+      setEditingPolicy(null);
+    },
+    onError: (error: Error) => {
+      showError(`Gagal menyimpan kebijakan SLA: ${error.message}`);
+    },
+  });
+
+  const deletePolicyMutation = useMutation({
+    mutationFn: async (policyId: string) => {
+      const { error } = await supabase.from('sla_policies').delete().eq('id', policyId);
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      showSuccess('Kebijakan SLA berhasil dihapus!');
+      queryClient.invalidateQueries({ queryKey: ['slaPolicies'] });
+      queryClient.invalidateQueries({ queryKey: ['slaPerformancePercentage'] });
+    },
+    onError: (error: Error) => {
+      showError(`Gagal menghapus kebijakan SLA: ${error.message}`);
+    },
+  });
+
+  const openCreateDialog = () => {
+    setEditingPolicy(null);
+    form.reset(DEFAULT_FORM_VALUES);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (policy: SlaPolicy) => {
+    setEditingPolicy(policy);
+    form.reset({
+      priority: policy.priority as SlaPolicyFormValues['priority'],
+      category: policy.category ?? ALL_CATEGORIES_SENTINEL,
+      first_response_minutes: policy.first_response_minutes,
+      warning_minutes: policy.warning_minutes,
+      resolution_minutes: policy.resolution_minutes,
+      warning_priority_bump: policy.warning_priority_bump,
+      breach_priority_bump: policy.breach_priority_bump,
+    });
+    setIsDialogOpen(true);
+  };
+
+  if (loading || (session && role !== 'admin')) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+        <p className="text-gray-700 dark:text-gray-300">
+          {loading ? 'Memuat...' : 'Mengalihkan...'}
+        </p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+        <h1 className="text-3xl font-bold text-red-600 dark:text-red-400 mb-4">Error</h1>
+        <p className="text-lg text-gray-700 dark:text-gray-300">
+          Gagal memuat kebijakan SLA: {error.message}
+        </p>
+      </div>
+    );
+  }
+
+  const sortedPolicies = [...(policies ?? [])].sort((a, b) =>
+    TICKET_PRIORITIES.indexOf(a.priority as typeof TICKET_PRIORITIES[number]) -
+      TICKET_PRIORITIES.indexOf(b.priority as typeof TICKET_PRIORITIES[number]) ||
+    (a.category ?? '').localeCompare(b.category ?? ''),
+  );
+
+  return (
+    <div className="container mx-auto p-4">
+      <h1 className="text-3xl font-bold mb-2 text-gray-900 dark:text-white">Kebijakan SLA</h1>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+        Target waktu per prioritas. Baris dengan kategori spesifik menggantikan default prioritas untuk kategori tersebut.
+      </p>
+
+      <div className="flex justify-end mb-4">
+        <Button onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" /> Tambah Kebijakan
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Prioritas</TableHead>
+                <TableHead>Kategori</TableHead>
+                <TableHead>Respon Pertama</TableHead>
+                <TableHead>Peringatan</TableHead>
+                <TableHead>Penyelesaian</TableHead>
+                <TableHead>Naik Prioritas (Peringatan / Lewat SLA)</TableHead>
+                <TableHead className="text-center">Aksi</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedPolicies.map((policy) => (
+                <TableRow key={policy.id}>
+                  <TableCell className="font-medium capitalize">{policy.priority}</TableCell>
+                  <TableCell>{policy.category ?? <span className="text-gray-500">Semua Kategori (default)</span>}</TableCell>
+                  <TableCell>{formatMinutes(policy.first_response_minutes)}</TableCell>
+                  <TableCell>{formatMinutes(policy.warning_minutes)}</TableCell>
+                  <TableCell>{formatMinutes(policy.resolution_minutes)}</TableCell>
+                  <TableCell>+{policy.warning_priority_bump} / +{policy.breach_priority_bump}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center justify-center gap-2">
+                      <Button variant="outline" size="icon" onClick={() => openEditDialog(policy)} aria-label="Edit kebijakan">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="icon"
+                        onClick={() => deletePolicyMutation.mutate(policy.id)}
+                        disabled={policy.category === null || deletePolicyMutation.isPending}
+                        aria-label={policy.category === null ? 'Default prioritas tidak dapat dihapus' : 'Hapus kebijakan'}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{editingPolicy ? 'Edit Kebijakan SLA' : 'Tambah Kebijakan SLA'}</DialogTitle>
+            <DialogDescription>Semua target dalam menit kerja. Kenaikan prioritas dalam jumlah tingkat (maksimal urgent).</DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((values) => savePolicyMutation.mutate(values))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="priority"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Prioritas</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={!!editingPolicy}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Pilih prioritas" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {TICKET_PRIORITIES.map((priority) => (
+                          <SelectItem key={priority} value={priority} className="capitalize">
+                            {priority}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Kategori</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={!!editingPolicy}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Pilih kategori" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ALL_CATEGORIES_SENTINEL}>Semua Kategori (default)</SelectItem>
+                        {TICKET_CATEGORIES.map((category) => (
+                          <SelectItem key={category} value={category}>
+                            {category}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="first_response_minutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Target Respon Pertama (menit)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="warning_minutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Batas Peringatan (menit)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="resolution_minutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Target Penyelesaian (menit)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="warning_priority_bump"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Naik Prioritas saat Peringatan</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} max={3} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="breach_priority_bump"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Naik Prioritas saat Lewat SLA</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} max={3} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Batal
+                </Button>
+                <Button type="submit" disabled={savePolicyMutation.isPending}>
+                  {savePolicyMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Simpan
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SlaPolicies;
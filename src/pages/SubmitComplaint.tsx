@@ -28,40 +28,42 @@ import {
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { showSuccess, showError, showWarning } from '@/utils/toast';
 import { supabase } from '@/integrations/supabase/client';
+import { COMPLAINT_CATEGORIES } from '@/utils/ticketCategories';
 import { ALLOWED_FILE_TYPES, MAX_FILE_SIZE_MB, uploadFilesToStorage } from '@/utils/fileUpload';
+import { VehicleSuggestion } from '@/utils/vehicles';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useVehicleSearch } from '@/hooks/use-vehicle-search';
+import { canonicalizePlateNumber, parsePlateNumber } from '@shared/plateNumber';
+import { SIMCARD_OPERATOR_LABELS, normalizeSimcardNumber, parseSimcardNumber } from '@shared/simcardNumber';
+import { parsePhoneNumber } from '@shared/phoneNumber';
 
 const MAX_FILES = 5;
 
-// Define available complaint categories
-const COMPLAINT_CATEGORIES = [
-  'Technical Issue',
-  'Billing Inquiry',
-  'Service Interruption',
-  'Product Feedback',
-  'General Inquiry',
-  'Other',
-] as const;
-
 // Define form schema for submitting a new complaint
 const submitComplaintFormSchema = z.object({
   title: z.string().min(1, { message: 'Judul keluhan diperlukan.' }).max(255, { message: 'Judul maksimal 255 karakter.' }),
   no_plat_kendaraan: z
     .string()
-    .min(1, { message: 'No plat kendaraan diperlukan.' })
-    .max(15, { message: 'No plat kendaraan maksimal 15 karakter.' })
-    .regex(/^[A-Za-z0-9 ]+$/, {
-      message: 'No plat hanya boleh berisi huruf, angka, dan spasi.',
-    }),
+    .superRefine((value, ctx) => {
+      const { error } = parsePlateNumber(value);
+      if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    })
+    // Submitted in canonical form, e.g. "b1234xyz" -> "B 1234 XYZ"
+    .transform((value) => canonicalizePlateNumber(value) ?? value),
   no_simcard_gps: z
     .string()
-    .min(1, { message: 'No simcard GPS diperlukan.' })
-    .max(15, { message: 'No simcard GPS maksimal 15 digit.' })
-    .regex(/^08\d{0,13}$/, {
-      message: 'No simcard harus angka, diawali 08, maksimal 15 digit.',
-    }),
+    .superRefine((value, ctx) => {
+      const { error } = parseSimcardNumber(value);
+      if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    })
+    // Submitted in E.164, e.g. "0812-3456-7890" -> "+6281234567890"
+    .transform((value) => normalizeSimcardNumber(value) ?? value),
   description: z.string().max(5000, { message: 'Deskripsi maksimal 5000 karakter.' }).optional(),
   customer_name: z.string().min(1, { message: 'Nama pelanggan diperlukan.' }),
-  customer_whatsapp: z.string().min(1, { message: 'Nomor WhatsApp diperlukan.' }),
+  customer_whatsapp: z.string().superRefine((value, ctx) => {
+    const { error } = parsePhoneNumber(value);
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  }),
   category: z.enum(COMPLAINT_CATEGORIES, { message: 'Kategori keluhan diperlukan.' }),
 });
 
@@ -71,6 +73,7 @@ const SubmitComplaint = () => {
   const queryClient = useQueryClient();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [showPlateSuggestions, setShowPlateSuggestions] = useState(false);
 
   // Redirect if not logged in or unauthorized role
   useEffect(() => {
@@ -97,6 +100,31 @@ const SubmitComplaint = () => {
     },
   });
 
+  const parsedPlate = parsePlateNumber(form.watch('no_plat_kendaraan')).plate;
+  const parsedSimcard = parseSimcardNumber(form.watch('no_simcard_gps')).simcard;
+  const parsedPhone = parsePhoneNumber(form.watch('customer_whatsapp')).phone;
+  const plateSearchTerm = useDebouncedValue(form.watch('no_plat_kendaraan'));
+  const { data: plateSuggestions } = useVehicleSearch(
+    plateSearchTerm,
+    !!session && ['admin', 'customer_service'].includes(role || ''),
+  );
+
+  // Prefill from the registry; fields the agent already typed are kept
+  const handleSelectVehicle = (vehicle: VehicleSuggestion) => {
+    form.setValue('no_plat_kendaraan', vehicle.plate_number, { shouldValidate: true });
+    const simcard = vehicle.gps_devices[0]?.simcard_number;
+    if (simcard && !form.getValues('no_simcard_gps')) {
+      form.setValue('no_simcard_gps', simcard, { shouldValidate: true });
+    }
+    if (vehicle.customer?.name && !form.getValues('customer_name')) {
+      form.setValue('customer_name', vehicle.customer.name, { shouldValidate: true });
+    }
+    if (vehicle.customer?.whatsapp_number && !form.getValues('customer_whatsapp')) {
+      form.setValue('customer_whatsapp', vehicle.customer.whatsapp_number, { shouldValidate: true });
+    }
+    setShowPlateSuggestions(false);
+  };
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     if (!event.target.files) return;
 
@@ -272,17 +300,51 @@ const SubmitComplaint = () => {
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>NO Plat Kendaraan</FormLabel>
-                    <FormControl>
-                      <Input
-                        placeholder="Contoh: B 1234 CD"
-                        maxLength={15}
-                        {...field}
-                        onChange={(event) => {
-                          const sanitized = event.target.value.replace(/[^A-Za-z0-9 ]/g, '').toUpperCase();
-                          field.onChange(sanitized);
-                        }}
-                      />
-                    </FormControl>
+                    <div className="relative">
+                      <FormControl>
+                        <Input
+                          placeholder="Contoh: B 1234 CD"
+                          maxLength={15}
+                          autoComplete="off"
+                          {...field}
+                          onChange={(event) => {
+                            const sanitized = event.target.value.replace(/[^A-Za-z0-9 ]/g, '').toUpperCase();
+                            field.onChange(sanitized);
+                            setShowPlateSuggestions(true);
+                          }}
+                          onFocus={() => setShowPlateSuggestions(true)}
+                          onBlur={() => {
+                            setShowPlateSuggestions(false);
+                            field.onBlur();
+                          }}
+                        />
+                      </FormControl>
+                      {showPlateSuggestions && !!plateSuggestions?.length && (
+                        <ul className="absolute z-20 mt-1 w-full rounded-md border bg-white shadow-md dark:bg-gray-900">
+                          {plateSuggestions.map((vehicle) => (
+                            <li key={vehicle.id}>
+                              <button
+                                type="button"
+                                className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-800"
+                                // Keep focus on the input so onBlur does not close the list before the click lands
+                                onMouseDown={(event) => event.preventDefault()}
+                                onClick={() => handleSelectVehicle(vehicle)}
+                              >
+                                <span className="font-medium">{vehicle.plate_number}</span>
+                                <span className="ml-2 text-xs text-gray-500">
+                                  {[vehicle.make, vehicle.customer?.name].filter(Boolean).join(' · ') || 'Kendaraan terdaftar'}
+                                </span>
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                    {parsedPlate && (
+                      <p className="text-xs text-muted-foreground">
+                        {parsedPlate.canonical} · Wilayah {parsedPlate.region}
+                      </p>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -298,14 +360,19 @@ const SubmitComplaint = () => {
                         type="text"
                         inputMode="numeric"
                         placeholder="Contoh: 081234567890"
-                        maxLength={15}
+                        maxLength={16}
                         {...field}
                         onChange={(event) => {
-                          const sanitized = event.target.value.replace(/\D/g, '');
+                          const sanitized = event.target.value.replace(/[^\d+]/g, '');
                           field.onChange(sanitized);
                         }}
                       />
                     </FormControl>
+                    {parsedSimcard && (
+                      <p className="text-xs text-muted-foreground">
+                        {parsedSimcard.e164} · {parsedSimcard.operator ? SIMCARD_OPERATOR_LABELS[parsedSimcard.operator] : 'Operator tidak dikenal'}
+                      </p>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -343,8 +410,14 @@ const SubmitComplaint = () => {
                   <FormItem>
                     <FormLabel>Nomor WhatsApp</FormLabel>
                     <FormControl>
-                      <Input type="text" placeholder="Contoh: 081234567890" {...field} />
+                      <Input type="text" placeholder="Contoh: 081234567890 atau +60 12 345 6789" {...field} />
                     </FormControl>
+                    {parsedPhone && (
+                      <p className={`text-xs ${parsedPhone.whatsappCapable ? 'text-muted-foreground' : 'text-amber-600'}`}>
+                        {parsedPhone.e164} · {parsedPhone.country}
+                        {!parsedPhone.whatsappCapable && ' · Nomor telepon rumah/kantor, tidak bisa menerima WhatsApp'}
+                      </p>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
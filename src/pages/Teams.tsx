@@ -0,0 +1,327 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+
+import { useSession } from '@/components/SessionContextProvider';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { showSuccess, showError } from '@/utils/toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useTeams } from '@/hooks/use-teams';
+import { NO_TEAM_SENTINEL, Team } from '@/utils/teams';
+
+interface TeamMember {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+  role: string;
+  team_id: string | null;
+}
+
+const NO_LEAD_SENTINEL = '__no_lead__';
+
+const memberName = (member: TeamMember | undefined) =>
+  member ? [member.first_name, member.last_name].filter(Boolean).join(' ') || member.email : '-';
+
+const Teams = () => {
+  const { session, loading, role } = useSession();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [newTeamName, setNewTeamName] = useState('');
+
+  // Redirect if not admin
+  useEffect(() => {
+    if (!loading && (!session || role !== 'admin')) {
+      showError('Anda tidak memiliki izin untuk mengakses halaman ini.');
+      navigate('/');
+    }
+  }, [session, loading, role, navigate]);
+
+  const { data: teams, isLoading: isLoadingTeams, error } = useTeams(!!session && role === 'admin');
+
+  const { data: members, isLoading: isLoadingMembers } = useQuery<TeamMember[], Error>({
+    queryKey: ['teamMembers'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, first_name, last_name, email, role, team_id')
+        .in('role', ['admin', 'customer_service'])
+        .order('first_name');
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!session && role === 'admin',
+  });
+
+  const invalidateTeams = () => {
+    queryClient.invalidateQueries({ queryKey: ['teams'] });
+    queryClient.invalidateQueries({ queryKey: ['teamMembers'] });
+    queryClient.invalidateQueries({ queryKey: ['tickets'] });
+  };
+
+  const addTeamMutation = useMutation({
+    mutationFn: async () => {
+      if (!newTeamName.trim()) throw new Error('Nama tim wajib diisi.');
+      const { error } = await supabase.from('teams').insert({ name: newTeamName.trim() });
+      if (error) {
+        if (error.code === '23505') throw new Error('Nama tim sudah digunakan.');
+        throw new Error(error.message);
+      }
+    },
+    onSuccess: () => {
+      showSuccess('Tim berhasil ditambahkan!');
+      setNewTeamName('');
+      invalidateTeams();
+    },
+    onError: (error: Error) => {
+      showError(`Gagal menambahkan tim: ${error.message}`);
+    },
+  });
+
+  const updateTeamMutation = useMutation({
+    mutationFn: async ({ id, ...changes }: Pick<Team, 'id'> & Partial<Omit<Team, 'id'>>) => {
+      const { error } = await supabase.from('teams').update(changes).eq('id', id);
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      showSuccess('Tim berhasil diperbarui!');
+      invalidateTeams();
+    },
+    onError: (error: Error) => {
+      showError(`Gagal memperbarui tim: ${error.message}`);
+    },
+  });
+
+  const deleteTeamMutation = useMutation({
+    mutationFn: async (teamId: string) => {
+      const { error } = await supabase.from('teams').delete().eq('id', teamId);
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      showSuccess('Tim berhasil dihapus!');
+      invalidateTeams();
+    },
+    onError: (error: Error) => {
+      showError(`Gagal menghapus tim: ${error.message}`);
+    },
+  });
+
+  const setMemberTeamMutation = useMutation({
+    mutationFn: async ({ memberId, teamId }: { memberId: string; teamId: string | null }) => {
+      const { error } = await supabase.from('profiles').update({ team_id: teamId }).eq('id', memberId);
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      showSuccess('Anggota tim berhasil diperbarui!');
+      invalidateTeams();
+    },
+    onError: (error: Error) => {
+      showError(`Gagal memperbarui anggota tim: ${error.message}`);
+    },
+  });
+
+  if (loading || (session && role !== 'admin')) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+        <p className="text-gray-700 dark:text-gray-300">
+          {loading ? 'Memuat...' : 'Mengalihkan...'}
+        </p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+        <h1 className="text-3xl font-bold text-red-600 dark:text-red-400 mb-4">Error</h1>
+        <p className="text-lg text-gray-700 dark:text-gray-300">
+          Gagal memuat tim: {error.message}
+        </p>
+      </div>
+    );
+  }
+
+  if (isLoadingTeams || isLoadingMembers) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2 text-gray-900 dark:text-white">Tim & Antrian</h1>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Setiap tim memiliki antrian tiket sendiri. Tim default per kategori diatur di halaman Routing Tiket.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Tim</CardTitle>
+          <CardDescription>
+            Jika visibilitas dibatasi, agen tim hanya melihat tiket antrian timnya dan tiket tanpa tim.
+            Admin dan ketua tim tetap melihat semua tiket.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col md:flex-row gap-2">
+            <Input
+              placeholder="Nama tim, contoh: Medan CS"
+              value={newTeamName}
+              onChange={(e) => setNewTeamName(e.target.value)}
+            />
+            <Button onClick={() => addTeamMutation.mutate()} disabled={addTeamMutation.isPending}>
+              {addTeamMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+              Tambah
+            </Button>
+          </div>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nama</TableHead>
+                  <TableHead>Ketua Tim</TableHead>
+                  <TableHead>Anggota</TableHead>
+                  <TableHead>Batasi Visibilitas</TableHead>
+                  <TableHead className="text-center">Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {teams?.length ? (
+                  teams.map((team) => (
+                    <TableRow key={team.id}>
+                      <TableCell className="font-medium">{team.name}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={team.lead_id ?? NO_LEAD_SENTINEL}
+                          onValueChange={(value) => updateTeamMutation.mutate({
+                            id: team.id,
+                            lead_id: value === NO_LEAD_SENTINEL ? null : value,
+                          })}
+                          disabled={updateTeamMutation.isPending}
+                        >
+                          <SelectTrigger className="w-[220px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_LEAD_SENTINEL}>Belum Ada</SelectItem>
+                            {members?.map((member) => (
+                              <SelectItem key={member.id} value={member.id}>
+                                {memberName(member)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>{members?.filter((member) => member.team_id === team.id).length ?? 0}</TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={team.restrict_visibility}
+                          onCheckedChange={(checked) => updateTeamMutation.mutate({ id: team.id, restrict_visibility: checked })}
+                          disabled={updateTeamMutation.isPending}
+                          aria-label={`Batasi visibilitas ${team.name}`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <Button
+                          variant="destructive"
+                          size="icon"
+                          onClick={() => deleteTeamMutation.mutate(team.id)}
+                          disabled={deleteTeamMutation.isPending}
+                          aria-label="Hapus tim"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center">
+                      Belum ada tim.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Anggota</CardTitle>
+          <CardDescription>Setiap agen hanya tergabung dalam satu tim.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Agen</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead className="w-[260px]">Tim</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {members?.map((member) => (
+                  <TableRow key={member.id}>
+                    <TableCell className="font-medium">{memberName(member)}</TableCell>
+                    <TableCell className="capitalize">{member.role.replaceAll('_', ' ')}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={member.team_id ?? NO_TEAM_SENTINEL}
+                        onValueChange={(value) => setMemberTeamMutation.mutate({
+                          memberId: member.id,
+                          teamId: value === NO_TEAM_SENTINEL ? null : value,
+                        })}
+                        disabled={setMemberTeamMutation.isPending}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_TEAM_SENTINEL}>Tanpa Tim</SelectItem>
+                          {teams?.map((team) => (
+                            <SelectItem key={team.id} value={team.id}>
+                              {team.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Teams;
@@ -0,0 +1,348 @@
+import { ChangeEvent, useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, Camera, CheckCircle2, Loader2, MapPin, MessageCircle, Navigation, X } from 'lucide-react';
+
+import { useSession } from '@/components/SessionContextProvider';
+import { SignaturePad } from '@/components/SignaturePad';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { showError, showSuccess } from '@/utils/toast';
+import { supabase } from '@/integrations/supabase/client';
+import { ALLOWED_FILE_TYPES, MAX_FILE_SIZE_MB, uploadFilesToStorage } from '@/utils/fileUpload';
+import { formatWhatsappNumber } from '@/utils/whatsapp';
+import {
+  WORK_ORDER_STATUS_LABELS,
+  WORK_ORDER_TICKET_SELECT,
+  WorkOrderWithTicket,
+  formatWorkOrderWindow,
+  getWorkOrderBadgeClass,
+} from '@/utils/workOrders';
+
+// Best effort: a check-in without location is still a check-in
+const getCurrentPosition = () =>
+  new Promise<GeolocationCoordinates | null>((resolve) => {
+    if (!navigator.geolocation) {
+      resolve(null);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve(position.coords),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: 10000 },
+    );
+  });
+
+const TechnicianVisit = () => {
+  const { id } = useParams<{ id: string }>();
+  const { session, loading, role, user } = useSession();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [workSummary, setWorkSummary] = useState('');
+  const [signoffName, setSignoffName] = useState('');
+  const [signature, setSignature] = useState<Blob | null>(null);
+
+  // Redirect if not technician
+  useEffect(() => {
+    if (!loading && (!session || role !== 'technician')) {
+      showError('Anda tidak memiliki izin untuk mengakses halaman ini.');
+      navigate('/');
+    }
+  }, [session, loading, role, navigate]);
+
+  const { data: workOrder, isLoading, error } = useQuery<WorkOrderWithTicket, Error>({
+    queryKey: ['workOrder', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('work_orders')
+        .select(WORK_ORDER_TICKET_SELECT)
+        .eq('id', id)
+        .single();
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!session && role === 'technician' && !!id,
+  });
+
+  const invalidateVisit = () => {
+    queryClient.invalidateQueries({ queryKey: ['workOrder', id] });
+    queryClient.invalidateQueries({ queryKey: ['myWorkOrders', user?.id] });
+  };
+
+  const checkInMutation = useMutation({
+    mutationFn: async () => {
+      const coords = await getCurrentPosition();
+      const { error } = await supabase.rpc('check_in_work_order', {
+        p_work_order_id: id,
+        p_latitude: coords?.latitude ?? null,
+        p_longitude: coords?.longitude ?? null,
+      });
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      showSuccess('Check-in berhasil!');
+      invalidateVisit();
+    },
+    onError: (error: Error) => {
+      showError(`Gagal check-in: ${error.message}`);
+    },
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: async () => {
+      if (!workOrder || !user?.id) throw new Error('Kunjungan tidak ditemukan.');
+      if (photos.length === 0) throw new Error('Minimal satu foto bukti wajib diunggah.');
+      if (!workSummary.trim()) throw new Error('Ringkasan pekerjaan wajib diisi.');
+      if (!signoffName.trim()) throw new Error('Nama pelanggan wajib diisi.');
+      if (!signature) throw new Error('Tanda tangan pelanggan wajib diisi.');
+
+      const signatureFile = new File([signature], 'tanda-tangan.png', { type: 'image/png' });
+      const uploadedPaths = await uploadFilesToStorage([...photos, signatureFile], user.id, workOrder.ticket_id);
+      const signaturePath = uploadedPaths[uploadedPaths.length - 1];
+
+      const { error } = await supabase.rpc('complete_work_order', {
+        p_work_order_id: workOrder.id,
+        p_work_summary: workSummary.trim(),
+        p_photo_paths: uploadedPaths.slice(0, -1),
+        p_signoff_name: signoffName.trim(),
+        p_signoff_signature_path: signaturePath,
+      });
+
+      if (error) {
+        // Do not leave orphaned proof files behind when the visit could not be closed. Storage reports files it
+        // was not allowed to delete by leaving them out of the result rather than with an error.
+        const { data: removed, error: removeError } = await supabase.storage
+          .from('ticket-attachments')
+          .remove(uploadedPaths);
+        if (removeError || (removed?.length ?? 0) < uploadedPaths.length) {
+          console.error('Error removing orphaned visit proof files:', removeError ?? uploadedPaths);
+        }
+        throw new Error(error.message);
+      }
+    },
+    onSuccess: () => {
+      showSuccess('Kunjungan selesai dan tercatat di tiket!');
+      invalidateVisit();
+    },
+    onError: (error: Error) => {
+      showError(`Gagal menutup kunjungan: ${error.message}`);
+    },
+  });
+
+  const handlePhotoChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    const valid = selected.filter((file) => {
+      if (!ALLOWED_FILE_TYPES.includes(file.type) || !file.type.startsWith('image/')) {
+        showError(`File ${file.name} bukan foto yang didukung (JPG, PNG, GIF).`);
+        return false;
+      }
+      if (file.size > MAX_FILE_SIZE_MB * 1024 * 1024) {
+        showError(`File ${file.name} melebihi ukuran maksimum ${MAX_FILE_SIZE_MB}MB.`);
+        return false;
+      }
+      return true;
+    });
+    setPhotos((prev) => [...prev, ...valid]);
+    e.target.value = '';
+  };
+
+  if (loading || (session && role !== 'technician')) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+        <p className="text-gray-700 dark:text-gray-300">
+          {loading ? 'Memuat...' : 'Mengalihkan...'}
+        </p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+        <h1 className="text-3xl font-bold text-red-600 dark:text-red-400 mb-4">Error</h1>
+        <p className="text-lg text-gray-700 dark:text-gray-300">
+          Gagal memuat kunjungan: {error.message}
+        </p>
+      </div>
+    );
+  }
+
+  if (isLoading || !workOrder) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const whatsappNumber = formatWhatsappNumber(workOrder.tickets?.customer_whatsapp_e164);
+  const isClosing = completeMutation.isPending;
+
+  return (
+    <div className="mx-auto max-w-xl space-y-4">
+      <Link to="/visits" className="inline-flex items-center text-sm text-gray-600 hover:text-primary">
+        <ArrowLeft className="mr-1 h-4 w-4" /> Kunjungan Saya
+      </Link>
+
+      <Card>
+        <CardHeader className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm text-gray-500">{workOrder.tickets?.ticket_number}</span>
+            <span className={`px-2 py-1 rounded-full text-xs font-semibold ${getWorkOrderBadgeClass(workOrder.status)}`}>
+              {WORK_ORDER_STATUS_LABELS[workOrder.status]}
+            </span>
+          </div>
+          <CardTitle className="text-xl">{workOrder.tickets?.title}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3 text-sm">
+          <p>{formatWorkOrderWindow(workOrder.scheduled_start, workOrder.scheduled_end)}</p>
+          <p>
+            <span className="text-gray-500">Pelanggan:</span> {workOrder.tickets?.customer_name || '-'}
+            {workOrder.tickets?.no_plat_kendaraan && ` · ${workOrder.tickets.no_plat_kendaraan}`}
+          </p>
+          <p className="flex items-start gap-1">
+            <MapPin className="h-4 w-4 shrink-0 mt-0.5 text-gray-500" />
+            <span className="whitespace-pre-wrap">{workOrder.address}</span>
+          </p>
+          {workOrder.required_parts.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="text-gray-500">Suku cadang:</span>
+              {workOrder.required_parts.map((part) => (
+                <Badge key={part} variant="secondary">{part}</Badge>
+              ))}
+            </div>
+          )}
+          {workOrder.notes && <p className="text-gray-600 whitespace-pre-wrap">{workOrder.notes}</p>}
+          <div className="grid grid-cols-2 gap-2 pt-2">
+            <Button variant="outline" asChild>
+              <a
+                href={`https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(workOrder.address)}`}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                <Navigation className="mr-2 h-4 w-4" /> Navigasi
+              </a>
+            </Button>
+            {whatsappNumber && (
+              <Button variant="outline" asChild>
+                <a href={`https://wa.me/${whatsappNumber}`} target="_blank" rel="noopener noreferrer">
+                  <MessageCircle className="mr-2 h-4 w-4" /> WhatsApp
+                </a>
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {workOrder.status === 'scheduled' && (
+        <Button className="w-full h-12 text-base" onClick={() => checkInMutation.mutate()} disabled={checkInMutation.isPending}>
+          {checkInMutation.isPending ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <MapPin className="mr-2 h-5 w-5" />}
+          Check-in di Lokasi
+        </Button>
+      )}
+
+      {workOrder.status === 'checked_in' && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Tutup Kunjungan</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-5">
+            <div className="space-y-2">
+              <Label htmlFor="visit-photos">Foto Bukti</Label>
+              <Input
+                id="visit-photos"
+                type="file"
+                accept="image/jpeg,image/png,image/gif"
+                capture="environment"
+                multiple
+                onChange={handlePhotoChange}
+                disabled={isClosing}
+              />
+              {photos.length > 0 ? (
+                <ul className="space-y-1 text-sm">
+                  {photos.map((photo, index) => (
+                    <li key={`${photo.name}-${index}`} className="flex items-center justify-between gap-2">
+                      <span className="flex items-center gap-2 truncate">
+                        <Camera className="h-4 w-4 shrink-0 text-gray-500" /> {photo.name}
+                      </span>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setPhotos((prev) => prev.filter((_, i) => i !== index))}
+                        disabled={isClosing}
+                        aria-label="Hapus foto"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-xs text-gray-500">Foto unit terpasang, posisi perangkat dan kondisi kendaraan.</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="visit-summary">Pekerjaan yang Dilakukan</Label>
+              <Textarea
+                id="visit-summary"
+                value={workSummary}
+                onChange={(e) => setWorkSummary(e.target.value)}
+                rows={4}
+                placeholder="Contoh: GPS lama rusak, diganti unit baru dan kabel power. Sinyal sudah online."
+                disabled={isClosing}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="visit-signoff-name">Nama Pelanggan</Label>
+              <Input
+                id="visit-signoff-name"
+                value={signoffName}
+                onChange={(e) => setSignoffName(e.target.value)}
+                placeholder={workOrder.tickets?.customer_name || 'Nama penerima'}
+                disabled={isClosing}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Tanda Tangan Pelanggan</Label>
+              <SignaturePad onChange={setSignature} disabled={isClosing} />
+            </div>
+
+            <Button className="w-full h-12 text-base" onClick={() => completeMutation.mutate()} disabled={isClosing}>
+              {isClosing ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <CheckCircle2 className="mr-2 h-5 w-5" />}
+              Selesaikan Kunjungan
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {workOrder.status === 'completed' && (
+        <Card className="border-green-200 bg-green-50">
+          <CardContent className="p-4 space-y-1 text-sm">
+            <p className="font-medium text-green-800">Kunjungan selesai</p>
+            <p className="whitespace-pre-wrap">{workOrder.work_summary}</p>
+            <p className="text-xs text-gray-600">
+              Diterima oleh {workOrder.signoff_name}
+              {workOrder.completed_at && ` · ${new Date(workOrder.completed_at).toLocaleString('id-ID')}`}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {workOrder.status === 'cancelled' && (
+        <p className="text-sm text-gray-500">Kunjungan ini dibatalkan oleh customer service.</p>
+      )}
+    </div>
+  );
+};
+
+export default TechnicianVisit;
@@ -0,0 +1,128 @@
+import { useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { ChevronRight, Loader2, MapPin } from 'lucide-react';
+
+import { useSession } from '@/components/SessionContextProvider';
+import { Card, CardContent } from '@/components/ui/card';
+import { showError } from '@/utils/toast';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  WORK_ORDER_STATUS_LABELS,
+  WORK_ORDER_TICKET_SELECT,
+  WorkOrderWithTicket,
+  formatWorkOrderWindow,
+  getWorkOrderBadgeClass,
+} from '@/utils/workOrders';
+
+const VisitCard = ({ workOrder }: { workOrder: WorkOrderWithTicket }) => (
+  <Link to={`/visits/${workOrder.id}`}>
+    <Card className="hover:border-primary transition-colors">
+      <CardContent className="p-4 flex items-center gap-3">
+        <div className="flex-1 min-w-0 space-y-1">
+          <div className="flex items-center gap-2">
+            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getWorkOrderBadgeClass(workOrder.status)}`}>
+              {WORK_ORDER_STATUS_LABELS[workOrder.status]}
+            </span>
+            <span className="text-xs text-gray-500">{workOrder.tickets?.ticket_number}</span>
+          </div>
+          <p className="font-medium truncate">
+            {workOrder.tickets?.customer_name || workOrder.tickets?.title || 'Tiket'}
+            {workOrder.tickets?.no_plat_kendaraan && ` · ${workOrder.tickets.no_plat_kendaraan}`}
+          </p>
+          <p className="text-sm text-gray-600">{formatWorkOrderWindow(workOrder.scheduled_start, workOrder.scheduled_end)}</p>
+          <p className="text-sm text-gray-500 flex items-start gap-1">
+            <MapPin className="h-4 w-4 shrink-0 mt-0.5" />
+            <span className="line-clamp-2">{workOrder.address}</span>
+          </p>
+        </div>
+        <ChevronRight className="h-5 w-5 text-gray-400 shrink-0" />
+      </CardContent>
+    </Card>
+  </Link>
+);
+
+const TechnicianVisits = () => {
+  const { session, loading, role, user } = useSession();
+  const navigate = useNavigate();
+
+  // Redirect if not technician
+  useEffect(() => {
+    if (!loading && (!session || role !== 'technician')) {
+      showError('Anda tidak memiliki izin untuk mengakses halaman ini.');
+      navigate('/');
+    }
+  }, [session, loading, role, navigate]);
+
+  const { data: workOrders, isLoading, error } = useQuery<WorkOrderWithTicket[], Error>({
+    queryKey: ['myWorkOrders', user?.id],
+    queryFn: async () => {
+      if (!user?.id) return [];
+      const { data, error } = await supabase
+        .from('work_orders')
+        .select(WORK_ORDER_TICKET_SELECT)
+        .eq('technician_id', user.id)
+        .neq('status', 'cancelled')
+        .order('scheduled_start', { ascending: true });
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!session && role === 'technician' && !!user?.id,
+  });
+
+  if (loading || (session && role !== 'technician')) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+        <p className="text-gray-700 dark:text-gray-300">
+          {loading ? 'Memuat...' : 'Mengalihkan...'}
+        </p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+        <h1 className="text-3xl font-bold text-red-600 dark:text-red-400 mb-4">Error</h1>
+        <p className="text-lg text-gray-700 dark:text-gray-300">
+          Gagal memuat kunjungan: {error.message}
+        </p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const activeVisits = workOrders?.filter((workOrder) => workOrder.status !== 'completed') ?? [];
+  const completedVisits = workOrders?.filter((workOrder) => workOrder.status === 'completed').reverse() ?? [];
+
+  return (
+    <div className="mx-auto max-w-xl space-y-6">
+      <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Kunjungan Saya</h1>
+
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold uppercase text-gray-500">Perlu Dikerjakan ({activeVisits.length})</h2>
+        {activeVisits.length ? (
+          activeVisits.map((workOrder) => <VisitCard key={workOrder.id} workOrder={workOrder} />)
+        ) : (
+          <p className="text-sm text-gray-500">Tidak ada kunjungan terjadwal.</p>
+        )}
+      </section>
+
+      {completedVisits.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-sm font-semibold uppercase text-gray-500">Selesai</h2>
+          {completedVisits.map((workOrder) => <VisitCard key={workOrder.id} workOrder={workOrder} />)}
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default TechnicianVisits;
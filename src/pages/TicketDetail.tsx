@@ -1,12 +1,18 @@
 import { useEffect, useState, useRef } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { Link, useParams, useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Loader2, ArrowLeft, User, Tag, Info, XCircle, Edit, Save, Trash2, UploadCloud, File as FileIcon } from 'lucide-react';
+import { Loader2, ArrowLeft, ArrowDownCircle, ArrowUpCircle, User, Tag, Info, XCircle, Edit, Save, Trash2, UploadCloud, File as FileIcon } from 'lucide-react';
 import { z } from 'zod';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 
 import { useSession } from '@/components/SessionContextProvider';
+import { TicketConversation } from '@/components/TicketConversation';
+import { TicketTimeline } from '@/components/TicketTimeline';
+import { HandoffTicketDialog } from '@/components/HandoffTicketDialog';
+import { WorkOrdersCard } from '@/components/WorkOrdersCard';
+import { FleetBadge } from '@/components/FleetBadge';
+import { DeviceDiagnosticsCard } from '@/components/DeviceDiagnosticsCard';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import {
@@ -28,9 +34,21 @@ import {
 } from '@/components/ui/select';
 import { showSuccess, showError } from '@/utils/toast';
 import { supabase } from '@/integrations/supabase/client';
-import { getSlaStatus } from '@/utils/sla';
+import { FIRST_RESPONSE_STATUS_LABELS, getFirstResponseSlaStatus, getSlaBadgeClass, getSlaStatus } from '@/utils/sla';
+import { useSlaPolicies } from '@/hooks/use-sla-policies';
+import { useBusinessCalendar } from '@/hooks/use-business-calendar';
+import { useAgentSkills } from '@/hooks/use-agent-skills';
+import { useTeams } from '@/hooks/use-teams';
+import { NO_TEAM_SENTINEL } from '@/utils/teams';
+import { ESCALATION_LEVEL_LABELS, EscalationLevel, HandoffDirection, getEscalationBadgeClass } from '@/utils/escalation';
+import { agentHasCategorySkill } from '@/utils/agentSkills';
+import { TICKET_FLEET_SELECT, TicketFleetEmbed } from '@/utils/fleets';
+import { TICKET_SOURCE_LABELS, TicketSource } from '@/utils/ticketCategories';
 import { buildTicketWhatsappLink } from '@/utils/whatsapp';
+import { TICKET_STATUSES, TICKET_STATUS_LABELS, TicketStatus, StatusTransition, getAllowedStatuses, getStatusBadgeClass } from '@/utils/ticketStatus';
 import { ALLOWED_FILE_TYPES, MAX_FILE_SIZE_MB, uploadFilesToStorage } from '@/utils/fileUpload';
+import { SIMCARD_OPERATOR_LABELS, SimcardOperator } from '@shared/simcardNumber';
+import { parsePhoneNumber } from '@shared/phoneNumber';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -53,19 +71,33 @@ interface Ticket {
   title: string;
   no_plat_kendaraan: string | null;
   no_simcard_gps: string | null;
+  simcard_operator: SimcardOperator | null;
   description: string | null;
-  status: 'open' | 'in_progress' | 'resolved' | 'closed';
+  status: TicketStatus;
   priority: 'low' | 'medium' | 'high' | 'urgent';
   created_by: string;
   assigned_to: string | null;
+  team_id: string | null;
+  escalation_level: EscalationLevel;
   customer_name: string | null;
   customer_whatsapp: string | null;
+  customer_whatsapp_e164: string | null;
+  customer_id: string | null;
+  vehicle_id: string | null;
+  gps_device_id: string | null;
   resolved_at: string | null;
+  closed_at: string | null;
+  sla_paused_at: string | null;
+  sla_paused_seconds: number;
+  sla_priority: string;
+  first_response_at: string | null;
   resolution_steps: string | null;
   category: string | null;
+  source: TicketSource;
   attachments: string[] | null;
   creator_profile: { first_name: string | null; last_name: string | null; email: string | null; } | null;
   assigned_to_profile: { first_name: string | null; last_name: string | null; email: string | null; } | null;
+  vehicle: TicketFleetEmbed | null;
 }
 
 interface Profile {
@@ -80,15 +112,22 @@ interface Profile {
 const ticketSchema = z.object({
   title: z.string().min(1, 'Judul tidak boleh kosong'),
   description: z.string().optional(),
-  status: z.enum(['open', 'in_progress', 'resolved', 'closed']),
+  status: z.enum(TICKET_STATUSES),
   priority: z.enum(['low', 'medium', 'high', 'urgent']),
   assigned_to: z.string().optional(),
+  team_id: z.string().optional(),
   customer_name: z.string().optional(),
-  customer_whatsapp: z.string().optional(),
+  customer_whatsapp: z
+    .string()
+    .optional()
+    .refine((value) => !value?.trim() || !parsePhoneNumber(value).error, { message: 'Nomor WhatsApp tidak valid.' }),
   resolution_steps: z.string().optional(),
   category: z.string().optional(),
   attachments: z.array(z.string()).optional(),
-});
+}).refine(
+  (values) => values.status !== 'resolved' || !!values.resolution_steps?.trim(),
+  { message: 'Langkah penyelesaian wajib diisi sebelum tiket diselesaikan.', path: ['resolution_steps'] },
+);
 
 const TicketDetail = () => {
   const { id } = useParams<{ id: string }>();
@@ -96,6 +135,7 @@ const TicketDetail = () => {
   const queryClient = useQueryClient();
   const { session, loading, role, user } = useSession();
   const [isEditing, setIsEditing] = useState(false);
+  const [handoffDirection, setHandoffDirection] = useState<HandoffDirection | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
@@ -119,7 +159,8 @@ const TicketDetail = () => {
         .select(`
           *,
           creator_profile:profiles!tickets_created_by_fkey(first_name, last_name, email),
-          assigned_to_profile:profiles!tickets_assigned_to_fkey(first_name, last_name, email)
+          assigned_to_profile:profiles!tickets_assigned_to_fkey(first_name, last_name, email),
+          ${TICKET_FLEET_SELECT}
         `)
         .eq('id', id)
         .single();
@@ -130,6 +171,21 @@ const TicketDetail = () => {
     enabled: !!session,
   });
 
+  // How many tickets this customer has filed, so repeat callers stand out
+  const { data: customerTicketCount } = useQuery<number, Error>({
+    queryKey: ['customerTicketCount', ticket?.customer_id],
+    queryFn: async () => {
+      const { count, error } = await supabase
+        .from('tickets')
+        .select('id', { count: 'exact', head: true })
+        .eq('customer_id', ticket?.customer_id);
+
+      if (error) throw new Error(error.message);
+      return count ?? 0;
+    },
+    enabled: !!ticket?.customer_id && (role === 'admin' || role === 'customer_service'),
+  });
+
   // Fetch agents for assignment
   const { data: agents, isLoading: isLoadingAgents } = useQuery<Profile[], Error>({
     queryKey: ['agents'],
@@ -144,6 +200,28 @@ const TicketDetail = () => {
     enabled: !!session && (role === 'admin' || role === 'customer_service'),
   });
 
+  const { data: agentSkills = [] } = useAgentSkills(!!session && (role === 'admin' || role === 'customer_service'));
+
+  const { data: teams } = useTeams(!!session && (role === 'admin' || role === 'customer_service'));
+
+  const { data: slaPolicies } = useSlaPolicies();
+
+  const { data: businessCalendar } = useBusinessCalendar();
+
+  // Legal status transitions, enforced server-side by the enforce_ticket_status_transition trigger
+  const { data: statusTransitions = [] } = useQuery<StatusTransition[], Error>({
+    queryKey: ['ticketStatusTransitions'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ticket_status_transitions')
+        .select('from_status, to_status');
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!session,
+    staleTime: Infinity,
+  });
+
   const form = useForm<z.infer<typeof ticketSchema>>({
     resolver: zodResolver(ticketSchema),
     defaultValues: {
@@ -152,6 +230,7 @@ const TicketDetail = () => {
       status: 'open',
       priority: 'medium',
       assigned_to: '',
+      team_id: '',
       customer_name: '',
       customer_whatsapp: '',
       resolution_steps: '',
@@ -164,6 +243,7 @@ const TicketDetail = () => {
       status: ticket?.status || 'open',
       priority: ticket?.priority || 'medium',
       assigned_to: ticket?.assigned_to || '',
+      team_id: ticket?.team_id || '',
       customer_name: ticket?.customer_name || '',
       customer_whatsapp: ticket?.customer_whatsapp || '',
       resolution_steps: ticket?.resolution_steps || '',
@@ -180,6 +260,7 @@ const TicketDetail = () => {
         status: ticket.status || 'open',
         priority: ticket.priority || 'medium',
         assigned_to: ticket.assigned_to || '',
+        team_id: ticket.team_id || '',
         customer_name: ticket.customer_name || '',
         customer_whatsapp: ticket.customer_whatsapp || '',
         resolution_steps: ticket.resolution_steps || '',
@@ -244,7 +325,7 @@ const TicketDetail = () => {
   // Update ticket mutation
   const updateTicketMutation = useMutation({
     mutationFn: async (updatedTicket: z.infer<typeof ticketSchema>) => {
-      const { status: newStatusFromForm, assigned_to: newAssignedToFromForm, resolution_steps, attachments, ...rest } = updatedTicket;
+      const { status: newStatusFromForm, assigned_to: newAssignedToFromForm, team_id: teamIdFromForm, attachments, ...rest } = updatedTicket;
 
       let finalStatus = newStatusFromForm;
       // Convert sentinel to null for database
@@ -263,23 +344,15 @@ const TicketDetail = () => {
         finalStatus = 'open';
       }
 
+      // resolved_at / closed_at are maintained by the database trigger
       const payload: Record<string, unknown> = { 
         ...rest, 
         status: finalStatus, 
         assigned_to: finalAssignedTo, 
+        team_id: teamIdFromForm === NO_TEAM_SENTINEL || !teamIdFromForm ? null : teamIdFromForm,
         attachments 
       };
 
-      if (finalStatus === 'resolved' && !ticket?.resolved_at) {
-        payload.resolved_at = new Date().toISOString();
-        payload.resolution_steps = resolution_steps;
-      } else if (finalStatus !== 'resolved' && ticket?.resolved_at) {
-        payload.resolved_at = null;
-        payload.resolution_steps = null;
-      } else if (finalStatus === 'resolved' && ticket?.resolved_at) {
-        payload.resolution_steps = resolution_steps;
-      }
-
       const { data, error } = await supabase
         .from('tickets')
         .update(payload)
@@ -292,6 +365,7 @@ const TicketDetail = () => {
     onSuccess: () => {
       showSuccess('Tiket berhasil diperbarui!');
       queryClient.invalidateQueries({ queryKey: ['ticket', id] });
+      queryClient.invalidateQueries({ queryKey: ['ticketEvents', id] });
       queryClient.invalidateQueries({ queryKey: ['latestTickets'] });
       queryClient.invalidateQueries({ queryKey: ['activeTickets'] });
       queryClient.invalidateQueries({ queryKey: ['resolvedTicketsByAgentCount'] });
@@ -305,6 +379,26 @@ const TicketDetail = () => {
     },
   });
 
+  // Sharing the ticket to the customer over WhatsApp counts as the first response
+  const recordFirstResponseMutation = useMutation({
+    mutationFn: async (ticketId: string) => {
+      const { error } = await supabase.rpc('record_first_response', {
+        p_ticket_id: ticketId,
+        p_source: 'whatsapp_share',
+      });
+
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ticket', id] });
+      queryClient.invalidateQueries({ queryKey: ['ticketEvents', id] });
+      queryClient.invalidateQueries({ queryKey: ['tickets'] });
+    },
+    onError: (error: Error) => {
+      showError(`Gagal mencatat respon pertama: ${error.message}`);
+    },
+  });
+
   // Delete ticket mutation
   const deleteTicketMutation = useMutation({
     mutationFn: async (ticketId: string) => {
@@ -466,20 +560,25 @@ const TicketDetail = () => {
     ? [ticket.assigned_to_profile.first_name, ticket.assigned_to_profile.last_name].filter(Boolean).join(' ') || ticket.assigned_to_profile.email
     : 'Belum Ditugaskan';
 
-  const slaStatus = getSlaStatus(ticket.created_at, ticket.resolved_at, ticket.status);
-  const slaBadgeClass =
-    slaStatus === 'green'
-      ? 'bg-green-100 text-green-800'
-      : slaStatus === 'yellow'
-      ? 'bg-yellow-100 text-yellow-800'
-      : 'bg-red-100 text-red-800';
+  // Agents skilled in the (possibly edited) category are listed first, as routing prefers them
+  const matchCategory = form.watch('category') || ticket.category;
+  const sortedAgents = [...(agents ?? [])].sort(
+    (a, b) =>
+      Number(agentHasCategorySkill(agentSkills, b.id, matchCategory)) -
+      Number(agentHasCategorySkill(agentSkills, a.id, matchCategory))
+  );
+
+  const slaStatus = getSlaStatus(ticket, slaPolicies, businessCalendar);
+  const slaBadgeClass = getSlaBadgeClass(slaStatus);
+  const firstResponseStatus = getFirstResponseSlaStatus(ticket, slaPolicies, businessCalendar);
 
   const canEdit = role === 'admin' || role === 'customer_service';
   const canDelete = role === 'admin';
+  const customerPhone = parsePhoneNumber(ticket.customer_whatsapp_e164).phone;
 
   const handleShareToTeam = () => {
     const whatsappLink = buildTicketWhatsappLink({
-      phoneNumber: ticket.customer_whatsapp,
+      phoneNumber: ticket.customer_whatsapp_e164,
       audience: 'internal',
       ticket,
     });
@@ -488,11 +587,14 @@ const TicketDetail = () => {
 
   const handleShareToCustomer = () => {
     const whatsappLink = buildTicketWhatsappLink({
-      phoneNumber: ticket.customer_whatsapp,
+      phoneNumber: ticket.customer_whatsapp_e164,
       audience: 'customer',
       ticket,
     });
     window.open(whatsappLink, '_blank', 'noopener,noreferrer');
+    if (!ticket.first_response_at) {
+      recordFirstResponseMutation.mutate(ticket.id);
+    }
   };
 
   const dateTimeFormatOptions: Intl.DateTimeFormatOptions = {
@@ -523,6 +625,18 @@ const TicketDetail = () => {
         </Button>
         <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Detail Tiket #{ticket.ticket_number}</h1>
         <div className="flex gap-2">
+          {canEdit && !isEditing && ticket.status !== 'resolved' && ticket.status !== 'closed' && (
+            <>
+              {ticket.escalation_level > 1 && (
+                <Button variant="outline" onClick={() => setHandoffDirection('de_escalate')}>
+                  <ArrowDownCircle className="mr-2 h-4 w-4" /> De-eskalasi
+                </Button>
+              )}
+              <Button variant="outline" onClick={() => setHandoffDirection('escalate')}>
+                <ArrowUpCircle className="mr-2 h-4 w-4" /> Eskalasi
+              </Button>
+            </>
+          )}
           {canEdit && (
             <Button onClick={() => setIsEditing(!isEditing)} variant={isEditing ? 'secondary' : 'default'}>
               {isEditing ? (
@@ -629,24 +743,50 @@ const TicketDetail = () => {
               <div className="space-y-2">
                 <p><strong>No Tiket:</strong> {ticket.ticket_number}</p>
                 <p><strong>Dibuat Pada:</strong> {new Date(ticket.created_at).toLocaleString('id-ID', dateTimeFormatOptions)}</p>
-                <p><strong>NO Plat Kendaraan:</strong> {ticket.no_plat_kendaraan || '-'}</p>
-                <p><strong>No Simcard GPS:</strong> {ticket.no_simcard_gps || '-'}</p>
+                <p><strong>Sumber:</strong> {TICKET_SOURCE_LABELS[ticket.source] ?? ticket.source}</p>
+                <p>
+                  <strong>NO Plat Kendaraan:</strong>{' '}
+                  {ticket.vehicle_id ? (
+                    <Link to={`/vehicles/${ticket.vehicle_id}`} className="text-blue-600 hover:underline dark:text-blue-400">
+                      {ticket.no_plat_kendaraan}
+                    </Link>
+                  ) : (
+                    ticket.no_plat_kendaraan || '-'
+                  )}
+                </p>
+                <p><strong>No Simcard GPS:</strong> {ticket.no_simcard_gps || '-'}
+                  {ticket.simcard_operator && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-sky-100 text-sky-800">
+                      {SIMCARD_OPERATOR_LABELS[ticket.simcard_operator]}
+                    </span>
+                  )}
+                </p>
                 <p><strong>Status:</strong>
-                  <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-semibold capitalize ${
-                    ticket.status === 'open' ? 'bg-yellow-100 text-yellow-800' :
-                    ticket.status === 'in_progress' ? 'bg-blue-100 text-blue-800' :
-                    ticket.status === 'resolved' ? 'bg-green-100 text-green-800' :
-                    'bg-gray-100 text-gray-800'
-                  }`}>
+                  <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-semibold capitalize ${getStatusBadgeClass(ticket.status)}`}>
                     {ticket.status.replaceAll('_', ' ')}
                   </span>
                 </p>
+                <p><strong>Tier:</strong>
+                  <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-semibold ${getEscalationBadgeClass(ticket.escalation_level)}`}>
+                    {ESCALATION_LEVEL_LABELS[ticket.escalation_level]}
+                  </span>
+                </p>
                 <p><strong>Prioritas:</strong>
                   <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-semibold capitalize ${priorityBadgeClass(ticket.priority)}`}>
                     {ticket.priority}
                   </span>
                 </p>
-                <p><strong>SLA:</strong>
+                <p><strong>Respon Pertama:</strong>
+                  <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-semibold ${getSlaBadgeClass(firstResponseStatus)}`}>
+                    {FIRST_RESPONSE_STATUS_LABELS[firstResponseStatus]}
+                  </span>
+                  {ticket.first_response_at && (
+                    <span className="ml-2 text-sm text-gray-600 dark:text-gray-400">
+                      {new Date(ticket.first_response_at).toLocaleString('id-ID', dateTimeFormatOptions)}
+                    </span>
+                  )}
+                </p>
+                <p><strong>SLA Penyelesaian:</strong>
                   <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-semibold capitalize ${slaBadgeClass}`}>
                     {slaStatus}
                   </span>
@@ -654,6 +794,9 @@ const TicketDetail = () => {
                 {ticket.resolved_at && (
                   <p><strong>Diselesaikan Pada:</strong> {new Date(ticket.resolved_at).toLocaleString('id-ID', dateTimeFormatOptions)}</p>
                 )}
+                {ticket.closed_at && (
+                  <p><strong>Ditutup Pada:</strong> {new Date(ticket.closed_at).toLocaleString('id-ID', dateTimeFormatOptions)}</p>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -667,20 +810,36 @@ const TicketDetail = () => {
             <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div className="space-y-2">
                 <p><strong>Nama:</strong> {ticket.customer_name || '-'}</p>
+                {ticket.vehicle?.fleet_account && (
+                  <p><strong>Perusahaan:</strong> <FleetBadge fleet={ticket.vehicle.fleet_account} /></p>
+                )}
                 <p>
                   <strong>WhatsApp:</strong>{' '}
-                  {ticket.customer_whatsapp ? (
+                  {customerPhone?.whatsappCapable ? (
                     <button
                       onClick={handleShareToCustomer}
                       className="text-blue-600 hover:underline dark:text-blue-400"
                       title="Kirim ke Konsumen via WhatsApp"
                     >
-                      {ticket.customer_whatsapp}
+                      {customerPhone.e164}
                     </button>
                   ) : (
-                    '-'
+                    customerPhone?.e164 || ticket.customer_whatsapp || '-'
+                  )}
+                  {customerPhone && customerPhone.countryCode !== '62' && (
+                    <span className="ml-2 text-xs text-gray-500">{customerPhone.country}</span>
+                  )}
+                  {customerPhone?.lineType === 'landline' && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-amber-100 text-amber-800">
+                      Telepon rumah/kantor, tidak bisa WhatsApp
+                    </span>
                   )}
                 </p>
+                {ticket.customer_id && canEdit && (
+                  <Link to={`/customers/${ticket.customer_id}`} className="inline-block text-sm text-blue-600 hover:underline dark:text-blue-400">
+                    Lihat profil pelanggan{customerTicketCount ? ` (${customerTicketCount} tiket)` : ''}
+                  </Link>
+                )}
               </div>
               <div className="space-y-2">
                 <p><strong>Dibuat Oleh:</strong> <span className="font-medium text-gray-900 dark:text-white">{creatorName}</span></p>
@@ -714,9 +873,14 @@ const TicketDetail = () => {
                           </FormControl>
                           <SelectContent>
                             <SelectItem value={UNASSIGNED_SENTINEL}>Belum Ditugaskan</SelectItem>
-                            {agents?.map((agent) => (
+                            {sortedAgents.map((agent) => (
                               <SelectItem key={agent.id} value={agent.id}>
                                 {[agent.first_name, agent.last_name].filter(Boolean).join(' ') || agent.email}
+                                {agentHasCategorySkill(agentSkills, agent.id, matchCategory) && (
+                                  <span className="ml-2 px-1.5 py-0.5 rounded-full text-[10px] font-semibold bg-green-100 text-green-800">
+                                    Cocok
+                                  </span>
+                                )}
                               </SelectItem>
                             ))}
                           </SelectContent>
@@ -726,6 +890,31 @@ const TicketDetail = () => {
                     )}
                   />
                   <p><strong>Agen Saat Ini:</strong> {assignedAgentName}</p>
+                  <FormField
+                    control={form.control}
+                    name="team_id"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Antrian Tim</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value || NO_TEAM_SENTINEL} disabled={!isEditing}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Pilih tim" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={NO_TEAM_SENTINEL}>Tanpa Tim</SelectItem>
+                            {teams?.map((team) => (
+                              <SelectItem key={team.id} value={team.id}>
+                                {team.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 </div>
                 <div className="space-y-2">
                   <FormField
@@ -741,10 +930,11 @@ const TicketDetail = () => {
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            <SelectItem value="open">Open</SelectItem>
-                            <SelectItem value="in_progress">In Progress</SelectItem>
-                            <SelectItem value="resolved">Resolved</SelectItem>
-                            <SelectItem value="closed">Closed</SelectItem>
+                            {getAllowedStatuses(ticket.status, statusTransitions).map((status) => (
+                              <SelectItem key={status} value={status}>
+                                {TICKET_STATUS_LABELS[status]}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                         <FormMessage />
@@ -885,6 +1075,48 @@ const TicketDetail = () => {
           )}
         </form>
       </Form>
+
+      <div className="mt-6">
+        <TicketConversation
+          ticketId={ticket.id}
+          currentUserId={user?.id}
+          canPost={canEdit}
+          canDeleteAll={canDelete}
+        />
+      </div>
+
+      {canEdit && (
+        <div className="mt-6">
+          <WorkOrdersCard
+            ticketId={ticket.id}
+            canSchedule={ticket.status !== 'resolved' && ticket.status !== 'closed'}
+          />
+        </div>
+      )}
+
+      {canEdit && (
+        <div className="mt-6">
+          <DeviceDiagnosticsCard
+            ticketId={ticket.id}
+            hasDevice={!!ticket.no_simcard_gps || !!ticket.gps_device_id}
+          />
+        </div>
+      )}
+
+      {canEdit && (
+        <div className="mt-6">
+          <TicketTimeline ticketId={ticket.id} />
+        </div>
+      )}
+
+      {handoffDirection && (
+        <HandoffTicketDialog
+          isOpen={!!handoffDirection}
+          onOpenChange={(open) => { if (!open) setHandoffDirection(null); }}
+          direction={handoffDirection}
+          ticket={ticket}
+        />
+      )}
     </div>
   );
 };
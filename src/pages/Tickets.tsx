@@ -4,6 +4,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Loader2, Eye, Hand } from 'lucide-react';
 
 import { useSession } from '@/components/SessionContextProvider';
+import { FleetBadge } from '@/components/FleetBadge';
 import { Button } from '@/components/ui/button';
 import {
   Table,
@@ -19,10 +20,32 @@ import {
   TabsList,
   TabsTrigger,
 } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { showSuccess, showError } from '@/utils/toast';
 import { supabase } from '@/integrations/supabase/client';
-import { getSlaStatus } from '@/utils/sla';
+import {
+  FIRST_RESPONSE_STATUS_LABELS,
+  formatSlaCountdown,
+  getFirstResponseSlaStatus,
+  getSlaBadgeClass,
+  getSlaDeadlineStatus,
+  getSlaStatus,
+} from '@/utils/sla';
+import { useSlaPolicies } from '@/hooks/use-sla-policies';
+import { useBusinessCalendar } from '@/hooks/use-business-calendar';
+import { useNow } from '@/hooks/use-now';
 import { buildTicketWhatsappLink, formatWhatsappNumber } from '@/utils/whatsapp';
+import { ACTIVE_TICKET_STATUSES, TicketStatus, getStatusBadgeClass } from '@/utils/ticketStatus';
+import { ESCALATION_LEVEL_LABELS, EscalationLevel, getEscalationBadgeClass } from '@/utils/escalation';
+import { TICKET_FLEET_SELECT, TicketFleetEmbed } from '@/utils/fleets';
+import { TICKET_SOURCE_LABELS, TicketSource } from '@/utils/ticketCategories';
+import { SIMCARD_OPERATORS, SIMCARD_OPERATOR_LABELS, SimcardOperator } from '@shared/simcardNumber';
 
 // Define ticket status and priority enums
 const TICKET_PRIORITIES = ['low', 'medium', 'high', 'urgent'] as const;
@@ -34,16 +57,28 @@ interface Ticket {
   title: string;
   no_plat_kendaraan: string | null;
   no_simcard_gps: string | null;
+  simcard_operator: SimcardOperator | null;
   description: string | null;
-  status: 'open' | 'in_progress' | 'resolved' | 'closed';
+  status: TicketStatus;
   priority: typeof TICKET_PRIORITIES[number];
   created_by: string;
   assigned_to: string | null;
   customer_name: string | null;
   customer_whatsapp: string | null;
+  customer_whatsapp_e164: string | null;
   resolved_at: string | null;
+  sla_paused_at: string | null;
+  sla_paused_seconds: number;
+  sla_priority: string;
+  first_response_at: string | null;
+  sla_warning_at: string | null;
+  sla_due_at: string | null;
+  sla_breached_at: string | null;
   category: string;
+  escalation_level: EscalationLevel;
+  source: TicketSource;
   assigned_to_profile: { first_name: string | null; last_name: string | null; email: string | null; } | null;
+  vehicle: TicketFleetEmbed | null;
 }
 
 const Tickets = () => {
@@ -51,6 +86,9 @@ const Tickets = () => {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [activeTab, setActiveTab] = useState<string>('unassigned');
+  const [sortBy, setSortBy] = useState<'created_at' | 'sla_due_at'>('created_at');
+  const [operatorFilter, setOperatorFilter] = useState<SimcardOperator | 'all'>('all');
+  const now = useNow();
   
   // MED-01: Track pending state per ticket ID
   const [pendingTicketId, setPendingTicketId] = useState<string | null>(null);
@@ -63,41 +101,67 @@ const Tickets = () => {
     }
   }, [session, loading, role, navigate]);
 
+  // The agent's own team, for the team queue tab
+  const { data: myTeamId } = useQuery<string | null, Error>({
+    queryKey: ['myTeam', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('team_id')
+        .eq('id', user?.id)
+        .single();
+
+      if (error) throw new Error(error.message);
+      return data.team_id;
+    },
+    enabled: !!session && (role === 'admin' || role === 'customer_service') && !!user?.id,
+  });
+
   // Fetch tickets based on active tab
   const { data: tickets, isLoading, error } = useQuery<Ticket[], Error>({
-    queryKey: ['tickets', activeTab, user?.id],
+    queryKey: ['tickets', activeTab, user?.id, sortBy, myTeamId, operatorFilter],
     queryFn: async () => {
-      let query = supabase.from('tickets').select('*, ticket_number, assigned_to_profile:profiles!tickets_assigned_to_fkey(first_name, last_name, email)');
+      let query = supabase.from('tickets').select(`*, ticket_number, assigned_to_profile:profiles!tickets_assigned_to_fkey(first_name, last_name, email), ${TICKET_FLEET_SELECT}`);
 
       if (activeTab === 'unassigned') {
         query = query.eq('status', 'open').is('assigned_to', null);
       } else if (activeTab === 'in_progress') {
-        query = query.eq('status', 'in_progress').eq('assigned_to', user?.id);
+        query = query.in('status', ACTIVE_TICKET_STATUSES).eq('assigned_to', user?.id);
+      } else if (activeTab === 'team_queue') {
+        query = query.in('status', ACTIVE_TICKET_STATUSES).eq('team_id', myTeamId as string);
       } else if (activeTab === 'resolved') {
         query = query.eq('status', 'resolved');
       }
 
-      const { data, error } = await query.order('created_at', { ascending: false });
+      if (operatorFilter !== 'all') {
+        query = query.eq('simcard_operator', operatorFilter);
+      }
+
+      // Time remaining: soonest deadline first, paused tickets (no deadline) last
+      query = sortBy === 'sla_due_at'
+        ? query.order('sla_due_at', { ascending: true, nullsFirst: false })
+        : query.order('created_at', { ascending: false });
+
+      const { data, error } = await query;
 
       if (error) throw new Error(error.message);
       return data;
     },
-    enabled: !!session && (role === 'admin' || role === 'customer_service') && !!user?.id,
+    enabled: !!session && (role === 'admin' || role === 'customer_service') && !!user?.id && (activeTab !== 'team_queue' || !!myTeamId),
   });
 
+  const { data: slaPolicies } = useSlaPolicies();
+
+  const { data: businessCalendar } = useBusinessCalendar();
+
   // Mutation for taking a ticket
   const takeTicketMutation = useMutation({
     mutationFn: async (ticketId: string) => {
       if (!user?.id) throw new Error('Pengguna tidak terautentikasi.');
 
+      // Atomic claim: fails with "Tiket sudah diambil oleh X" if another agent got there first
       const { data, error } = await supabase
-        .from('tickets')
-        .update({
-          status: 'in_progress',
-          assigned_to: user.id,
-        })
-        .eq('id', ticketId)
-        .select()
+        .rpc('claim_ticket', { p_ticket_id: ticketId })
         .single();
 
       if (error) throw new Error(error.message);
@@ -115,6 +179,8 @@ const Tickets = () => {
     },
     onError: (err: Error) => {
       showError(`Gagal mengambil tiket: ${err.message}`);
+      // The list is stale if someone else claimed it first
+      queryClient.invalidateQueries({ queryKey: ['tickets'] });
     },
     onSettled: () => {
       setPendingTicketId(null);
@@ -148,16 +214,43 @@ const Tickets = () => {
       <h1 className="text-3xl font-bold mb-6 text-gray-900 dark:text-white">Daftar Tiket</h1>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full mb-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="unassigned">Unassigned</TabsTrigger>
           <TabsTrigger value="in_progress">My Tickets</TabsTrigger>
+          <TabsTrigger value="team_queue" disabled={!myTeamId} title={myTeamId ? undefined : 'Anda belum tergabung dalam tim'}>
+            My Team's Queue
+          </TabsTrigger>
           <TabsTrigger value="resolved">Resolved</TabsTrigger>
         </TabsList>
         <TabsContent value="unassigned"></TabsContent>
         <TabsContent value="in_progress"></TabsContent>
+        <TabsContent value="team_queue"></TabsContent>
         <TabsContent value="resolved"></TabsContent>
       </Tabs>
 
+      <div className="flex justify-end gap-2 mb-4">
+        <Select value={operatorFilter} onValueChange={(value) => setOperatorFilter(value as typeof operatorFilter)}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="Operator simcard" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Semua operator</SelectItem>
+            {SIMCARD_OPERATORS.map((operator) => (
+              <SelectItem key={operator} value={operator}>{SIMCARD_OPERATOR_LABELS[operator]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={sortBy} onValueChange={(value) => setSortBy(value as typeof sortBy)}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue placeholder="Urutkan" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="created_at">Terbaru dibuat</SelectItem>
+            <SelectItem value="sla_due_at">Sisa waktu SLA tersingkat</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
       <div className="rounded-md border">
         <Table>
           <TableHeader>
@@ -168,7 +261,9 @@ const Tickets = () => {
               <TableHead>Pelanggan</TableHead>
               <TableHead>Ditugaskan Kepada</TableHead>
               <TableHead>Status</TableHead>
+              <TableHead>Respon Pertama</TableHead>
               <TableHead>SLA</TableHead>
+              <TableHead>Jatuh Tempo</TableHead>
               <TableHead>Dibuat Pada</TableHead>
               {canManageTickets && <TableHead className="text-right">Aksi</TableHead>}
             </TableRow>
@@ -176,34 +271,50 @@ const Tickets = () => {
           <TableBody>
             {tickets?.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={canManageTickets ? 9 : 8} className="text-center py-8 text-gray-500">
+                <TableCell colSpan={canManageTickets ? 11 : 10} className="text-center py-8 text-gray-500">
                   Tidak ada tiket yang ditemukan.
                 </TableCell>
               </TableRow>
             ) : (
               tickets?.map((ticket) => {
-                const slaStatus = getSlaStatus(ticket.created_at, ticket.resolved_at, ticket.status);
-                const slaBadgeClass =
-                  slaStatus === 'green'
-                    ? 'bg-green-100 text-green-800'
-                    : slaStatus === 'yellow'
-                    ? 'bg-yellow-100 text-yellow-800'
-                    : 'bg-red-100 text-red-800';
+                const slaStatus = getSlaStatus(ticket, slaPolicies, businessCalendar);
+                const slaBadgeClass = getSlaBadgeClass(slaStatus);
+                const firstResponseStatus = getFirstResponseSlaStatus(ticket, slaPolicies, businessCalendar);
+                const isTicketStopped = ticket.status === 'resolved' || ticket.status === 'closed';
+                const countdown = isTicketStopped ? null : formatSlaCountdown(ticket, now);
                 
                 const assignedAgentName = ticket.assigned_to_profile 
                   ? [ticket.assigned_to_profile.first_name, ticket.assigned_to_profile.last_name].filter(Boolean).join(' ') || ticket.assigned_to_profile.email 
                   : 'Belum Ditugaskan';
 
-                const formattedWhatsapp = formatWhatsappNumber(ticket.customer_whatsapp);
+                const formattedWhatsapp = formatWhatsappNumber(ticket.customer_whatsapp_e164);
                 const whatsappLink = buildTicketWhatsappLink({
-                  phoneNumber: ticket.customer_whatsapp,
+                  phoneNumber: ticket.customer_whatsapp_e164,
                   ticket,
                 });
 
                 return (
                   <TableRow key={ticket.id}>
                     <TableCell className="font-medium">{ticket.ticket_number}</TableCell>
-                    <TableCell className="font-medium">{ticket.title}</TableCell>
+                    <TableCell className="font-medium">
+                      {ticket.title}
+                      {ticket.escalation_level > 1 && (
+                        <span
+                          className={`ml-2 px-1.5 py-0.5 rounded-full text-[10px] font-semibold ${getEscalationBadgeClass(ticket.escalation_level)}`}
+                          title={ESCALATION_LEVEL_LABELS[ticket.escalation_level]}
+                        >
+                          L{ticket.escalation_level}
+                        </span>
+                      )}
+                      {ticket.source === 'device_alert' && (
+                        <span
+                          className="ml-2 px-1.5 py-0.5 rounded-full text-[10px] font-semibold bg-orange-100 text-orange-800"
+                          title={TICKET_SOURCE_LABELS.device_alert}
+                        >
+                          Alert
+                        </span>
+                      )}
+                    </TableCell>
                     <TableCell>
                       <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-purple-100 text-purple-800">
                         {ticket.category}
@@ -218,32 +329,54 @@ const Tickets = () => {
                           className="text-blue-600 hover:underline dark:text-blue-400"
                           title="Share ke Tim CS"
                         >
-                          {ticket.customer_name || ticket.customer_whatsapp}
+                          {ticket.customer_name || ticket.customer_whatsapp_e164}
                         </a>
                       ) : (
                         ticket.customer_name || '-'
                       )}
+                      {ticket.vehicle?.fleet_account && (
+                        <div className="mt-1">
+                          <FleetBadge fleet={ticket.vehicle.fleet_account} />
+                        </div>
+                      )}
                     </TableCell>
                     <TableCell>{assignedAgentName}</TableCell>
                     <TableCell>
-                      <span className={`px-2 py-0.5 rounded-full text-xs font-semibold capitalize ${
-                        ticket.status === 'open' ? 'bg-yellow-100 text-yellow-800' :
-                        ticket.status === 'in_progress' ? 'bg-blue-100 text-blue-800' :
-                        ticket.status === 'resolved' ? 'bg-green-100 text-green-800' :
-                        'bg-gray-100 text-gray-800'
-                      }`}>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-semibold capitalize ${getStatusBadgeClass(ticket.status)}`}>
                         {ticket.status.replaceAll('_', ' ')}
                       </span>
                     </TableCell>
+                    <TableCell>
+                      <span
+                        className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getSlaBadgeClass(firstResponseStatus)}`}
+                        title={ticket.first_response_at ? `Direspon ${new Date(ticket.first_response_at).toLocaleString('id-ID')}` : 'Belum direspon'}
+                      >
+                        {FIRST_RESPONSE_STATUS_LABELS[firstResponseStatus]}
+                      </span>
+                    </TableCell>
                     <TableCell>
                       <span className={`px-2 py-0.5 rounded-full text-xs font-semibold capitalize ${slaBadgeClass}`}>
                         {slaStatus}
                       </span>
                     </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {isTicketStopped ? (
+                        <span className="text-gray-500">{ticket.sla_breached_at ? 'Terlambat' : '-'}</span>
+                      ) : countdown ? (
+                        <span
+                          className={`px-2 py-0.5 rounded-full text-xs font-semibold tabular-nums ${getSlaBadgeClass(getSlaDeadlineStatus(ticket, now))}`}
+                          title={`Tenggat ${new Date(ticket.sla_due_at as string).toLocaleString('id-ID')}`}
+                        >
+                          {countdown}
+                        </span>
+                      ) : (
+                        <span className="text-gray-500">Dijeda</span>
+                      )}
+                    </TableCell>
                     <TableCell>{new Date(ticket.created_at).toLocaleDateString()}</TableCell>
                     {canManageTickets && (
                       <TableCell className="text-right flex items-center justify-end gap-2">
-                        {activeTab === 'unassigned' && (
+                        {(activeTab === 'unassigned' || (activeTab === 'team_queue' && !ticket.assigned_to && ticket.status === 'open')) && (
                           <Button
                             variant="outline"
                             size="sm"
@@ -0,0 +1,496 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, Car, Cpu, History, Loader2, Save, Ticket as TicketIcon } from 'lucide-react';
+
+import { useSession } from '@/components/SessionContextProvider';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { showSuccess, showError } from '@/utils/toast';
+import { supabase } from '@/integrations/supabase/client';
+import { CustomerTicket } from '@/utils/customers';
+import { GpsDevice, GpsDeviceInstallation, IMEI_PATTERN, Vehicle } from '@/utils/vehicles';
+import { NO_FLEET_SENTINEL } from '@/utils/fleets';
+import { useFleetAccounts } from '@/hooks/use-fleet-accounts';
+import { TICKET_STATUS_LABELS, getStatusBadgeClass } from '@/utils/ticketStatus';
+import { PLATE_REGIONS } from '@shared/plateNumber';
+import { SIMCARD_OPERATOR_LABELS, parseSimcardNumber } from '@shared/simcardNumber';
+
+interface VehicleWithOwner extends Vehicle {
+  customer: { id: string; name: string | null; whatsapp_number: string } | null;
+}
+
+const todayIsoDate = () => new Date().toISOString().slice(0, 10);
+
+const VehicleDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { session, loading, role } = useSession();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const [make, setMake] = useState('');
+  const [isInstallOpen, setIsInstallOpen] = useState(false);
+  const [imei, setImei] = useState('');
+  const [deviceModel, setDeviceModel] = useState('');
+  const [simcardNumber, setSimcardNumber] = useState('');
+  const [installedAt, setInstalledAt] = useState(todayIsoDate);
+
+  const canView = role === 'admin' || role === 'customer_service';
+
+  // Redirect if not admin or customer service
+  useEffect(() => {
+    if (!loading && (!session || !canView)) {
+      showError('Anda tidak memiliki izin untuk mengakses halaman ini.');
+      navigate('/');
+    }
+  }, [session, loading, canView, navigate]);
+
+  const { data: vehicle, isLoading: isLoadingVehicle, error } = useQuery<VehicleWithOwner, Error>({
+    queryKey: ['vehicle', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('vehicles')
+        .select('*, customer:customers(id, name, whatsapp_number)')
+        .eq('id', id)
+        .single();
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!session && canView && !!id,
+  });
+
+  const { data: fleets } = useFleetAccounts(!!session && canView);
+
+  const { data: device } = useQuery<GpsDevice | null, Error>({
+    queryKey: ['vehicleDevice', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('gps_devices')
+        .select('*')
+        .eq('vehicle_id', id)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!session && canView && !!id,
+  });
+
+  const { data: installations } = useQuery<GpsDeviceInstallation[], Error>({
+    queryKey: ['vehicleInstallations', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('gps_device_installations')
+        .select('*, device:gps_devices(imei, model, simcard_number)')
+        .eq('vehicle_id', id)
+        .order('installed_at', { ascending: false })
+        .order('id', { ascending: false });
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!session && canView && !!id,
+  });
+
+  const { data: tickets, isLoading: isLoadingTickets } = useQuery<CustomerTicket[], Error>({
+    queryKey: ['vehicleTickets', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('tickets')
+        .select('id, ticket_number, title, status, priority, category, no_plat_kendaraan, no_simcard_gps, vehicle_id, created_at')
+        .eq('vehicle_id', id)
+        .order('created_at', { ascending: false });
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!session && canView && !!id,
+  });
+
+  useEffect(() => {
+    if (vehicle) setMake(vehicle.make || '');
+  }, [vehicle]);
+
+  const updateMakeMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('vehicles')
+        .update({ make: make.trim() || null })
+        .eq('id', id);
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      showSuccess('Data kendaraan berhasil diperbarui!');
+      queryClient.invalidateQueries({ queryKey: ['vehicle', id] });
+    },
+    onError: (error: Error) => {
+      showError(`Gagal memperbarui kendaraan: ${error.message}`);
+    },
+  });
+
+  const updateFleetMutation = useMutation({
+    mutationFn: async (fleetAccountId: string | null) => {
+      const { error } = await supabase
+        .from('vehicles')
+        .update({ fleet_account_id: fleetAccountId })
+        .eq('id', id);
+      if (error) throw new Error(error.message);
+      return fleetAccountId;
+    },
+    onSuccess: (fleetAccountId) => {
+      showSuccess(fleetAccountId ? 'Kendaraan dimasukkan ke armada!' : 'Kendaraan dilepas dari armada.');
+      queryClient.invalidateQueries({ queryKey: ['vehicle', id] });
+      queryClient.invalidateQueries({ queryKey: ['fleetVehicles'] });
+      queryClient.invalidateQueries({ queryKey: ['fleetOpenTickets'] });
+      queryClient.invalidateQueries({ queryKey: ['fleetMonthlyVolume'] });
+      queryClient.invalidateQueries({ queryKey: ['fleetAccounts'] });
+      queryClient.invalidateQueries({ queryKey: ['tickets'] });
+    },
+    onError: (error: Error) => {
+      showError(`Gagal memperbarui armada kendaraan: ${error.message}`);
+    },
+  });
+
+  const installDeviceMutation = useMutation({
+    mutationFn: async () => {
+      if (!IMEI_PATTERN.test(imei)) throw new Error('IMEI harus 15 digit angka.');
+      const simcard = simcardNumber ? parseSimcardNumber(simcardNumber) : null;
+      if (simcard?.error) throw new Error(simcard.error);
+
+      const { error } = await supabase.rpc('install_gps_device', {
+        p_vehicle_id: id,
+        p_imei: imei,
+        p_model: deviceModel.trim() || null,
+        p_simcard_number: simcard?.simcard.e164 ?? null,
+        p_installed_at: installedAt || null,
+      });
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      showSuccess('Perangkat GPS berhasil dipasang!');
+      queryClient.invalidateQueries({ queryKey: ['vehicleDevice', id] });
+      queryClient.invalidateQueries({ queryKey: ['vehicleInstallations', id] });
+      setIsInstallOpen(false);
+      setImei('');
+      setDeviceModel('');
+      setSimcardNumber('');
+      setInstalledAt(todayIsoDate());
+    },
+    onError: (error: Error) => {
+      showError(`Gagal memasang perangkat: ${error.message}`);
+    },
+  });
+
+  if (loading || (session && !canView)) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+        <p className="text-gray-700 dark:text-gray-300">
+          {loading ? 'Memuat...' : 'Mengalihkan...'}
+        </p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+        <h1 className="text-3xl font-bold text-red-600 dark:text-red-400 mb-4">Error</h1>
+        <p className="text-lg text-gray-700 dark:text-gray-300">
+          Gagal memuat kendaraan: {error.message}
+        </p>
+      </div>
+    );
+  }
+
+  if (isLoadingVehicle || isLoadingTickets || !vehicle) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <Button variant="outline" onClick={() => navigate(-1)}>
+        <ArrowLeft className="mr-2 h-4 w-4" /> Kembali
+      </Button>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Car className="h-5 w-5 text-primary" /> {vehicle.plate_number}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex gap-2">
+              <Input
+                value={make}
+                onChange={(e) => setMake(e.target.value)}
+                placeholder="Merek / tipe, contoh: Toyota Avanza"
+                aria-label="Merek kendaraan"
+              />
+              <Button
+                variant="outline"
+                onClick={() => updateMakeMutation.mutate()}
+                disabled={updateMakeMutation.isPending || make.trim() === (vehicle.make || '')}
+              >
+                {updateMakeMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Simpan
+              </Button>
+            </div>
+            <p>
+              <strong>Pemilik:</strong>{' '}
+              {vehicle.customer ? (
+                <Link to={`/customers/${vehicle.customer.id}`} className="text-blue-600 hover:underline dark:text-blue-400">
+                  {vehicle.customer.name || vehicle.customer.whatsapp_number}
+                </Link>
+              ) : (
+                '-'
+              )}
+            </p>
+            <p><strong>Wilayah:</strong> {vehicle.region_code ? PLATE_REGIONS[vehicle.region_code] : '-'}</p>
+            <div className="flex items-center gap-2">
+              <strong>Armada:</strong>
+              <Select
+                value={vehicle.fleet_account_id ?? NO_FLEET_SENTINEL}
+                onValueChange={(value) => updateFleetMutation.mutate(value === NO_FLEET_SENTINEL ? null : value)}
+                disabled={updateFleetMutation.isPending}
+              >
+                <SelectTrigger className="w-[240px]" aria-label="Armada kendaraan">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_FLEET_SENTINEL}>Bukan Armada</SelectItem>
+                  {fleets?.map((fleet) => (
+                    <SelectItem key={fleet.id} value={fleet.id}>
+                      {fleet.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {vehicle.fleet_account_id && (
+                <Link to={`/fleets/${vehicle.fleet_account_id}`} className="text-sm text-blue-600 hover:underline dark:text-blue-400">
+                  Lihat
+                </Link>
+              )}
+            </div>
+            <p><strong>Total Tiket:</strong> {tickets?.length ?? 0}</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="flex items-center gap-2">
+              <Cpu className="h-5 w-5 text-primary" /> Perangkat GPS
+            </CardTitle>
+            <Button size="sm" variant="outline" onClick={() => setIsInstallOpen(true)}>
+              {device ? 'Ganti Perangkat' : 'Pasang Perangkat'}
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {device ? (
+              <>
+                <p><strong>IMEI:</strong> {device.imei}</p>
+                <p><strong>Model:</strong> {device.model || '-'}</p>
+                <p>
+                  <strong>No Simcard:</strong> {device.simcard_number || '-'}
+                  {device.simcard_operator && ` (${SIMCARD_OPERATOR_LABELS[device.simcard_operator]})`}
+                </p>
+                <p>
+                  <strong>Dipasang:</strong>{' '}
+                  {device.installed_at ? new Date(device.installed_at).toLocaleDateString('id-ID') : '-'}
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">Belum ada perangkat terdaftar untuk kendaraan ini.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TicketIcon className="h-5 w-5 text-primary" /> Riwayat Keluhan
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>No. Tiket</TableHead>
+                  <TableHead>Judul</TableHead>
+                  <TableHead>Kategori</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Dibuat</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tickets?.length ? (
+                  tickets.map((ticket) => (
+                    <TableRow key={ticket.id}>
+                      <TableCell className="font-medium">
+                        <Link to={`/tickets/${ticket.id}`} className="text-blue-600 hover:underline">
+                          {ticket.ticket_number}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{ticket.title}</TableCell>
+                      <TableCell>{ticket.category || '-'}</TableCell>
+                      <TableCell>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getStatusBadgeClass(ticket.status)}`}>
+                          {TICKET_STATUS_LABELS[ticket.status]}
+                        </span>
+                      </TableCell>
+                      <TableCell>{new Date(ticket.created_at).toLocaleDateString('id-ID')}</TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center">
+                      Belum ada tiket untuk kendaraan ini.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" /> Riwayat Pergantian Perangkat
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>IMEI</TableHead>
+                  <TableHead>Model</TableHead>
+                  <TableHead>No Simcard</TableHead>
+                  <TableHead>Dipasang</TableHead>
+                  <TableHead>Dilepas</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {installations?.length ? (
+                  installations.map((installation) => (
+                    <TableRow key={installation.id}>
+                      <TableCell className="font-mono">{installation.device?.imei || '-'}</TableCell>
+                      <TableCell>{installation.device?.model || '-'}</TableCell>
+                      <TableCell>{installation.device?.simcard_number || '-'}</TableCell>
+                      <TableCell>{new Date(installation.installed_at).toLocaleDateString('id-ID')}</TableCell>
+                      <TableCell>
+                        {installation.removed_at ? new Date(installation.removed_at).toLocaleDateString('id-ID') : 'Terpasang'}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center">
+                      Belum ada riwayat perangkat.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isInstallOpen} onOpenChange={setIsInstallOpen}>
+        <DialogContent className="sm:max-w-[440px]">
+          <DialogHeader>
+            <DialogTitle>{device ? 'Ganti Perangkat GPS' : 'Pasang Perangkat GPS'}</DialogTitle>
+            <DialogDescription>
+              {device
+                ? `Perangkat ${device.imei} akan dicatat sebagai dilepas pada tanggal pemasangan perangkat baru.`
+                : 'Perangkat baru akan didaftarkan jika IMEI belum ada.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="device-imei">IMEI</Label>
+              <Input
+                id="device-imei"
+                inputMode="numeric"
+                maxLength={15}
+                value={imei}
+                onChange={(e) => setImei(e.target.value.replace(/\D/g, ''))}
+                placeholder="15 digit"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="device-model">Model</Label>
+              <Input
+                id="device-model"
+                value={deviceModel}
+                onChange={(e) => setDeviceModel(e.target.value)}
+                placeholder="Contoh: Concox GT06N"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="device-simcard">No Simcard</Label>
+              <Input
+                id="device-simcard"
+                inputMode="numeric"
+                maxLength={16}
+                value={simcardNumber}
+                onChange={(e) => setSimcardNumber(e.target.value.replace(/[^\d+]/g, ''))}
+                placeholder="Contoh: 081234567890"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="device-installed-at">Tanggal Pasang</Label>
+              <Input
+                id="device-installed-at"
+                type="date"
+                value={installedAt}
+                onChange={(e) => setInstalledAt(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsInstallOpen(false)}>
+              Batal
+            </Button>
+            <Button onClick={() => installDeviceMutation.mutate()} disabled={installDeviceMutation.isPending}>
+              {installDeviceMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Simpan
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default VehicleDetail;
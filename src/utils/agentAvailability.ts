@@ -0,0 +1,40 @@
+export const AGENT_AVAILABILITIES = ['online', 'away', 'off_shift'] as const;
+export type AgentAvailability = typeof AGENT_AVAILABILITIES[number];
+
+export const AGENT_AVAILABILITY_LABELS: Record<AgentAvailability, string> = {
+  online: 'Online',
+  away: 'Sedang Istirahat',
+  off_shift: 'Di Luar Shift',
+};
+
+export const getAvailabilityDotClass = (availability: AgentAvailability) => {
+  switch (availability) {
+    case 'online': return 'bg-green-500';
+    case 'away': return 'bg-yellow-500';
+    default: return 'bg-gray-400';
+  }
+};
+
+// Weekly roster entry, times are in the business calendar timezone
+export interface AgentShift {
+  id: string;
+  agent_id: string;
+  weekday: number;
+  start_time: string;
+  end_time: string;
+}
+
+// Row returned by the get_agents_on_duty RPC
+export interface AgentOnDuty {
+  agent_id: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+  role: string;
+  availability: AgentAvailability;
+  is_on_shift: boolean;
+  has_roster: boolean;
+}
+
+// Same rule as is_agent_available: online and inside a rostered shift (agents without a roster are always on shift)
+export const isAgentAvailable = (agent: AgentOnDuty) => agent.availability === 'online' && agent.is_on_shift;
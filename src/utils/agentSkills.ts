@@ -0,0 +1,17 @@
+export const AGENT_SKILL_TYPES = ['category', 'language'] as const;
+export type AgentSkillType = typeof AGENT_SKILL_TYPES[number];
+
+// Languages agents can declare; values are stored as-is in agent_skills.value
+export const AGENT_LANGUAGES = ['Bahasa Indonesia', 'English', 'Jawa', 'Sunda', 'Mandarin'] as const;
+
+export interface AgentSkill {
+  agent_id: string;
+  skill_type: AgentSkillType;
+  value: string;
+}
+
+// Mirrors get_routable_agents: an agent matches when one of their category skills equals the ticket category
+export const agentHasCategorySkill = (skills: AgentSkill[], agentId: string, category: string | null) =>
+  !!category && skills.some(
+    (skill) => skill.agent_id === agentId && skill.skill_type === 'category' && skill.value === category
+  );
@@ -0,0 +1,108 @@
+export interface BusinessHours {
+  weekday: number; // 0 = Minggu ... 6 = Sabtu (sama dengan EXTRACT(DOW) di Postgres)
+  is_working_day: boolean;
+  start_time: string; // "HH:MM" atau "HH:MM:SS"
+  end_time: string;
+}
+
+export interface Holiday {
+  holiday_date: string; // "YYYY-MM-DD"
+  name: string;
+}
+
+export interface BusinessCalendar {
+  timezone: string;
+  hours: BusinessHours[];
+  holidays: Holiday[];
+}
+
+export const WEEKDAY_LABELS = ['Minggu', 'Senin', 'Selasa', 'Rabu', 'Kamis', 'Jumat', 'Sabtu'];
+
+// Dipakai hanya selama kalender dari database belum termuat (Senin–Jumat 08:00–17:00 WIB)
+export const DEFAULT_BUSINESS_CALENDAR: BusinessCalendar = {
+  timezone: 'Asia/Jakarta',
+  hours: WEEKDAY_LABELS.map((_, weekday) => ({
+    weekday,
+    is_working_day: weekday >= 1 && weekday <= 5,
+    start_time: '08:00',
+    end_time: '17:00',
+  })),
+  holidays: [],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// Selisih (ms) antara jam dinding di `timeZone` dan UTC pada instant tertentu
+const getTimeZoneOffsetMs = (instant: number, timeZone: string) => {
+  const parts = getFormatter(timeZone).formatToParts(new Date(instant));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+  const wallClockAsUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wallClockAsUtc - Math.floor(instant / 1000) * 1000;
+};
+
+// Mengubah jam dinding lokal (dinyatakan sebagai ms "seolah UTC") menjadi instant sebenarnya
+const zonedWallClockToInstant = (wallClockMs: number, timeZone: string) => {
+  const firstGuess = wallClockMs - getTimeZoneOffsetMs(wallClockMs, timeZone);
+  return wallClockMs - getTimeZoneOffsetMs(firstGuess, timeZone);
+};
+
+const parseTimeOfDayMs = (time: string) => {
+  const [hours = 0, minutes = 0, seconds = 0] = time.split(':').map(Number);
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000;
+};
+
+/**
+ * Jumlah waktu kerja (ms) antara `start` dan `end` menurut kalender: hanya jam kerja pada hari kerja,
+ * di luar hari libur, dihitung di zona waktu kalender. Sama dengan business_seconds_between() di database.
+ */
+export const getBusinessMsBetween = (start: number, end: number, calendar: BusinessCalendar): number => {
+  if (!(end > start)) return 0;
+
+  const holidayDates = new Set(calendar.holidays.map((holiday) => holiday.holiday_date));
+  const hoursByWeekday = new Map(calendar.hours.map((hours) => [hours.weekday, hours]));
+
+  const firstDay = Math.floor((start + getTimeZoneOffsetMs(start, calendar.timezone)) / DAY_MS);
+  const lastDay = Math.floor((end + getTimeZoneOffsetMs(end, calendar.timezone)) / DAY_MS);
+
+  let total = 0;
+  for (let day = firstDay; day <= lastDay; day++) {
+    const dayStartWallClock = day * DAY_MS;
+    const localDate = new Date(dayStartWallClock);
+    if (holidayDates.has(localDate.toISOString().slice(0, 10))) continue;
+
+    const hours = hoursByWeekday.get(localDate.getUTCDay());
+    if (!hours || !hours.is_working_day) continue;
+
+    const windowStart = Math.max(
+      start,
+      zonedWallClockToInstant(dayStartWallClock + parseTimeOfDayMs(hours.start_time), calendar.timezone),
+    );
+    const windowEnd = Math.min(
+      end,
+      zonedWallClockToInstant(dayStartWallClock + parseTimeOfDayMs(hours.end_time), calendar.timezone),
+    );
+    if (windowEnd > windowStart) total += windowEnd - windowStart;
+  }
+
+  return total;
+};
@@ -0,0 +1,86 @@
+// Minimal RFC 4180 CSV support for spreadsheet exports. Excel with an Indonesian locale saves with ";" as
+// the separator, so the delimiter is taken from the header line.
+
+const detectDelimiter = (text: string): string => {
+  const headerLine = text.slice(0, text.search(/\r?\n|$/));
+  const semicolons = headerLine.split(';').length;
+  const commas = headerLine.split(',').length;
+  return semicolons > commas ? ';' : ',';
+};
+
+export interface CsvRow {
+  // Line in the file where the row starts (1-based), so reports can point at it
+  lineNumber: number;
+  cells: string[];
+}
+
+/**
+ * Parses CSV text into rows of cells. Quoted cells may contain the delimiter, line breaks and doubled quotes.
+ * Fully empty lines are dropped; each row keeps the line it starts on.
+ */
+export const parseCsv = (text: string): CsvRow[] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input);
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        // A line break inside a quoted cell still moves to the next line of the file
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push({ lineNumber: rowLine, cells: row });
+      line++;
+      rowLine = line;
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push({ lineNumber: rowLine, cells: row });
+  }
+
+  return rows.filter(({ cells }) => cells.some((value) => value.trim() !== ''));
+};
+
+const escapeCsvCell = (value: string) =>
+  /[",;\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: string[][]): string =>
+  rows.map((cells) => cells.map(escapeCsvCell).join(',')).join('\r\n');
+
+// Starts a browser download; the BOM makes Excel read the file as UTF-8
+export const downloadCsv = (filename: string, rows: string[][]) => {
+  const blob = new Blob(['\uFEFF', toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
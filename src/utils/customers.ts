@@ -0,0 +1,23 @@
+import { TicketStatus } from '@/utils/ticketStatus';
+
+export interface Customer {
+  id: string;
+  // E.164, e.g. "+6281234567890"
+  whatsapp_number: string;
+  name: string | null;
+  fleet_account_id: string | null;
+  created_at: string;
+}
+
+export interface CustomerTicket {
+  id: string;
+  ticket_number: string;
+  title: string;
+  status: TicketStatus;
+  priority: string;
+  category: string | null;
+  no_plat_kendaraan: string | null;
+  no_simcard_gps: string | null;
+  vehicle_id: string | null;
+  created_at: string;
+}
@@ -0,0 +1,25 @@
+export const ESCALATION_LEVELS = [1, 2, 3] as const;
+export type EscalationLevel = typeof ESCALATION_LEVELS[number];
+
+export const ESCALATION_LEVEL_LABELS: Record<EscalationLevel, string> = {
+  1: 'L1 - Customer Service',
+  2: 'L2 - Teknis',
+  3: 'L3 - Manajemen',
+};
+
+export type HandoffDirection = 'escalate' | 'de_escalate';
+
+export const getEscalationBadgeClass = (level: number) => {
+  switch (level) {
+    case 3: return 'bg-red-100 text-red-800';
+    case 2: return 'bg-orange-100 text-orange-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+// Row returned by the get_escalation_tier_report RPC
+export interface EscalationTierReportRow {
+  escalation_level: EscalationLevel;
+  resolved_count: number;
+  escalated_count: number;
+}
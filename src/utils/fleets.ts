@@ -0,0 +1,45 @@
+export const CONTRACT_TIERS = ['standard', 'gold', 'platinum'] as const;
+export type ContractTier = typeof CONTRACT_TIERS[number];
+
+export const CONTRACT_TIER_LABELS: Record<ContractTier, string> = {
+  standard: 'Standard',
+  gold: 'Gold',
+  platinum: 'Platinum',
+};
+
+export const getContractTierBadgeClass = (tier: ContractTier) => {
+  switch (tier) {
+    case 'platinum': return 'bg-slate-800 text-slate-100';
+    case 'gold': return 'bg-amber-100 text-amber-800';
+    default: return 'bg-teal-100 text-teal-800';
+  }
+};
+
+export interface FleetAccount {
+  id: string;
+  name: string;
+  pic_name: string | null;
+  // E.164, e.g. "+6281234567890"
+  pic_whatsapp: string | null;
+  pic_email: string | null;
+  contract_tier: ContractTier;
+  notes: string | null;
+  created_at: string;
+}
+
+// Fleet badge data embedded in ticket queries through the ticket's vehicle
+export interface TicketFleetEmbed {
+  fleet_account: Pick<FleetAccount, 'id' | 'name' | 'contract_tier'> | null;
+}
+
+export const TICKET_FLEET_SELECT = 'vehicle:vehicles(fleet_account:fleet_accounts(id, name, contract_tier))';
+
+// Select value for "no fleet", Radix Select does not accept an empty string
+export const NO_FLEET_SENTINEL = '__no_fleet__';
+
+// Row returned by the get_fleet_monthly_ticket_volume RPC; month is the first day of the month
+export interface FleetMonthlyVolumeRow {
+  month: string;
+  ticket_count: number;
+  resolved_count: number;
+}
@@ -0,0 +1,219 @@
+import { CsvRow } from '@/utils/csv';
+import { IMEI_PATTERN } from '@/utils/vehicles';
+import { parsePlateNumber } from '@shared/plateNumber';
+import { parsePhoneNumber } from '@shared/phoneNumber';
+import { parseSimcardNumber } from '@shared/simcardNumber';
+
+export const REGISTRY_IMPORT_FIELDS = [
+  'plate_number',
+  'make',
+  'customer_name',
+  'customer_whatsapp',
+  'imei',
+  'device_model',
+  'simcard_number',
+  'installed_at',
+] as const;
+export type RegistryImportField = typeof REGISTRY_IMPORT_FIELDS[number];
+
+export const REGISTRY_IMPORT_FIELD_LABELS: Record<RegistryImportField, string> = {
+  plate_number: 'No Plat (wajib)',
+  make: 'Merek / Tipe Kendaraan',
+  customer_name: 'Nama Pelanggan',
+  customer_whatsapp: 'WhatsApp Pelanggan',
+  imei: 'IMEI',
+  device_model: 'Model Perangkat',
+  simcard_number: 'No Simcard',
+  installed_at: 'Tanggal Pasang',
+};
+
+// Spreadsheet headers recognised for each field, compared after lower-casing and collapsing punctuation
+const FIELD_HEADER_ALIASES: Record<RegistryImportField, string[]> = {
+  plate_number: ['no plat', 'plat', 'nopol', 'no pol', 'nomor polisi', 'plat nomor', 'plate', 'plate number', 'no plat kendaraan'],
+  make: ['merek', 'merk', 'tipe kendaraan', 'jenis kendaraan', 'kendaraan', 'make'],
+  customer_name: ['nama pelanggan', 'nama', 'pelanggan', 'pemilik', 'customer', 'customer name'],
+  customer_whatsapp: ['whatsapp', 'no wa', 'wa', 'no whatsapp', 'telepon', 'no hp', 'hp', 'phone'],
+  imei: ['imei', 'imei gps', 'imei perangkat'],
+  device_model: ['model perangkat', 'model gps', 'tipe gps', 'model', 'device'],
+  simcard_number: ['no simcard', 'simcard', 'no simcard gps', 'sim', 'no sim', 'msisdn', 'gsm'],
+  installed_at: ['tanggal pasang', 'tgl pasang', 'tanggal instalasi', 'installed at', 'install date'],
+};
+
+// Column index per field; null when the field is not in the file
+export type RegistryColumnMapping = Record<RegistryImportField, number | null>;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/** Maps each field to the first unused column whose header is one of its aliases, then to one containing it. */
+export const guessColumnMapping = (headers: string[]): RegistryColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = Object.fromEntries(REGISTRY_IMPORT_FIELDS.map((field) => [field, null])) as RegistryColumnMapping;
+
+  for (const matches of [
+    (header: string, alias: string) => header === alias,
+    (header: string, alias: string) => header.includes(alias),
+  ]) {
+    for (const field of REGISTRY_IMPORT_FIELDS) {
+      if (mapping[field] !== null) continue;
+      for (const alias of FIELD_HEADER_ALIASES[field]) {
+        const index = normalized.findIndex((header, i) => !used.has(i) && matches(header, alias));
+        if (index !== -1) {
+          mapping[field] = index;
+          used.add(index);
+          break;
+        }
+      }
+    }
+  }
+
+  return mapping;
+};
+
+// Row sent to the import_registry_rows RPC, already normalized
+export interface RegistryImportPayload {
+  row_number: number;
+  plate_number: string;
+  make: string | null;
+  customer_name: string | null;
+  customer_whatsapp: string | null;
+  imei: string | null;
+  device_model: string | null;
+  simcard_number: string | null;
+  installed_at: string | null;
+}
+
+export interface RegistryImportRow {
+  // Line in the file where the row starts, the header being line 1
+  rowNumber: number;
+  cells: string[];
+  // null when the row has validation errors
+  payload: RegistryImportPayload | null;
+  errors: string[];
+}
+
+// Accepts 2024-03-31, 31/03/2024 and 31-03-2024; returns an ISO date or null
+const parseImportDate = (value: string): string | null => {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const local = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]]
+    : local ? [local[3], local[2], local[1]] : [];
+  if (!year) return null;
+
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (date.getUTCMonth() !== Number(month) - 1 || date.getUTCDate() !== Number(day)) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Validates and normalizes the data rows with the same rules as the ticket forms (plate, WhatsApp and simcard
+ * parsers). A plate or IMEI repeated within the file is an error on the later row, so the outcome never
+ * depends on row order on the server.
+ */
+export const validateRegistryRows = (dataRows: CsvRow[], mapping: RegistryColumnMapping): RegistryImportRow[] => {
+  const plateRows = new Map<string, number>();
+  const imeiRows = new Map<string, number>();
+
+  return dataRows.map(({ lineNumber: rowNumber, cells }) => {
+    const value = (field: RegistryImportField) => {
+      const column = mapping[field];
+      return column === null ? '' : (cells[column] ?? '').trim();
+    };
+    const errors: string[] = [];
+
+    const { plate, error: plateError } = parsePlateNumber(value('plate_number'));
+    if (plateError) errors.push(plateError);
+
+    const whatsappInput = value('customer_whatsapp');
+    const whatsapp = whatsappInput ? parsePhoneNumber(whatsappInput) : null;
+    if (whatsapp?.error) errors.push(whatsapp.error);
+
+    const imei = value('imei').replace(/\s/g, '');
+    if (/e\+/i.test(imei)) {
+      errors.push('IMEI terbaca sebagai angka ilmiah (mis. 8.6E+14). Format kolom IMEI sebagai teks lalu ekspor ulang.');
+    } else if (imei && !IMEI_PATTERN.test(imei)) {
+      errors.push('IMEI harus 15 digit angka.');
+    }
+
+    const simcardInput = value('simcard_number');
+    const simcard = simcardInput ? parseSimcardNumber(simcardInput) : null;
+    if (simcard?.error) errors.push(simcard.error);
+
+    const deviceModel = value('device_model');
+    if (!imei && (simcardInput || deviceModel)) errors.push('No simcard dan model perangkat memerlukan IMEI.');
+
+    const installedAtInput = value('installed_at');
+    const installedAt = installedAtInput ? parseImportDate(installedAtInput) : null;
+    if (installedAtInput && !installedAt) errors.push('Tanggal pasang tidak valid. Contoh: 31/03/2024.');
+
+    if (plate) {
+      const firstRow = plateRows.get(plate.canonical);
+      if (firstRow) errors.push(`No plat ${plate.canonical} sudah ada di baris ${firstRow}.`);
+      else plateRows.set(plate.canonical, rowNumber);
+    }
+
+    if (imei && IMEI_PATTERN.test(imei)) {
+      const firstRow = imeiRows.get(imei);
+      if (firstRow) errors.push(`IMEI ${imei} sudah ada di baris ${firstRow}.`);
+      else imeiRows.set(imei, rowNumber);
+    }
+
+    const payload: RegistryImportPayload | null = errors.length ? null : {
+      row_number: rowNumber,
+      plate_number: plate.canonical,
+      make: value('make') || null,
+      customer_name: value('customer_name') || null,
+      customer_whatsapp: whatsapp?.phone.e164 ?? null,
+      imei: imei || null,
+      device_model: deviceModel || null,
+      simcard_number: simcard?.simcard.e164 ?? null,
+      installed_at: installedAt,
+    };
+
+    return { rowNumber, cells, payload, errors };
+  });
+};
+
+export type RegistryImportStatus = 'created' | 'updated' | 'unchanged' | 'error';
+
+// Row returned by the import_registry_rows RPC
+export interface RegistryImportResult {
+  row_number: number;
+  status: RegistryImportStatus;
+  message: string | null;
+}
+
+export const REGISTRY_IMPORT_STATUS_LABELS: Record<RegistryImportStatus, string> = {
+  created: 'Baru',
+  updated: 'Diperbarui',
+  unchanged: 'Tidak berubah',
+  error: 'Error',
+};
+
+export const getRegistryImportStatusBadgeClass = (status: RegistryImportStatus) => {
+  switch (status) {
+    case 'created': return 'bg-green-100 text-green-800';
+    case 'updated': return 'bg-blue-100 text-blue-800';
+    case 'error': return 'bg-red-100 text-red-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+// Rows per RPC call; the function accepts at most 500
+export const REGISTRY_IMPORT_BATCH_SIZE = 200;
+
+/** Error report: the failed rows as they were in the file, with their line number and the reasons. */
+export const buildRegistryErrorReport = (
+  headers: string[],
+  rows: RegistryImportRow[],
+  results: Map<number, RegistryImportResult>,
+): string[][] => {
+  const failed = rows.flatMap((row) => {
+    const serverError = results.get(row.rowNumber)?.status === 'error' ? results.get(row.rowNumber)?.message : null;
+    const errors = serverError ? [...row.errors, serverError] : row.errors;
+    return errors.length ? [[String(row.rowNumber), ...headers.map((_, i) => row.cells[i] ?? ''), errors.join(' ')]] : [];
+  });
+
+  return [['Baris', ...headers, 'Error'], ...failed];
+};
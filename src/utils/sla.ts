@@ -1,27 +1,187 @@
-export const getSlaStatus = (createdAt: string, resolvedAt: string | null, status: string): 'green' | 'yellow' | 'red' => {
-  const creationTime = new Date(createdAt).getTime();
-  const currentTime = Date.now();
-  const twentyFourHoursInMillis = 24 * 60 * 60 * 1000; // 24 jam dalam milidetik
-  const nineteenHoursInMillis = 19 * 60 * 60 * 1000; // 19 jam dalam milidetik
+import { SLA_PAUSED_STATUSES } from '@/utils/ticketStatus';
+import { BusinessCalendar, DEFAULT_BUSINESS_CALENDAR, getBusinessMsBetween } from '@/utils/businessCalendar';
+
+export interface SlaPolicy {
+  id: string;
+  priority: string;
+  category: string | null;
+  first_response_minutes: number;
+  warning_minutes: number;
+  resolution_minutes: number;
+  warning_priority_bump: number; // jumlah kenaikan prioritas saat eskalasi peringatan
+  breach_priority_bump: number; // jumlah kenaikan prioritas saat eskalasi lewat SLA
+}
+
+export interface SlaTicket {
+  created_at: string;
+  resolved_at: string | null;
+  status: string;
+  priority: string;
+  sla_priority?: string | null; // prioritas dasar SLA; tidak ikut naik saat eskalasi otomatis
+  category?: string | null;
+  sla_paused_at?: string | null;
+  sla_paused_seconds?: number | null;
+  first_response_at?: string | null;
+}
+
+// Dipakai hanya selama tabel sla_policies belum termuat (sama dengan default prioritas medium)
+export const DEFAULT_SLA_POLICY: Omit<SlaPolicy, 'id'> = {
+  priority: 'medium',
+  category: null,
+  first_response_minutes: 120,
+  warning_minutes: 19 * 60,
+  resolution_minutes: 24 * 60,
+  warning_priority_bump: 0,
+  breach_priority_bump: 1,
+};
+
+/**
+ * Memilih kebijakan SLA untuk sebuah tiket dengan urutan yang sama seperti get_sla_policy() di database:
+ * kategori spesifik, lalu default prioritas, lalu default medium.
+ */
+export const resolveSlaPolicy = (
+  policies: SlaPolicy[] | undefined,
+  priority: string,
+  category?: string | null,
+): Omit<SlaPolicy, 'id'> => {
+  const list = policies ?? [];
+  return (
+    list.find((policy) => policy.priority === priority && !!category && policy.category === category) ??
+    list.find((policy) => policy.priority === priority && policy.category === null) ??
+    list.find((policy) => policy.priority === 'medium' && policy.category === null) ??
+    DEFAULT_SLA_POLICY
+  );
+};
+
+/**
+ * Waktu SLA yang sudah berjalan (ms) hingga `endTime`, dihitung dalam jam kerja menurut kalender
+ * dan tanpa waktu saat tiket berstatus pending_customer / on_hold.
+ */
+export const getSlaElapsedMs = (
+  ticket: SlaTicket,
+  endTime: number,
+  calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR,
+): number => {
+  const creationTime = new Date(ticket.created_at).getTime();
+  // sla_paused_seconds sudah dalam detik kerja (dihitung oleh trigger di database)
+  let pausedMillis = (ticket.sla_paused_seconds ?? 0) * 1000;
+
+  // Jika tiket sedang di-pause, jam SLA berhenti sejak sla_paused_at
+  if (ticket.sla_paused_at && SLA_PAUSED_STATUSES.includes(ticket.status)) {
+    pausedMillis += getBusinessMsBetween(new Date(ticket.sla_paused_at).getTime(), endTime, calendar);
+  }
+
+  return Math.max(0, getBusinessMsBetween(creationTime, endTime, calendar) - pausedMillis);
+};
+
+export const getSlaStatus = (
+  ticket: SlaTicket,
+  policies?: SlaPolicy[],
+  calendar?: BusinessCalendar,
+): 'green' | 'yellow' | 'red' => {
+  const policy = resolveSlaPolicy(policies, ticket.sla_priority ?? ticket.priority, ticket.category);
+  const resolutionMillis = policy.resolution_minutes * 60 * 1000; // batas waktu penyelesaian
+  const warningMillis = policy.warning_minutes * 60 * 1000; // batas waktu peringatan
 
   // Jika tiket sudah diselesaikan atau ditutup
-  if (resolvedAt && (status === 'resolved' || status === 'closed')) {
-    const resolutionTime = new Date(resolvedAt).getTime();
-    if (resolutionTime - creationTime <= twentyFourHoursInMillis) {
-      return 'green'; // Diselesaikan dalam 24 jam
+  if (ticket.resolved_at && (ticket.status === 'resolved' || ticket.status === 'closed')) {
+    const resolutionElapsed = getSlaElapsedMs(ticket, new Date(ticket.resolved_at).getTime(), calendar);
+    if (resolutionElapsed <= resolutionMillis) {
+      return 'green'; // Diselesaikan dalam batas waktu
     } else {
-      return 'red'; // Diselesaikan setelah 24 jam
+      return 'red'; // Diselesaikan setelah batas waktu
     }
   }
 
-  // Jika tiket masih terbuka atau dalam proses
-  const timeElapsed = currentTime - creationTime;
+  // Jika tiket masih terbuka, dalam proses, atau di-pause
+  const timeElapsed = getSlaElapsedMs(ticket, Date.now(), calendar);
 
-  if (timeElapsed <= nineteenHoursInMillis) {
-    return 'green'; // Masih dalam batas waktu hijau (kurang dari 19 jam)
-  } else if (timeElapsed > nineteenHoursInMillis && timeElapsed <= twentyFourHoursInMillis) {
-    return 'yellow'; // Mendekati batas waktu (antara 19 dan 24 jam)
+  if (timeElapsed <= warningMillis) {
+    return 'green'; // Masih dalam batas waktu hijau
+  } else if (timeElapsed <= resolutionMillis) {
+    return 'yellow'; // Mendekati batas waktu (antara peringatan dan batas penyelesaian)
   } else {
-    return 'red'; // Melebihi batas waktu (lebih dari 24 jam)
+    return 'red'; // Melebihi batas waktu
+  }
+};
+
+export type FirstResponseSlaStatus = 'green' | 'yellow' | 'red' | 'unrecorded';
+
+/**
+ * Status SLA respon pertama: waktu kerja dari tiket dibuat sampai first_response_at
+ * dibandingkan dengan first_response_minutes pada kebijakan. Kuning berarti belum direspon
+ * tetapi masih dalam batas waktu; tiket selesai tanpa respon tercatat tidak dinilai.
+ */
+export const getFirstResponseSlaStatus = (
+  ticket: SlaTicket,
+  policies?: SlaPolicy[],
+  calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR,
+): FirstResponseSlaStatus => {
+  const policy = resolveSlaPolicy(policies, ticket.sla_priority ?? ticket.priority, ticket.category);
+  const firstResponseMillis = policy.first_response_minutes * 60 * 1000;
+  const creationTime = new Date(ticket.created_at).getTime();
+
+  if (ticket.first_response_at) {
+    const responseElapsed = getBusinessMsBetween(creationTime, new Date(ticket.first_response_at).getTime(), calendar);
+    return responseElapsed <= firstResponseMillis ? 'green' : 'red';
+  }
+
+  if (ticket.status === 'resolved' || ticket.status === 'closed') {
+    return 'unrecorded';
   }
-};
\ No newline at end of file
+
+  return getBusinessMsBetween(creationTime, Date.now(), calendar) <= firstResponseMillis ? 'yellow' : 'red';
+};
+
+export const FIRST_RESPONSE_STATUS_LABELS: Record<FirstResponseSlaStatus, string> = {
+  green: 'Tepat Waktu',
+  yellow: 'Menunggu Respon',
+  red: 'Terlambat',
+  unrecorded: 'Tidak Tercatat',
+};
+
+export const getSlaBadgeClass = (slaStatus: FirstResponseSlaStatus) =>
+  slaStatus === 'green'
+    ? 'bg-green-100 text-green-800'
+    : slaStatus === 'yellow'
+    ? 'bg-yellow-100 text-yellow-800'
+    : slaStatus === 'unrecorded'
+    ? 'bg-gray-100 text-gray-800'
+    : 'bg-red-100 text-red-800';
+
+export interface SlaDeadlineTicket {
+  sla_warning_at?: string | null;
+  sla_due_at?: string | null;
+  sla_breached_at?: string | null;
+}
+
+/**
+ * Teks hitung mundur ke sla_due_at (waktu jam dinding), misalnya "2j 15m 04d" atau "Lewat 1j 05m".
+ * Mengembalikan null jika tiket tidak punya tenggat (jam SLA sedang di-pause).
+ */
+export const formatSlaCountdown = (ticket: SlaDeadlineTicket, now: number): string | null => {
+  if (!ticket.sla_due_at) return null;
+
+  const remainingMs = new Date(ticket.sla_due_at).getTime() - now;
+  const totalSeconds = Math.floor(Math.abs(remainingMs) / 1000);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  const duration = days > 0
+    ? `${days}h ${hours}j ${pad(minutes)}m`
+    : hours > 0
+    ? `${hours}j ${pad(minutes)}m ${pad(seconds)}d`
+    : `${minutes}m ${pad(seconds)}d`;
+
+  return remainingMs < 0 ? `Lewat ${duration}` : duration;
+};
+
+// Warna hitung mundur dari kolom yang dihitung server: merah jika lewat tenggat, kuning setelah batas peringatan
+export const getSlaDeadlineStatus = (ticket: SlaDeadlineTicket, now: number): 'green' | 'yellow' | 'red' => {
+  if (ticket.sla_breached_at || (ticket.sla_due_at && new Date(ticket.sla_due_at).getTime() <= now)) return 'red';
+  if (ticket.sla_warning_at && new Date(ticket.sla_warning_at).getTime() <= now) return 'yellow';
+  return 'green';
+};
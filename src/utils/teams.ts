@@ -0,0 +1,9 @@
+export interface Team {
+  id: string;
+  name: string;
+  lead_id: string | null;
+  restrict_visibility: boolean;
+}
+
+// Select value for "no team", Radix Select does not accept an empty string
+export const NO_TEAM_SENTINEL = '__no_team__';
@@ -0,0 +1,27 @@
+import { DEVICE_ALERT_CATEGORY } from '@shared/deviceAlert';
+
+// Complaint categories offered on the internal and public submission forms.
+// Keep in sync with validCategories in supabase/functions/public-submit-ticket.
+export const COMPLAINT_CATEGORIES = [
+  'Technical Issue',
+  'Billing Inquiry',
+  'Service Interruption',
+  'Product Feedback',
+  'General Inquiry',
+  'Other',
+] as const;
+
+export type ComplaintCategory = typeof COMPLAINT_CATEGORIES[number];
+
+// Every category a ticket can have: the complaint categories plus the one given to tickets opened from GPS
+// device alerts. Used where routing, SLA and skills are configured per category.
+export const TICKET_CATEGORIES: readonly string[] = [...COMPLAINT_CATEGORIES, DEVICE_ALERT_CATEGORY];
+
+// Where a ticket came from (tickets.source)
+export type TicketSource = 'internal' | 'public_form' | 'device_alert';
+
+export const TICKET_SOURCE_LABELS: Record<TicketSource, string> = {
+  internal: 'Input CS',
+  public_form: 'Form publik',
+  device_alert: 'Alert perangkat GPS',
+};
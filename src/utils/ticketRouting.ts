@@ -0,0 +1,15 @@
+export const ROUTING_STRATEGIES = ['round_robin', 'least_loaded', 'manual'] as const;
+export type RoutingStrategy = typeof ROUTING_STRATEGIES[number];
+
+export const ROUTING_STRATEGY_LABELS: Record<RoutingStrategy, string> = {
+  round_robin: 'Round-robin',
+  least_loaded: 'Tiket aktif paling sedikit',
+  manual: 'Manual',
+};
+
+export interface RoutingRule {
+  category: string;
+  strategy: RoutingStrategy;
+  // Default team queue for new tickets in this category
+  team_id: string | null;
+}
@@ -0,0 +1,47 @@
+export const TICKET_STATUSES = ['open', 'in_progress', 'pending_customer', 'on_hold', 'resolved', 'closed'] as const;
+export type TicketStatus = typeof TICKET_STATUSES[number];
+
+export const TICKET_STATUS_LABELS: Record<TicketStatus, string> = {
+  open: 'Open',
+  in_progress: 'In Progress',
+  pending_customer: 'Pending Customer',
+  on_hold: 'On Hold',
+  resolved: 'Resolved',
+  closed: 'Closed',
+};
+
+// Statuses in which the SLA clock is paused (waiting on the customer or parked by the agent)
+export const SLA_PAUSED_STATUSES: readonly string[] = ['pending_customer', 'on_hold'];
+
+// Statuses counted as "still being worked on" for agent queues.
+// 'open' is included because routed tickets are assigned before the agent starts on them.
+export const ACTIVE_TICKET_STATUSES: readonly string[] = ['open', 'in_progress', 'pending_customer', 'on_hold'];
+
+export const getStatusBadgeClass = (status: string) => {
+  switch (status) {
+    case 'open': return 'bg-yellow-100 text-yellow-800';
+    case 'in_progress': return 'bg-blue-100 text-blue-800';
+    case 'pending_customer': return 'bg-indigo-100 text-indigo-800';
+    case 'on_hold': return 'bg-orange-100 text-orange-800';
+    case 'resolved': return 'bg-green-100 text-green-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+export interface StatusTransition {
+  from_status: string;
+  to_status: string;
+}
+
+/**
+ * Returns the statuses a ticket may move to from `currentStatus`, including the current one.
+ * The transition list comes from the `ticket_status_transitions` table, which is also what the
+ * database trigger enforces, so the dropdown never offers a change the server would reject.
+ */
+export const getAllowedStatuses = (currentStatus: TicketStatus, transitions: StatusTransition[]): TicketStatus[] => {
+  const nextStatuses = transitions
+    .filter((transition) => transition.from_status === currentStatus)
+    .map((transition) => transition.to_status);
+
+  return TICKET_STATUSES.filter((status) => status === currentStatus || nextStatuses.includes(status));
+};
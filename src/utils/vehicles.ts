@@ -0,0 +1,52 @@
+import { SimcardOperator } from '@shared/simcardNumber';
+
+export interface Vehicle {
+  id: string;
+  plate_number: string;
+  make: string | null;
+  customer_id: string | null;
+  region_code: string | null;
+  fleet_account_id: string | null;
+  created_at: string;
+}
+
+export interface GpsDevice {
+  id: string;
+  imei: string;
+  model: string | null;
+  simcard_number: string | null;
+  simcard_operator: SimcardOperator | null;
+  vehicle_id: string | null;
+  installed_at: string | null;
+}
+
+export interface GpsDeviceInstallation {
+  id: number;
+  device_id: string;
+  vehicle_id: string;
+  installed_at: string;
+  removed_at: string | null;
+  device: Pick<GpsDevice, 'imei' | 'model' | 'simcard_number'> | null;
+}
+
+export interface VehicleWithDevice extends Vehicle {
+  gps_devices: Pick<GpsDevice, 'imei' | 'simcard_number'>[];
+}
+
+// Registered vehicle as offered by the plate autocomplete
+export interface VehicleSuggestion {
+  id: string;
+  plate_number: string;
+  make: string | null;
+  customer: { name: string | null; whatsapp_number: string } | null;
+  gps_devices: Pick<GpsDevice, 'imei' | 'simcard_number'>[];
+}
+
+export const IMEI_PATTERN = /^\d{15}$/;
+
+// Row returned by the get_ticket_region_report RPC; region is null for plates that do not parse
+export interface TicketRegionReportRow {
+  region: string | null;
+  ticket_count: number;
+  active_count: number;
+}
@@ -1,23 +1,14 @@
+import { parsePhoneNumber } from '@shared/phoneNumber';
+
 /**
- * Formats a WhatsApp number to the international format required by wa.me links.
- * Strips non-digits, removes a leading '0', and prepends '62' (Indonesia country code)
- * if not already present.
+ * Formats a phone number (as typed, or E.164) to the digits-only international form used by wa.me links.
+ * Returns null when the number does not parse, or is a landline that cannot receive WhatsApp.
  */
 export const formatWhatsappNumber = (number: string | null | undefined): string | null => {
-  if (!number) return null;
-  let cleaned = number.replace(/\D/g, ''); // Remove all non-digits
-
-  // Remove leading '0' if present
-  if (cleaned.startsWith('0')) {
-    cleaned = cleaned.substring(1);
-  }
-
-  // Prepend '62' if not already starting with it
-  if (!cleaned.startsWith('62')) {
-    cleaned = '62' + cleaned;
-  }
+  const { phone } = parsePhoneNumber(number);
+  if (!phone?.whatsappCapable) return null;
 
-  return cleaned || null;
+  return phone.e164.slice(1);
 };
 
 interface BuildTicketWhatsappLinkParams {
@@ -29,6 +20,7 @@ interface BuildTicketWhatsappLinkParams {
     title: string;
     description?: string | null;
     customer_whatsapp?: string | null;
+    customer_whatsapp_e164?: string | null;
     status: string;
     priority: string;
     no_plat_kendaraan?: string | null;
@@ -58,7 +50,7 @@ export const buildTicketWhatsappLink = ({
     `No. Tiket: ${ticket.ticket_number}\n` +
     `Judul: ${ticket.title}\n` +
     `Deskripsi: ${truncatedDescription}\n` +
-    `No WA Konsumen: ${ticket.customer_whatsapp || '-'}\n` +
+    `No WA Konsumen: ${ticket.customer_whatsapp_e164 || ticket.customer_whatsapp || '-'}\n` +
     `Status: ${ticket.status.replaceAll('_', ' ')}\n` +
     `Prioritas: ${ticket.priority}\n` +
     `NO Plat Kendaraan: ${ticket.no_plat_kendaraan || '-'}\n` +
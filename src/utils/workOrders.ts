@@ -0,0 +1,66 @@
+export const WORK_ORDER_STATUSES = ['scheduled', 'checked_in', 'completed', 'cancelled'] as const;
+export type WorkOrderStatus = typeof WORK_ORDER_STATUSES[number];
+
+export const WORK_ORDER_STATUS_LABELS: Record<WorkOrderStatus, string> = {
+  scheduled: 'Dijadwalkan',
+  checked_in: 'Teknisi di Lokasi',
+  completed: 'Selesai',
+  cancelled: 'Dibatalkan',
+};
+
+export const getWorkOrderBadgeClass = (status: WorkOrderStatus) => {
+  switch (status) {
+    case 'scheduled': return 'bg-blue-100 text-blue-800';
+    case 'checked_in': return 'bg-yellow-100 text-yellow-800';
+    case 'completed': return 'bg-green-100 text-green-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+export interface WorkOrder {
+  id: string;
+  ticket_id: string;
+  address: string;
+  scheduled_start: string;
+  scheduled_end: string;
+  technician_id: string | null;
+  required_parts: string[];
+  notes: string | null;
+  status: WorkOrderStatus;
+  checked_in_at: string | null;
+  work_summary: string | null;
+  photo_paths: string[];
+  signoff_name: string | null;
+  signoff_signature_path: string | null;
+  completed_at: string | null;
+  created_at: string;
+}
+
+// "12 Okt 2026, 09.00 - 11.00", or both full dates when the window spans days
+export const formatWorkOrderWindow = (start: string, end: string) => {
+  const startDate = new Date(start);
+  const endDate = new Date(end);
+  const dateTime: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' };
+  const timeOnly: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit' };
+
+  const sameDay = startDate.toDateString() === endDate.toDateString();
+  return `${startDate.toLocaleString('id-ID', dateTime)} - ${endDate.toLocaleString('id-ID', sameDay ? timeOnly : dateTime)}`;
+};
+
+// Free-text parts input ("GPS GT06N, relay, kabel power") into a clean list
+export const parseRequiredParts = (value: string) =>
+  value.split(',').map((part) => part.trim()).filter(Boolean);
+
+// Work order with the ticket context a technician needs on site
+export interface WorkOrderWithTicket extends WorkOrder {
+  tickets: {
+    ticket_number: string;
+    title: string;
+    customer_name: string | null;
+    customer_whatsapp: string | null;
+    customer_whatsapp_e164: string | null;
+    no_plat_kendaraan: string | null;
+  } | null;
+}
+
+export const WORK_ORDER_TICKET_SELECT = '*, tickets(ticket_number, title, customer_name, customer_whatsapp, customer_whatsapp_e164, no_plat_kendaraan)';
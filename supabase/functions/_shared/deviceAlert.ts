@@ -0,0 +1,28 @@
+// Device alerts pushed by the GPS tracking platform to the device-alert-ingest function. Shared by the web
+// app (via the @shared alias), the edge function and the local fixture sender.
+
+export const DEVICE_ALERT_TYPES = ['device_offline', 'power_cut'] as const;
+export type DeviceAlertType = typeof DEVICE_ALERT_TYPES[number];
+
+export const DEVICE_ALERT_TYPE_LABELS: Record<DeviceAlertType, string> = {
+  device_offline: 'Perangkat offline > 24 jam',
+  power_cut: 'Power perangkat terputus',
+};
+
+// Category and source of the tickets opened from alerts
+export const DEVICE_ALERT_CATEGORY = 'Device Alert';
+export const DEVICE_ALERT_SOURCE = 'device_alert';
+
+// Webhook body. The device is identified by IMEI or simcard number; alert_id is the platform's own event ID,
+// which makes redelivery of the same event harmless.
+export interface DeviceAlertPayload {
+  alert_type: DeviceAlertType;
+  imei?: string;
+  simcard?: string;
+  occurred_at?: string;
+  alert_id?: string;
+  details?: Record<string, unknown>;
+}
+
+// Header carrying the hex HMAC-SHA256 of the raw request body, keyed with the shared webhook secret
+export const DEVICE_ALERT_SIGNATURE_HEADER = 'x-device-alert-signature';
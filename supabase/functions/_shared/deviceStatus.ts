@@ -0,0 +1,69 @@
+// Device status from the GPS tracking platform, as normalized by the device-diagnostics adapters. Shared by the
+// web app (via the @shared alias) and the edge functions; snapshots are stored in ticket_events.metadata.
+
+export interface DevicePosition {
+  latitude: number;
+  longitude: number;
+  speedKph: number | null;
+  recordedAt: string;
+  address: string | null;
+}
+
+export interface DeviceStatus {
+  imei: string | null;
+  simcard: string | null;
+  lastHeartbeatAt: string | null;
+  position: DevicePosition | null;
+  // GSM signal strength in percent
+  gsmSignal: number | null;
+  satellites: number | null;
+  // 0 V on a wired tracker means the vehicle's power was cut
+  externalPowerVolts: number | null;
+  ignitionOn: boolean | null;
+}
+
+// Which identifier was sent to the tracking platform
+export interface DeviceLookup {
+  imei: string | null;
+  simcard: string | null;
+}
+
+export type DeviceConnectivity = 'online' | 'delayed' | 'offline' | 'unknown';
+
+export const DEVICE_CONNECTIVITY_LABELS: Record<DeviceConnectivity, string> = {
+  online: 'Online',
+  delayed: 'Terlambat',
+  offline: 'Offline',
+  unknown: 'Tidak diketahui',
+};
+
+// Trackers report at least every few minutes while powered; a day of silence counts as offline
+export const DEVICE_DELAYED_AFTER_MINUTES = 15;
+export const DEVICE_OFFLINE_AFTER_HOURS = 24;
+
+export const getDeviceConnectivity = (lastHeartbeatAt: string | null, at: Date = new Date()): DeviceConnectivity => {
+  if (!lastHeartbeatAt) return 'unknown';
+
+  const silentMinutes = (at.getTime() - new Date(lastHeartbeatAt).getTime()) / 60000;
+  if (silentMinutes >= DEVICE_OFFLINE_AFTER_HOURS * 60) return 'offline';
+  if (silentMinutes >= DEVICE_DELAYED_AFTER_MINUTES) return 'delayed';
+  return 'online';
+};
+
+export const getDeviceConnectivityBadgeClass = (connectivity: DeviceConnectivity) => {
+  switch (connectivity) {
+    case 'online': return 'bg-green-100 text-green-800';
+    case 'delayed': return 'bg-yellow-100 text-yellow-800';
+    case 'offline': return 'bg-red-100 text-red-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+// Stored as ticket_events.metadata for event_type 'device_diagnostics'; status is null when the platform
+// does not know the device
+export interface DeviceDiagnosticsSnapshot {
+  adapter: string;
+  lookup: DeviceLookup;
+  fetched_at: string;
+  status: DeviceStatus | null;
+}
@@ -0,0 +1,123 @@
+// Customer phone numbers in E.164 ("+6281234567890", "+60123456789"). Numbers typed without a country code
+// are Indonesian. Shared by the web app (via the @shared alias) and the edge functions. Keep in sync with
+// normalize_phone_number() and the phone_country_codes table in the database.
+
+export type PhoneLineType = 'mobile' | 'landline' | 'unknown';
+
+interface CountryCallingCode {
+  country: string;
+  // National numbers matching this are mobiles; everything else in the country is a landline.
+  // Absent where the two cannot be told apart by prefix.
+  mobilePattern?: RegExp;
+}
+
+export const COUNTRY_CALLING_CODES: Record<string, CountryCallingCode> = {
+  '62': { country: 'Indonesia', mobilePattern: /^8[1-9]\d{7,10}$/ },
+  '60': { country: 'Malaysia', mobilePattern: /^1\d{8,9}$/ },
+  '65': { country: 'Singapura', mobilePattern: /^[89]\d{7}$/ },
+  '673': { country: 'Brunei', mobilePattern: /^[78]\d{6}$/ },
+  '670': { country: 'Timor Leste', mobilePattern: /^7\d{7}$/ },
+  '63': { country: 'Filipina', mobilePattern: /^9\d{9}$/ },
+  '66': { country: 'Thailand', mobilePattern: /^[689]\d{8}$/ },
+  '84': { country: 'Vietnam', mobilePattern: /^[35789]\d{8}$/ },
+  '61': { country: 'Australia', mobilePattern: /^4\d{8}$/ },
+  '86': { country: 'Tiongkok', mobilePattern: /^1\d{10}$/ },
+  '852': { country: 'Hong Kong', mobilePattern: /^[4-9]\d{7}$/ },
+  '886': { country: 'Taiwan', mobilePattern: /^9\d{8}$/ },
+  '81': { country: 'Jepang', mobilePattern: /^[789]0\d{8}$/ },
+  '82': { country: 'Korea Selatan', mobilePattern: /^10\d{7,8}$/ },
+  '91': { country: 'India', mobilePattern: /^[6-9]\d{9}$/ },
+  '966': { country: 'Arab Saudi', mobilePattern: /^5\d{8}$/ },
+  '971': { country: 'Uni Emirat Arab', mobilePattern: /^5\d{8}$/ },
+  '31': { country: 'Belanda', mobilePattern: /^6\d{8}$/ },
+  '44': { country: 'Inggris', mobilePattern: /^7\d{9}$/ },
+  '49': { country: 'Jerman', mobilePattern: /^1[5-7]\d{8,9}$/ },
+  '1': { country: 'Amerika Serikat / Kanada' },
+};
+
+export interface ParsedPhoneNumber {
+  e164: string;
+  countryCode: string;
+  country: string;
+  nationalNumber: string;
+  lineType: PhoneLineType;
+  // Landlines cannot receive WhatsApp messages
+  whatsappCapable: boolean;
+}
+
+// Exactly one of phone / error is set
+export interface PhoneParseResult {
+  phone: ParsedPhoneNumber | null;
+  error: string | null;
+}
+
+const findCallingCode = (digits: string): string | null => {
+  for (const length of [3, 2, 1]) {
+    const code = digits.slice(0, length);
+    if (COUNTRY_CALLING_CODES[code]) return code;
+  }
+  return null;
+};
+
+// Accepts "+60 12-345 6789", "0060123456789", "0812 3456 7890", "6281234567890" and "812..." (leading 0
+// forgotten). Digits without a + are read as international only when they do not look Indonesian.
+export const parsePhoneNumber = (input: string | null | undefined): PhoneParseResult => {
+  const compact = (input ?? '').trim().replace(/[\s().-]/g, '');
+  if (!compact) {
+    return { phone: null, error: 'Nomor telepon diperlukan.' };
+  }
+
+  if (!/^(\+|00)?\d+$/.test(compact)) {
+    return { phone: null, error: 'Nomor telepon hanya boleh berisi angka dan awalan +.' };
+  }
+
+  let digits: string;
+  if (compact.startsWith('+')) {
+    digits = compact.slice(1);
+  } else if (compact.startsWith('00')) {
+    digits = compact.slice(2);
+  } else if (compact.startsWith('0')) {
+    digits = `62${compact.slice(1)}`;
+  } else if (compact.startsWith('8')) {
+    digits = `62${compact}`;
+  } else {
+    digits = compact;
+  }
+
+  // "+62 0812..." keeps the trunk 0 by mistake
+  if (digits.startsWith('620')) {
+    digits = `62${digits.slice(3)}`;
+  }
+
+  const countryCode = findCallingCode(digits);
+  if (!countryCode) {
+    return { phone: null, error: 'Kode negara nomor telepon tidak dikenali.' };
+  }
+
+  const nationalNumber = digits.slice(countryCode.length);
+  if (!/^[1-9]\d{5,13}$/.test(nationalNumber) || digits.length > 15) {
+    return { phone: null, error: 'Panjang nomor telepon tidak valid.' };
+  }
+
+  const { country, mobilePattern } = COUNTRY_CALLING_CODES[countryCode];
+  const lineType: PhoneLineType = !mobilePattern
+    ? 'unknown'
+    : mobilePattern.test(nationalNumber) ? 'mobile' : 'landline';
+
+  return {
+    phone: {
+      e164: `+${digits}`,
+      countryCode,
+      country,
+      nationalNumber,
+      lineType,
+      whatsappCapable: lineType !== 'landline',
+    },
+    error: null,
+  };
+};
+
+// E.164 form, or null when the number does not parse
+export const normalizePhoneNumber = (input: string | null | undefined): string | null => {
+  return parsePhoneNumber(input).phone?.e164 ?? null;
+};
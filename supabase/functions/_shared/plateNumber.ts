@@ -0,0 +1,114 @@
+// Indonesian vehicle registration plates (TNKB): a 1-2 letter region code, a 1-4 digit number and an
+// optional 1-3 letter suffix, written "B 1234 XYZ". Shared by the web app (via the @shared alias) and the
+// edge functions. Keep in sync with parse_plate_number() and the plate_regions table in the database.
+
+export const PLATE_REGIONS: Record<string, string> = {
+  A: 'Banten',
+  B: 'Jakarta',
+  D: 'Jawa Barat',
+  E: 'Jawa Barat',
+  F: 'Jawa Barat',
+  T: 'Jawa Barat',
+  Z: 'Jawa Barat',
+  G: 'Jawa Tengah',
+  H: 'Jawa Tengah',
+  K: 'Jawa Tengah',
+  R: 'Jawa Tengah',
+  AA: 'Jawa Tengah',
+  AD: 'Jawa Tengah',
+  AB: 'DI Yogyakarta',
+  L: 'Jawa Timur',
+  M: 'Jawa Timur',
+  N: 'Jawa Timur',
+  P: 'Jawa Timur',
+  S: 'Jawa Timur',
+  W: 'Jawa Timur',
+  AE: 'Jawa Timur',
+  AG: 'Jawa Timur',
+  BL: 'Aceh',
+  BB: 'Sumatera Utara',
+  BK: 'Sumatera Utara',
+  BA: 'Sumatera Barat',
+  BM: 'Riau',
+  BP: 'Kepulauan Riau',
+  BH: 'Jambi',
+  BD: 'Bengkulu',
+  BG: 'Sumatera Selatan',
+  BN: 'Kepulauan Bangka Belitung',
+  BE: 'Lampung',
+  DK: 'Bali',
+  DR: 'Nusa Tenggara Barat',
+  EA: 'Nusa Tenggara Barat',
+  DH: 'Nusa Tenggara Timur',
+  EB: 'Nusa Tenggara Timur',
+  ED: 'Nusa Tenggara Timur',
+  KB: 'Kalimantan Barat',
+  DA: 'Kalimantan Selatan',
+  KH: 'Kalimantan Tengah',
+  KT: 'Kalimantan Timur',
+  KU: 'Kalimantan Utara',
+  DB: 'Sulawesi Utara',
+  DL: 'Sulawesi Utara',
+  DM: 'Gorontalo',
+  DN: 'Sulawesi Tengah',
+  DD: 'Sulawesi Selatan',
+  DC: 'Sulawesi Barat',
+  DT: 'Sulawesi Tenggara',
+  DE: 'Maluku',
+  DG: 'Maluku Utara',
+  PA: 'Papua',
+  DS: 'Papua',
+  PB: 'Papua Barat',
+};
+
+export interface ParsedPlate {
+  regionCode: string;
+  number: string;
+  suffix: string;
+  region: string;
+  canonical: string;
+}
+
+// Exactly one of plate / error is set
+export interface PlateParseResult {
+  plate: ParsedPlate | null;
+  error: string | null;
+}
+
+const PLATE_PATTERN = /^([A-Z]{1,2})([1-9][0-9]{0,3})([A-Z]{0,3})$/;
+
+// Accepts any spacing, case and separators ("b1234xyz", "B-1234-XYZ"); the parts are told apart by the
+// switch between letters and digits.
+export const parsePlateNumber = (input: string | null | undefined): PlateParseResult => {
+  const compact = (input ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+  if (!compact) {
+    return { plate: null, error: 'No plat kendaraan diperlukan.' };
+  }
+
+  const match = compact.match(PLATE_PATTERN);
+  if (!match) {
+    return { plate: null, error: 'Format no plat tidak dikenali. Contoh: B 1234 XYZ.' };
+  }
+
+  const [, regionCode, number, suffix] = match;
+  const region = PLATE_REGIONS[regionCode];
+  if (!region) {
+    return { plate: null, error: `Kode wilayah plat "${regionCode}" tidak dikenal.` };
+  }
+
+  return {
+    plate: {
+      regionCode,
+      number,
+      suffix,
+      region,
+      canonical: [regionCode, number, suffix].filter(Boolean).join(' '),
+    },
+    error: null,
+  };
+};
+
+// Canonical "B 1234 XYZ" form, or null when the plate does not parse
+export const canonicalizePlateNumber = (input: string | null | undefined): string | null => {
+  return parsePlateNumber(input).plate?.canonical ?? null;
+};
@@ -0,0 +1,68 @@
+// GPS simcards are Indonesian mobile numbers, stored in E.164 ("+6281234567890") together with the operator
+// derived from the prefix. Shared by the web app (via the @shared alias) and the edge functions. Keep in
+// sync with normalize_simcard_number() and simcard_operator() in the database.
+
+export const SIMCARD_OPERATORS = ['telkomsel', 'indosat', 'xl', 'axis', 'tri', 'smartfren'] as const;
+export type SimcardOperator = typeof SIMCARD_OPERATORS[number];
+
+export const SIMCARD_OPERATOR_LABELS: Record<SimcardOperator, string> = {
+  telkomsel: 'Telkomsel',
+  indosat: 'Indosat',
+  xl: 'XL',
+  axis: 'Axis',
+  tri: 'Tri',
+  smartfren: 'Smartfren',
+};
+
+// First three digits after the country code
+const OPERATOR_PREFIXES: Record<SimcardOperator, string[]> = {
+  telkomsel: ['811', '812', '813', '821', '822', '823', '851', '852', '853'],
+  indosat: ['814', '815', '816', '855', '856', '857', '858'],
+  xl: ['817', '818', '819', '859', '877', '878'],
+  axis: ['831', '832', '833', '838'],
+  tri: ['895', '896', '897', '898', '899'],
+  smartfren: ['881', '882', '883', '884', '885', '886', '887', '888', '889'],
+};
+
+export interface ParsedSimcard {
+  e164: string;
+  // null for mobile prefixes we do not know the operator of
+  operator: SimcardOperator | null;
+}
+
+// Exactly one of simcard / error is set
+export interface SimcardParseResult {
+  simcard: ParsedSimcard | null;
+  error: string | null;
+}
+
+export const getSimcardOperator = (e164: string | null | undefined): SimcardOperator | null => {
+  const prefix = (e164 ?? '').slice(3, 6);
+  return SIMCARD_OPERATORS.find((operator) => OPERATOR_PREFIXES[operator].includes(prefix)) ?? null;
+};
+
+// Accepts local ("0812-3456-7890"), international ("+62 812 3456 7890", "6281234567890") and
+// "620812..." forms
+export const parseSimcardNumber = (input: string | null | undefined): SimcardParseResult => {
+  const compact = (input ?? '').trim().replace(/[\s().-]/g, '');
+  if (!compact) {
+    return { simcard: null, error: 'No simcard GPS diperlukan.' };
+  }
+
+  if (!/^\+?\d+$/.test(compact)) {
+    return { simcard: null, error: 'No simcard hanya boleh berisi angka.' };
+  }
+
+  const subscriber = compact.replace(/^\+/, '').replace(/^62/, '').replace(/^0/, '');
+  if (!/^8\d{8,11}$/.test(subscriber)) {
+    return { simcard: null, error: 'No simcard harus nomor seluler Indonesia. Contoh: 0812 3456 7890.' };
+  }
+
+  const e164 = `+62${subscriber}`;
+  return { simcard: { e164, operator: getSimcardOperator(e164) }, error: null };
+};
+
+// E.164 form, or null when the number is not an Indonesian mobile number
+export const normalizeSimcardNumber = (input: string | null | undefined): string | null => {
+  return parseSimcardNumber(input).simcard?.e164 ?? null;
+};
@@ -11,7 +11,7 @@ const ALLOWED_ORIGINS = [
   'http://localhost:4174',
 ];
 
-const VALID_ROLES = ['admin', 'customer_service', 'sales'] as const;
+const VALID_ROLES = ['admin', 'customer_service', 'sales', 'technician'] as const;
 type ValidRole = typeof VALID_ROLES[number];
 
 function isValidRole(role: string): role is ValidRole {
@@ -0,0 +1,70 @@
+// Local fixture sender: signs a fixture like the tracking platform does and POSTs it to device-alert-ingest.
+//
+//   deno run --allow-net --allow-env --allow-read supabase/functions/device-alert-ingest/fixtures/send.ts \
+//     power-cut.json [--imei=864893030123450] [--simcard=081234567890] [--alert-id=evt-1]
+//
+// Each run sends a new alert_id unless --alert-id is given; repeat a run with the same --alert-id to check that a
+// redelivered event is not counted twice. DEVICE_ALERT_WEBHOOK_SECRET must match the function's secret;
+// DEVICE_ALERT_URL defaults to the local functions server.
+
+import { DEVICE_ALERT_SIGNATURE_HEADER } from '../../_shared/deviceAlert.ts';
+
+const DEFAULT_URL = 'http://localhost:54321/functions/v1/device-alert-ingest';
+
+const args = Deno.args.filter((arg) => !arg.startsWith('--'));
+const options = Object.fromEntries(
+  Deno.args
+    .filter((arg) => arg.startsWith('--') && arg.includes('='))
+    .map((arg) => arg.slice(2).split(/=(.*)/s, 2)),
+);
+
+if (args.length !== 1) {
+  console.error('Usage: send.ts <fixture.json> [--imei=...] [--simcard=...] [--alert-id=...]');
+  Deno.exit(1);
+}
+
+const secret = Deno.env.get('DEVICE_ALERT_WEBHOOK_SECRET');
+if (!secret) {
+  console.error('DEVICE_ALERT_WEBHOOK_SECRET is not set');
+  Deno.exit(1);
+}
+
+// Fixture names resolve next to this script
+const fixturePath = args[0].includes('/') ? args[0] : new URL(args[0], import.meta.url);
+const fixture = JSON.parse(await Deno.readTextFile(fixturePath));
+
+if (options.imei) {
+  fixture.imei = options.imei;
+  delete fixture.simcard;
+}
+if (options.simcard) {
+  fixture.simcard = options.simcard;
+  delete fixture.imei;
+}
+fixture.alert_id = options['alert-id'] ?? `fixture-${crypto.randomUUID()}`;
+fixture.occurred_at = fixture.occurred_at ?? new Date().toISOString();
+
+const body = JSON.stringify(fixture);
+const key = await crypto.subtle.importKey(
+  'raw',
+  new TextEncoder().encode(secret),
+  { name: 'HMAC', hash: 'SHA-256' },
+  false,
+  ['sign'],
+);
+const signature = Array.from(
+  new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body))),
+  (byte) => byte.toString(16).padStart(2, '0'),
+).join('');
+
+const response = await fetch(Deno.env.get('DEVICE_ALERT_URL') ?? DEFAULT_URL, {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+    [DEVICE_ALERT_SIGNATURE_HEADER]: `sha256=${signature}`,
+  },
+  body,
+});
+
+console.log(`> ${body}`);
+console.log(`< ${response.status} ${await response.text()}`);
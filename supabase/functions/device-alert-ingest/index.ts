@@ -0,0 +1,162 @@
+/// <reference types="https://deno.land/x/supabase/edge-runtime.d.ts" />
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import {
+  DEVICE_ALERT_SIGNATURE_HEADER,
+  DEVICE_ALERT_TYPES,
+  DeviceAlertPayload,
+} from '../_shared/deviceAlert.ts';
+import { parseSimcardNumber } from '../_shared/simcardNumber.ts';
+
+// Webhook, not called from the browser: the GPS tracking platform POSTs device alerts here, signed with the
+// shared DEVICE_ALERT_WEBHOOK_SECRET. Matching, de-duplication and the ticket itself are done by the
+// ingest_device_alert() database function.
+
+function jsonResponse(body: object, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+async function verifySignature(rawBody: string, signature: string, secret: string): Promise<boolean> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const expected = toHex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(rawBody)));
+  const received = signature.trim().toLowerCase().replace(/^sha256=/, '');
+
+  // Constant-time comparison
+  if (received.length !== expected.length) return false;
+  let difference = 0;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ received.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+function validatePayload(data: unknown): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (typeof data !== 'object' || data === null) {
+    return { valid: false, errors: ['Payload harus berupa JSON object'] };
+  }
+
+  const payload = data as Record<string, unknown>;
+
+  if (typeof payload.alert_type !== 'string' || !(DEVICE_ALERT_TYPES as readonly string[]).includes(payload.alert_type)) {
+    errors.push(`alert_type harus salah satu dari: ${DEVICE_ALERT_TYPES.join(', ')}`);
+  }
+
+  // Device: IMEI or simcard number
+  const hasImei = typeof payload.imei === 'string' && payload.imei.trim().length > 0;
+  const hasSimcard = typeof payload.simcard === 'string' && payload.simcard.trim().length > 0;
+  if (!hasImei && !hasSimcard) {
+    errors.push('imei atau simcard diperlukan');
+  }
+  if (hasImei && !/^[0-9]{15}$/.test((payload.imei as string).trim())) {
+    errors.push('imei harus 15 digit angka');
+  }
+  if (hasSimcard) {
+    const { error } = parseSimcardNumber(payload.simcard as string);
+    if (error) {
+      errors.push(error);
+    }
+  }
+
+  if (payload.occurred_at !== undefined
+    && (typeof payload.occurred_at !== 'string' || Number.isNaN(Date.parse(payload.occurred_at)))) {
+    errors.push('occurred_at harus berupa waktu ISO 8601');
+  }
+
+  if (payload.alert_id !== undefined && (typeof payload.alert_id !== 'string' || payload.alert_id.length > 255)) {
+    errors.push('alert_id harus string maksimal 255 karakter');
+  }
+
+  if (payload.details !== undefined && (typeof payload.details !== 'object' || payload.details === null)) {
+    errors.push('details harus berupa JSON object');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const webhookSecret = Deno.env.get('DEVICE_ALERT_WEBHOOK_SECRET') ?? '';
+  if (!webhookSecret) {
+    console.error('[device-alert-ingest] DEVICE_ALERT_WEBHOOK_SECRET is not set');
+    return jsonResponse({ error: 'Server configuration error' }, 500);
+  }
+
+  try {
+    // Verify the signature over the exact bytes received, before parsing
+    const rawBody = await req.text();
+    const signature = req.headers.get(DEVICE_ALERT_SIGNATURE_HEADER) ?? '';
+    if (!signature || !(await verifySignature(rawBody, signature, webhookSecret))) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return jsonResponse({ error: 'Invalid JSON in request body' }, 400);
+    }
+
+    const validation = validatePayload(payload);
+    if (!validation.valid) {
+      return jsonResponse({ error: 'Validasi gagal', details: validation.errors }, 400);
+    }
+
+    const alert = payload as DeviceAlertPayload;
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data, error } = await supabase
+      .rpc('ingest_device_alert', {
+        p_alert_type: alert.alert_type,
+        p_imei: alert.imei?.trim() || null,
+        p_simcard: alert.simcard?.trim() ? parseSimcardNumber(alert.simcard).simcard.e164 : null,
+        p_occurred_at: alert.occurred_at ?? null,
+        p_external_id: alert.alert_id ?? null,
+        p_payload: alert.details ?? {},
+      })
+      .single();
+
+    if (error) {
+      console.error('[device-alert-ingest] Ingest error:', error.message);
+      return jsonResponse({ error: 'Gagal memproses alert', details: error.message }, 500);
+    }
+
+    // Unknown devices are accepted (and logged) so the platform does not keep retrying them
+    if (data.outcome === 'unmatched') {
+      console.warn(`[device-alert-ingest] No registered device for imei=${alert.imei ?? '-'} simcard=${alert.simcard ?? '-'}`);
+    } else {
+      console.log(`[device-alert-ingest] ${alert.alert_type} ${data.outcome}: ${data.ticket_number}`);
+    }
+
+    return jsonResponse({
+      alert_id: data.alert_id,
+      outcome: data.outcome,
+      ticket_number: data.ticket_number,
+    }, data.outcome === 'created' ? 201 : 200);
+  } catch (error) {
+    console.error('[device-alert-ingest] Unhandled error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
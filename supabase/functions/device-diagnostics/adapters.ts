@@ -0,0 +1,123 @@
+import { DeviceLookup, DeviceStatus } from '../_shared/deviceStatus.ts';
+
+// A GPS tracking platform the diagnostics can be fetched from. Resolves to null when the platform does not
+// know the device; rejects when the platform cannot be reached.
+export interface TrackingPlatformAdapter {
+  name: string;
+  getDeviceStatus(lookup: DeviceLookup): Promise<DeviceStatus | null>;
+}
+
+const HTTP_TIMEOUT_MS = 8000;
+
+const toNumber = (value: unknown): number | null => {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+};
+
+const toText = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+/**
+ * Tracking platform REST API:
+ *   GET {baseUrl}/devices/status?imei=...   (or ?simcard=+62...)
+ *   Authorization: Bearer {apiKey}
+ * 200 with the device status below, 404 when the device is unknown.
+ */
+export const createHttpTrackingAdapter = (baseUrl: string, apiKey: string): TrackingPlatformAdapter => ({
+  name: 'http',
+  async getDeviceStatus(lookup) {
+    const url = new URL(`${baseUrl.replace(/\/+$/, '')}/devices/status`);
+    if (lookup.imei) url.searchParams.set('imei', lookup.imei);
+    else if (lookup.simcard) url.searchParams.set('simcard', lookup.simcard);
+
+    const response = await fetch(url, {
+      headers: { Authorization: `Bearer ${apiKey}`, Accept: 'application/json' },
+      signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+    });
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Tracking platform responded ${response.status}`);
+    }
+
+    const body = await response.json();
+    const position = body.position ?? null;
+    const latitude = toNumber(position?.lat);
+    const longitude = toNumber(position?.lng);
+
+    return {
+      imei: toText(body.imei) ?? lookup.imei,
+      simcard: toText(body.simcard) ?? lookup.simcard,
+      lastHeartbeatAt: toText(body.last_heartbeat_at),
+      position: latitude !== null && longitude !== null
+        ? {
+          latitude,
+          longitude,
+          speedKph: toNumber(position.speed_kph),
+          recordedAt: toText(position.recorded_at) ?? toText(body.last_heartbeat_at) ?? new Date().toISOString(),
+          address: toText(position.address),
+        }
+        : null,
+      gsmSignal: toNumber(body.gsm_signal),
+      satellites: toNumber(body.satellites),
+      externalPowerVolts: toNumber(body.external_power_volts),
+      ignitionOn: typeof body.ignition === 'boolean' ? body.ignition : null,
+    };
+  },
+});
+
+/**
+ * Local stand-in for development and demos. The scenario follows the last digit of the IMEI (or simcard), so a
+ * device always answers the same way: 0-5 online, 6-7 reporting late, 8 offline for days with the power cut,
+ * 9 unknown to the platform.
+ */
+export const createMockTrackingAdapter = (): TrackingPlatformAdapter => ({
+  name: 'mock',
+  async getDeviceStatus(lookup) {
+    const key = (lookup.imei ?? lookup.simcard ?? '').replace(/\D/g, '');
+    const lastDigit = Number(key.slice(-1) || '0');
+    if (lastDigit === 9) return null;
+
+    // Spread the mock vehicles around Jakarta
+    const seed = key.split('').reduce((total, digit) => (total * 31 + Number(digit)) % 100000, 7);
+    const now = Date.now();
+    const silentMinutes = lastDigit <= 5 ? 2 : lastDigit <= 7 ? 180 : 3 * 24 * 60;
+    const lastHeartbeatAt = new Date(now - silentMinutes * 60000).toISOString();
+
+    return {
+      imei: lookup.imei,
+      simcard: lookup.simcard,
+      lastHeartbeatAt,
+      position: {
+        latitude: -6.2 + ((seed % 200) - 100) / 1000,
+        longitude: 106.82 + ((Math.floor(seed / 200) % 200) - 100) / 1000,
+        speedKph: lastDigit <= 5 ? seed % 60 : 0,
+        recordedAt: lastHeartbeatAt,
+        address: 'Lokasi simulasi (mock)',
+      },
+      gsmSignal: lastDigit <= 5 ? 60 + (seed % 40) : lastDigit <= 7 ? 15 + (seed % 15) : 0,
+      satellites: lastDigit <= 7 ? 6 + (seed % 6) : 0,
+      externalPowerVolts: lastDigit === 8 ? 0 : 12.4,
+      ignitionOn: lastDigit <= 5 ? seed % 2 === 0 : false,
+    };
+  },
+});
+
+/**
+ * TRACKING_PLATFORM_ADAPTER selects the implementation: 'http' (needs TRACKING_PLATFORM_URL and
+ * TRACKING_PLATFORM_API_KEY) or 'mock'. Defaults to http when a URL is configured, mock otherwise.
+ */
+export const createTrackingAdapterFromEnv = (env: { get(key: string): string | undefined }): TrackingPlatformAdapter => {
+  const baseUrl = env.get('TRACKING_PLATFORM_URL') ?? '';
+  const apiKey = env.get('TRACKING_PLATFORM_API_KEY') ?? '';
+  const adapter = env.get('TRACKING_PLATFORM_ADAPTER') ?? (baseUrl ? 'http' : 'mock');
+
+  if (adapter === 'mock') return createMockTrackingAdapter();
+  if (adapter === 'http') {
+    if (!baseUrl || !apiKey) {
+      throw new Error('TRACKING_PLATFORM_URL and TRACKING_PLATFORM_API_KEY are required for the http adapter');
+    }
+    return createHttpTrackingAdapter(baseUrl, apiKey);
+  }
+  throw new Error(`Unknown TRACKING_PLATFORM_ADAPTER "${adapter}"`);
+};
@@ -0,0 +1,152 @@
+/// <reference types="https://deno.land/x/supabase/edge-runtime.d.ts" />
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { DeviceDiagnosticsSnapshot, DeviceLookup, getDeviceConnectivity } from '../_shared/deviceStatus.ts';
+import { createTrackingAdapterFromEnv } from './adapters.ts';
+
+// Called from the ticket detail page: fetches the status of the ticket's GPS device from the tracking platform
+// and records the result in the ticket history.
+
+const ALLOWED_ORIGINS = [
+  'https://customercarebkt.vercel.app',
+  'http://localhost:8080',
+  'http://localhost:8081',
+  'http://localhost:3000',
+  'http://localhost:5173',
+  'http://localhost:4173',
+  'http://localhost:4174',
+];
+
+const getCorsHeaders = (origin: string) => ({
+  'Access-Control-Allow-Origin': ALLOWED_ORIGINS.includes(origin) ? origin : ALLOWED_ORIGINS[0],
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Credentials': 'true',
+  'Vary': 'Origin',
+});
+
+function jsonResponse(body: object, status: number, corsHeaders: Record<string, string>) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  const origin = req.headers.get('origin') || '';
+  const corsHeaders = getCorsHeaders(origin);
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405, corsHeaders);
+  }
+
+  try {
+    // 1. Authenticate the agent
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing Authorization header' }, 401, corsHeaders);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+    if (userError || !user) {
+      return jsonResponse({ error: 'Unauthorized', details: userError?.message }, 401, corsHeaders);
+    }
+
+    const { data: profile, error: profileError } = await supabaseClient
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (profileError) {
+      console.error('[device-diagnostics] Profile fetch error:', profileError.message);
+      return jsonResponse({ error: 'Failed to verify role', details: profileError.message }, 500, corsHeaders);
+    }
+
+    if (profile?.role !== 'admin' && profile?.role !== 'customer_service') {
+      return jsonResponse({ error: 'Forbidden: customer service access required' }, 403, corsHeaders);
+    }
+
+    // 2. Load the ticket as the agent, so team visibility rules apply
+    const body = await req.json().catch(() => ({}));
+    const ticketId = typeof body.ticket_id === 'string' ? body.ticket_id : '';
+    if (!ticketId) {
+      return jsonResponse({ error: 'ticket_id wajib diisi' }, 400, corsHeaders);
+    }
+
+    const { data: ticket, error: ticketError } = await supabaseClient
+      .from('tickets')
+      .select('id, no_simcard_gps, gps_device:gps_devices(imei, simcard_number)')
+      .eq('id', ticketId)
+      .maybeSingle();
+
+    if (ticketError) {
+      console.error('[device-diagnostics] Ticket fetch error:', ticketError.message);
+      return jsonResponse({ error: 'Failed to load ticket', details: ticketError.message }, 500, corsHeaders);
+    }
+    if (!ticket) {
+      return jsonResponse({ error: 'Tiket tidak ditemukan' }, 404, corsHeaders);
+    }
+
+    // The registered device's IMEI identifies the tracker best; the reported simcard is the fallback
+    const device = Array.isArray(ticket.gps_device) ? ticket.gps_device[0] : ticket.gps_device;
+    const lookup: DeviceLookup = {
+      imei: device?.imei ?? null,
+      simcard: ticket.no_simcard_gps ?? device?.simcard_number ?? null,
+    };
+    if (!lookup.imei && !lookup.simcard) {
+      return jsonResponse({ error: 'Tiket tidak memiliki IMEI atau no simcard GPS' }, 422, corsHeaders);
+    }
+
+    // 3. Ask the tracking platform
+    const adapter = createTrackingAdapterFromEnv(Deno.env);
+    let status;
+    try {
+      status = await adapter.getDeviceStatus(lookup);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[device-diagnostics] ${adapter.name} adapter failed:`, message);
+      return jsonResponse({ error: 'Platform tracking tidak dapat dihubungi', details: message }, 502, corsHeaders);
+    }
+
+    const snapshot: DeviceDiagnosticsSnapshot = {
+      adapter: adapter.name,
+      lookup,
+      fetched_at: new Date().toISOString(),
+      status,
+    };
+
+    // 4. Record the snapshot; ticket_events is only writable with the service role
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { error: eventError } = await supabaseAdmin.from('ticket_events').insert({
+      ticket_id: ticket.id,
+      event_type: 'device_diagnostics',
+      new_value: status ? getDeviceConnectivity(status.lastHeartbeatAt) : 'not_found',
+      actor_id: user.id,
+      metadata: snapshot,
+    });
+
+    if (eventError) {
+      console.error('[device-diagnostics] Event insert error:', eventError.message);
+      return jsonResponse({ error: 'Failed to record diagnostics', details: eventError.message }, 500, corsHeaders);
+    }
+
+    return jsonResponse({ snapshot }, 200, corsHeaders);
+  } catch (error) {
+    console.error('[device-diagnostics] Unhandled error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500, corsHeaders);
+  }
+});
@@ -1,5 +1,8 @@
 /// <reference types="https://deno.land/x/supabase/edge-runtime.d.ts" />
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { canonicalizePlateNumber, parsePlateNumber } from '../_shared/plateNumber.ts';
+import { normalizeSimcardNumber, parseSimcardNumber } from '../_shared/simcardNumber.ts';
+import { parsePhoneNumber } from '../_shared/phoneNumber.ts';
 
 const ALLOWED_ORIGINS = [
   'https://customercarebkt.vercel.app',
@@ -88,6 +91,12 @@ function validatePayload(data: unknown): { valid: boolean; errors: string[] } {
     errors.push('Customer WhatsApp diperlukan');
   } else if (payload.customer_whatsapp.length > 20) {
     errors.push('Customer WhatsApp maksimal 20 karakter');
+  } else {
+    // Normalized to E.164 (customer_whatsapp_e164) by the database; foreign country codes are allowed
+    const { error } = parsePhoneNumber(payload.customer_whatsapp);
+    if (error) {
+      errors.push(error);
+    }
   }
 
   // Category
@@ -96,18 +105,24 @@ function validatePayload(data: unknown): { valid: boolean; errors: string[] } {
     errors.push('Category tidak valid');
   }
 
-  // No plat kendaraan
+  // No plat kendaraan: region code, number and suffix, e.g. "B 1234 XYZ"
   if (typeof payload.no_plat_kendaraan !== 'string' || payload.no_plat_kendaraan.trim().length === 0) {
     errors.push('No plat kendaraan diperlukan');
-  } else if (!/^[A-Za-z0-9 ]{1,15}$/.test(payload.no_plat_kendaraan)) {
-    errors.push('No plat kendaraan hanya boleh berisi huruf/angka/spasi, max 15 karakter');
+  } else {
+    const { error } = parsePlateNumber(payload.no_plat_kendaraan);
+    if (error) {
+      errors.push(error);
+    }
   }
 
-  // No simcard GPS
+  // No simcard GPS: Indonesian mobile number in any common form, stored as E.164
   if (typeof payload.no_simcard_gps !== 'string' || payload.no_simcard_gps.trim().length === 0) {
     errors.push('No simcard GPS diperlukan');
-  } else if (!/^08\d{0,13}$/.test(payload.no_simcard_gps)) {
-    errors.push('No simcard GPS harus diawali 08, maksimal 15 digit');
+  } else {
+    const { error } = parseSimcardNumber(payload.no_simcard_gps);
+    if (error) {
+      errors.push(error);
+    }
   }
 
   // Turnstile token
@@ -249,8 +264,9 @@ Deno.serve(async (req: Request) => {
       customer_name: data.customer_name.trim(),
       customer_whatsapp: data.customer_whatsapp.trim(),
       category: data.category,
-      no_plat_kendaraan: data.no_plat_kendaraan.trim(),
-      no_simcard_gps: data.no_simcard_gps.trim(),
+      source: 'public_form',
+      no_plat_kendaraan: canonicalizePlateNumber(data.no_plat_kendaraan),
+      no_simcard_gps: normalizeSimcardNumber(data.no_simcard_gps),
       status: 'open',
       priority: 'medium',
       attachments: [],
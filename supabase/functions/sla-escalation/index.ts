@@ -0,0 +1,181 @@
+/// <reference types="https://deno.land/x/supabase/edge-runtime.d.ts" />
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+
+// Scheduled job, not called from the browser: pg_cron (or a local cron) POSTs here with the service role key.
+
+type EscalationLevel = 'warning' | 'breach';
+
+interface CandidateTicket {
+  id: string;
+  ticket_number: string;
+  title: string;
+  priority: string;
+  category: string | null;
+  assigned_to: string | null;
+}
+
+interface EscalationRow {
+  previous_priority: string;
+  new_priority: string;
+}
+
+interface EscalationResult {
+  ticket_number: string;
+  level: EscalationLevel;
+  previous_priority: string;
+  new_priority: string;
+  notified: number;
+}
+
+function jsonResponse(body: object, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Tickets that crossed the threshold for `level` and have no escalation row for it yet.
+ * Paused tickets have no deadline (sla_warning_at / sla_due_at are NULL), so they never match.
+ */
+async function findCandidates(
+  supabase: SupabaseClient,
+  level: EscalationLevel,
+  now: string,
+): Promise<CandidateTicket[]> {
+  const thresholdColumn = level === 'warning' ? 'sla_warning_at' : 'sla_due_at';
+
+  const { data: tickets, error } = await supabase
+    .from('tickets')
+    .select('id, ticket_number, title, priority, category, assigned_to')
+    .not('status', 'in', '(resolved,closed)')
+    .lte(thresholdColumn, now);
+
+  if (error) throw new Error(`Failed to load ${level} candidates: ${error.message}`);
+  if (!tickets || tickets.length === 0) return [];
+
+  const { data: existing, error: existingError } = await supabase
+    .from('sla_escalations')
+    .select('ticket_id')
+    .eq('level', level)
+    .in('ticket_id', tickets.map((ticket) => ticket.id));
+
+  if (existingError) throw new Error(`Failed to load existing escalations: ${existingError.message}`);
+
+  const escalated = new Set((existing ?? []).map((row) => row.ticket_id));
+  return tickets.filter((ticket) => !escalated.has(ticket.id));
+}
+
+async function escalateTicket(
+  supabase: SupabaseClient,
+  ticket: CandidateTicket,
+  level: EscalationLevel,
+  adminIds: string[],
+  availableIds: Set<string>,
+): Promise<EscalationResult | null> {
+  // Claim, priority bump and event commit together; no row back means the level was already escalated
+  const { data: escalation, error: escalationError } = await supabase
+    .rpc('escalate_ticket_sla', { p_ticket_id: ticket.id, p_level: level })
+    .maybeSingle<EscalationRow>();
+
+  if (escalationError) throw new Error(`Failed to escalate: ${escalationError.message}`);
+  if (!escalation) return null;
+
+  const { previous_priority: previousPriority, new_priority: newPriority } = escalation;
+
+  // Skip agents who are away or off shift; if nobody is available, fall back to every admin so the escalation is not lost
+  const staff = [...new Set([ticket.assigned_to, ...adminIds].filter((id): id is string => !!id))];
+  const available = staff.filter((id) => availableIds.has(id));
+  const recipients = available.length > 0 ? available : adminIds;
+  const title = level === 'warning'
+    ? `Tiket ${ticket.ticket_number} mendekati batas SLA`
+    : `Tiket ${ticket.ticket_number} melewati batas SLA`;
+  const body = newPriority !== previousPriority
+    ? `${ticket.title} — prioritas dinaikkan dari ${previousPriority} ke ${newPriority}.`
+    : ticket.title;
+
+  if (recipients.length > 0) {
+    const { error: notifyError } = await supabase.from('notifications').insert(
+      recipients.map((recipientId) => ({
+        recipient_id: recipientId,
+        ticket_id: ticket.id,
+        type: `sla_${level}`,
+        title,
+        body,
+      })),
+    );
+
+    // The escalation itself is already committed and is not retried; only the notification is lost
+    if (notifyError) throw new Error(`Escalated, but failed to notify: ${notifyError.message}`);
+  }
+
+  return {
+    ticket_number: ticket.ticket_number,
+    level,
+    previous_priority: previousPriority,
+    new_priority: newPriority,
+    notified: recipients.length,
+  };
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+  const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+  if (!supabaseUrl || !supabaseServiceRoleKey) {
+    console.error('[sla-escalation] Missing Supabase environment variables');
+    return jsonResponse({ error: 'Server configuration error' }, 500);
+  }
+
+  // Only the scheduler may trigger escalations
+  if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceRoleKey}`) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+    const now = new Date().toISOString();
+
+    const { data: admins, error: adminsError } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('role', 'admin');
+
+    if (adminsError) throw new Error(`Failed to load admins: ${adminsError.message}`);
+    const adminIds = (admins ?? []).map((admin) => admin.id);
+
+    const { data: availableAgents, error: availableError } = await supabase.rpc('get_available_agents');
+
+    if (availableError) throw new Error(`Failed to load available agents: ${availableError.message}`);
+    const availableIds = new Set<string>(availableAgents ?? []);
+
+    const escalations: EscalationResult[] = [];
+    const failures: { ticket_number: string; level: EscalationLevel; error: string }[] = [];
+
+    for (const level of ['warning', 'breach'] as const) {
+      const candidates = await findCandidates(supabase, level, now);
+
+      for (const ticket of candidates) {
+        try {
+          const result = await escalateTicket(supabase, ticket, level, adminIds, availableIds);
+          if (result) escalations.push(result);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(`[sla-escalation] ${ticket.ticket_number} (${level}): ${message}`);
+          failures.push({ ticket_number: ticket.ticket_number, level, error: message });
+        }
+      }
+    }
+
+    console.log(`[sla-escalation] Escalated ${escalations.length} ticket level(s), ${failures.length} failure(s)`);
+
+    return jsonResponse({ success: failures.length === 0, escalations, failures }, failures.length === 0 ? 200 : 207);
+  } catch (error) {
+    console.error('[sla-escalation] Unhandled error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
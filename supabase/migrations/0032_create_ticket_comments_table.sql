@@ -0,0 +1,46 @@
+-- Threaded conversation on tickets
+-- visibility = 'internal' -> internal note, only visible to admin/customer_service
+-- visibility = 'public'   -> reply to the customer, also rendered on the public ticket page
+
+CREATE TABLE IF NOT EXISTS public.ticket_comments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  ticket_id UUID NOT NULL REFERENCES public.tickets(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  visibility TEXT NOT NULL DEFAULT 'internal' CHECK (visibility IN ('internal', 'public')),
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 5000),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS ticket_comments_ticket_id_created_at_idx
+ON public.ticket_comments (ticket_id, created_at);
+
+-- Enable RLS (REQUIRED for security)
+ALTER TABLE public.ticket_comments ENABLE ROW LEVEL SECURITY;
+
+-- Admin & CS can read the whole conversation, including internal notes
+CREATE POLICY "Customer service and admins can view all ticket comments" ON public.ticket_comments
+FOR SELECT TO authenticated
+USING (
+  (get_my_role() IN ('admin', 'customer_service'))
+);
+
+-- Customer-visible replies are readable through the public ticket link (see 0031)
+CREATE POLICY "Anyone can view customer-visible replies" ON public.ticket_comments
+FOR SELECT TO anon, authenticated
+USING (visibility = 'public');
+
+-- Admin & CS can post, always as themselves
+CREATE POLICY "Customer service and admins can add ticket comments" ON public.ticket_comments
+FOR INSERT TO authenticated
+WITH CHECK (
+  (get_my_role() IN ('admin', 'customer_service')) AND
+  (author_id = auth.uid())
+);
+
+-- Authors can remove their own comment, admins can remove any
+CREATE POLICY "Authors and admins can delete ticket comments" ON public.ticket_comments
+FOR DELETE TO authenticated
+USING (
+  (author_id = auth.uid()) OR
+  (get_my_role() = 'admin')
+);
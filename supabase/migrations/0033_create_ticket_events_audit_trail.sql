@@ -0,0 +1,71 @@
+-- Ticket activity timeline
+-- Every change to status, priority or assigned_to is recorded by a trigger on public.tickets,
+-- together with the acting user (auth.uid()) and a timestamp.
+-- event_type is kept generic so other subsystems can append their own history entries.
+
+CREATE TABLE IF NOT EXISTS public.ticket_events (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  ticket_id UUID NOT NULL REFERENCES public.tickets(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL, -- 'created', 'field_changed'
+  field TEXT,               -- only for 'field_changed'
+  old_value TEXT,
+  new_value TEXT,
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL, -- NULL = system / public submission
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS ticket_events_ticket_id_created_at_idx
+ON public.ticket_events (ticket_id, created_at);
+
+-- Enable RLS (REQUIRED for security)
+ALTER TABLE public.ticket_events ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for admin & CS. There is intentionally no INSERT/UPDATE/DELETE policy:
+-- rows are only written by SECURITY DEFINER functions so the trail cannot be forged.
+CREATE POLICY "Customer service and admins can view ticket events" ON public.ticket_events
+FOR SELECT TO authenticated
+USING (
+  (get_my_role() IN ('admin', 'customer_service'))
+);
+
+-- Trigger function: write one row per changed field
+CREATE OR REPLACE FUNCTION public.log_ticket_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor UUID := auth.uid();
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, new_value, actor_id)
+    VALUES (NEW.id, 'created', NEW.status, _actor);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'field_changed', 'status', OLD.status, NEW.status, _actor);
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'field_changed', 'priority', OLD.priority, NEW.priority, _actor);
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'field_changed', 'assigned_to', OLD.assigned_to::TEXT, NEW.assigned_to::TEXT, _actor);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_ticket_changes ON public.tickets;
+CREATE TRIGGER log_ticket_changes
+AFTER INSERT OR UPDATE ON public.tickets
+FOR EACH ROW
+EXECUTE FUNCTION public.log_ticket_changes();
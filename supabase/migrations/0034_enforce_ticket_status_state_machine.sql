@@ -0,0 +1,107 @@
+-- Server-enforced ticket status state machine
+-- Legal transitions live in ticket_status_transitions; a BEFORE UPDATE trigger rejects everything else
+-- and owns resolved_at / closed_at so clients no longer set them.
+
+-- 1. Track when a ticket was closed
+ALTER TABLE public.tickets
+ADD COLUMN IF NOT EXISTS closed_at TIMESTAMP WITH TIME ZONE;
+
+-- 2. Restrict status to known values
+ALTER TABLE public.tickets DROP CONSTRAINT IF EXISTS tickets_status_check;
+ALTER TABLE public.tickets
+ADD CONSTRAINT tickets_status_check
+CHECK (status IN ('open', 'in_progress', 'resolved', 'closed'));
+
+-- 3. Transition table
+CREATE TABLE IF NOT EXISTS public.ticket_status_transitions (
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  PRIMARY KEY (from_status, to_status)
+);
+
+ALTER TABLE public.ticket_status_transitions ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for the app (used to build the status dropdown), changed only via migrations
+CREATE POLICY "Authenticated users can view status transitions" ON public.ticket_status_transitions
+FOR SELECT TO authenticated
+USING (true);
+
+INSERT INTO public.ticket_status_transitions (from_status, to_status) VALUES
+  ('open', 'in_progress'),
+  ('open', 'closed'),
+  ('in_progress', 'open'),
+  ('in_progress', 'resolved'),
+  ('in_progress', 'closed'),
+  ('resolved', 'in_progress'),
+  ('resolved', 'closed'),
+  ('closed', 'open')
+ON CONFLICT DO NOTHING;
+
+-- 4. Trigger function
+CREATE OR REPLACE FUNCTION public.enforce_ticket_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Status unchanged: timestamps are owned by this trigger, ignore client writes
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    NEW.resolved_at := OLD.resolved_at;
+    NEW.closed_at := OLD.closed_at;
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.ticket_status_transitions
+    WHERE from_status = OLD.status AND to_status = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'Perubahan status dari % ke % tidak diizinkan', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'resolved' THEN
+    IF COALESCE(BTRIM(NEW.resolution_steps), '') = '' THEN
+      RAISE EXCEPTION 'Langkah penyelesaian (resolution_steps) wajib diisi sebelum tiket diselesaikan'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    NEW.resolved_at := NOW();
+    NEW.closed_at := NULL;
+  ELSIF NEW.status = 'closed' THEN
+    -- Keep resolved_at when closing a resolved ticket
+    NEW.resolved_at := OLD.resolved_at;
+    NEW.closed_at := NOW();
+  ELSE
+    -- Back to open / in_progress: ticket is active again
+    NEW.resolved_at := NULL;
+    NEW.closed_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_ticket_status_transition ON public.tickets;
+CREATE TRIGGER enforce_ticket_status_transition
+BEFORE UPDATE ON public.tickets
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_ticket_status_transition();
+
+-- 5. New tickets always start open
+CREATE OR REPLACE FUNCTION public.enforce_ticket_initial_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.status := 'open';
+  NEW.resolved_at := NULL;
+  NEW.closed_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_ticket_initial_status ON public.tickets;
+CREATE TRIGGER enforce_ticket_initial_status
+BEFORE INSERT ON public.tickets
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_ticket_initial_status();
@@ -0,0 +1,149 @@
+-- "Pending customer" and "On hold" statuses that pause the SLA clock
+-- Time spent in these statuses is accumulated in sla_paused_seconds and excluded from SLA calculations.
+
+-- 1. Allow the new statuses
+ALTER TABLE public.tickets DROP CONSTRAINT IF EXISTS tickets_status_check;
+ALTER TABLE public.tickets
+ADD CONSTRAINT tickets_status_check
+CHECK (status IN ('open', 'in_progress', 'pending_customer', 'on_hold', 'resolved', 'closed'));
+
+INSERT INTO public.ticket_status_transitions (from_status, to_status) VALUES
+  ('in_progress', 'pending_customer'),
+  ('in_progress', 'on_hold'),
+  ('pending_customer', 'in_progress'),
+  ('pending_customer', 'on_hold'),
+  ('pending_customer', 'closed'),
+  ('on_hold', 'in_progress'),
+  ('on_hold', 'pending_customer'),
+  ('on_hold', 'closed')
+ON CONFLICT DO NOTHING;
+
+-- 2. SLA pause bookkeeping
+ALTER TABLE public.tickets
+ADD COLUMN IF NOT EXISTS sla_paused_at TIMESTAMP WITH TIME ZONE, -- set while the ticket is in a paused status
+ADD COLUMN IF NOT EXISTS sla_paused_seconds INTEGER NOT NULL DEFAULT 0; -- total paused time so far
+
+-- 3. Extend the status trigger with pause accounting
+CREATE OR REPLACE FUNCTION public.enforce_ticket_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _paused_statuses CONSTANT TEXT[] := ARRAY['pending_customer', 'on_hold'];
+BEGIN
+  -- Status unchanged: timestamps and pause counters are owned by this trigger, ignore client writes
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    NEW.resolved_at := OLD.resolved_at;
+    NEW.closed_at := OLD.closed_at;
+    NEW.sla_paused_at := OLD.sla_paused_at;
+    NEW.sla_paused_seconds := OLD.sla_paused_seconds;
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.ticket_status_transitions
+    WHERE from_status = OLD.status AND to_status = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'Perubahan status dari % ke % tidak diizinkan', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Leaving a paused status: add the paused interval to the counter
+  IF OLD.status = ANY (_paused_statuses) AND NOT (NEW.status = ANY (_paused_statuses)) THEN
+    NEW.sla_paused_seconds := OLD.sla_paused_seconds
+      + COALESCE(EXTRACT(EPOCH FROM (NOW() - OLD.sla_paused_at))::INTEGER, 0);
+    NEW.sla_paused_at := NULL;
+  -- Entering a paused status: start the pause
+  ELSIF NEW.status = ANY (_paused_statuses) AND NOT (OLD.status = ANY (_paused_statuses)) THEN
+    NEW.sla_paused_seconds := OLD.sla_paused_seconds;
+    NEW.sla_paused_at := NOW();
+  -- Moving between two paused statuses: the pause continues
+  ELSE
+    NEW.sla_paused_seconds := OLD.sla_paused_seconds;
+    NEW.sla_paused_at := OLD.sla_paused_at;
+  END IF;
+
+  IF NEW.status = 'resolved' THEN
+    IF COALESCE(BTRIM(NEW.resolution_steps), '') = '' THEN
+      RAISE EXCEPTION 'Langkah penyelesaian (resolution_steps) wajib diisi sebelum tiket diselesaikan'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    NEW.resolved_at := NOW();
+    NEW.closed_at := NULL;
+  ELSIF NEW.status = 'closed' THEN
+    -- Keep resolved_at when closing a resolved ticket
+    NEW.resolved_at := OLD.resolved_at;
+    NEW.closed_at := NOW();
+  ELSE
+    -- Back to an active status: ticket is no longer resolved
+    NEW.resolved_at := NULL;
+    NEW.closed_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_ticket_initial_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.status := 'open';
+  NEW.resolved_at := NULL;
+  NEW.closed_at := NULL;
+  NEW.sla_paused_at := NULL;
+  NEW.sla_paused_seconds := 0;
+  RETURN NEW;
+END;
+$$;
+
+-- 4. SLA aggregation excludes paused time
+CREATE OR REPLACE FUNCTION get_sla_performance()
+RETURNS TABLE(sla_percentage NUMERIC)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  total_tickets INTEGER;
+  sla_met_tickets INTEGER;
+  sla_deadline_hours CONSTANT INTEGER := 24;
+BEGIN
+  SELECT COUNT(*) INTO total_tickets FROM tickets;
+
+  IF total_tickets = 0 THEN
+    sla_percentage := 0;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO sla_met_tickets
+  FROM (
+    SELECT
+      t.status,
+      t.resolved_at,
+      -- Active SLA time = wall-clock time minus time spent pending customer / on hold
+      EXTRACT(EPOCH FROM (COALESCE(t.resolved_at, NOW()) - t.created_at))
+        - t.sla_paused_seconds
+        - COALESCE(EXTRACT(EPOCH FROM (NOW() - t.sla_paused_at)), 0) AS active_seconds
+    FROM tickets t
+  ) s
+  WHERE
+    -- Resolved tickets: resolved within 24h of active time
+    (s.status IN ('resolved', 'closed') AND s.resolved_at IS NOT NULL
+      AND s.active_seconds / 3600 <= sla_deadline_hours)
+    OR
+    -- Active tickets (including paused ones): still within 24h of active time
+    (s.status NOT IN ('resolved', 'closed')
+      AND s.active_seconds / 3600 <= sla_deadline_hours)
+    OR
+    -- Resolved tickets without resolved_at: count as not breached if status is resolved
+    (s.status IN ('resolved', 'closed') AND s.resolved_at IS NULL);
+
+  sla_percentage := ROUND((sla_met_tickets::NUMERIC / total_tickets::NUMERIC) * 100, 1);
+  RETURN NEXT;
+  RETURN;
+END;
+$$;
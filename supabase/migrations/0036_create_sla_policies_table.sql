@@ -0,0 +1,115 @@
+-- Configurable SLA policies per priority and category
+-- Single source for SLA targets, read by the frontend badge logic and by get_sla_performance().
+-- A row with category = NULL is the default for that priority; a row with a category overrides it.
+
+CREATE TABLE IF NOT EXISTS public.sla_policies (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  priority TEXT NOT NULL CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+  category TEXT, -- NULL = default for all categories of this priority
+  first_response_minutes INTEGER NOT NULL CHECK (first_response_minutes > 0),
+  warning_minutes INTEGER NOT NULL CHECK (warning_minutes > 0),
+  resolution_minutes INTEGER NOT NULL CHECK (resolution_minutes > 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CONSTRAINT sla_policies_warning_before_resolution CHECK (warning_minutes <= resolution_minutes)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS sla_policies_priority_category_key
+ON public.sla_policies (priority, COALESCE(category, ''));
+
+-- Enable RLS (REQUIRED for security)
+ALTER TABLE public.sla_policies ENABLE ROW LEVEL SECURITY;
+
+-- SLA badges are also rendered on the public ticket page, so policies are readable by anyone
+CREATE POLICY "Anyone can view SLA policies" ON public.sla_policies
+FOR SELECT TO anon, authenticated
+USING (true);
+
+CREATE POLICY "Admins can create SLA policies" ON public.sla_policies
+FOR INSERT TO authenticated
+WITH CHECK (get_my_role() = 'admin');
+
+CREATE POLICY "Admins can update SLA policies" ON public.sla_policies
+FOR UPDATE TO authenticated
+USING (get_my_role() = 'admin')
+WITH CHECK (get_my_role() = 'admin');
+
+-- Priority defaults cannot be removed, otherwise tickets would be left without a target
+CREATE POLICY "Admins can delete category SLA policies" ON public.sla_policies
+FOR DELETE TO authenticated
+USING (get_my_role() = 'admin' AND category IS NOT NULL);
+
+-- Defaults per priority. Medium keeps the previous 19h warning / 24h deadline.
+INSERT INTO public.sla_policies (priority, category, first_response_minutes, warning_minutes, resolution_minutes) VALUES
+  ('urgent', NULL, 30, 180, 240),
+  ('high', NULL, 60, 540, 720),
+  ('medium', NULL, 120, 1140, 1440),
+  ('low', NULL, 240, 2400, 2880)
+ON CONFLICT DO NOTHING;
+
+-- Resolve the policy for a ticket: category override first, then the priority default,
+-- then the medium default as a last resort.
+CREATE OR REPLACE FUNCTION public.get_sla_policy(p_priority TEXT, p_category TEXT)
+RETURNS public.sla_policies
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM public.sla_policies
+  WHERE (priority = p_priority AND (category = p_category OR category IS NULL))
+     OR (priority = 'medium' AND category IS NULL)
+  ORDER BY
+    (priority = p_priority) DESC,
+    (category IS NULL) ASC
+  LIMIT 1;
+$$;
+
+-- SLA aggregation now reads the resolution target from sla_policies
+CREATE OR REPLACE FUNCTION get_sla_performance()
+RETURNS TABLE(sla_percentage NUMERIC)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  total_tickets INTEGER;
+  sla_met_tickets INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO total_tickets FROM tickets;
+
+  IF total_tickets = 0 THEN
+    sla_percentage := 0;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO sla_met_tickets
+  FROM (
+    SELECT
+      t.status,
+      t.resolved_at,
+      p.resolution_minutes,
+      -- Active SLA time = wall-clock time minus time spent pending customer / on hold
+      EXTRACT(EPOCH FROM (COALESCE(t.resolved_at, NOW()) - t.created_at))
+        - t.sla_paused_seconds
+        - COALESCE(EXTRACT(EPOCH FROM (NOW() - t.sla_paused_at)), 0) AS active_seconds
+    FROM tickets t
+    CROSS JOIN LATERAL public.get_sla_policy(t.priority, t.category) p
+  ) s
+  WHERE
+    -- Resolved tickets: resolved within the policy target
+    (s.status IN ('resolved', 'closed') AND s.resolved_at IS NOT NULL
+      AND s.active_seconds / 60 <= s.resolution_minutes)
+    OR
+    -- Active tickets (including paused ones): still within the policy target
+    (s.status NOT IN ('resolved', 'closed')
+      AND s.active_seconds / 60 <= s.resolution_minutes)
+    OR
+    -- Resolved tickets without resolved_at: count as not breached if status is resolved
+    (s.status IN ('resolved', 'closed') AND s.resolved_at IS NULL);
+
+  sla_percentage := ROUND((sla_met_tickets::NUMERIC / total_tickets::NUMERIC) * 100, 1);
+  RETURN NEXT;
+  RETURN;
+END;
+$$;
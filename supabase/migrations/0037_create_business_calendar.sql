@@ -0,0 +1,254 @@
+-- Business calendar for SLA computation
+-- SLA time only runs during working hours (per weekday, in the calendar timezone) and not on national holidays.
+
+-- 1. Calendar settings (single row)
+CREATE TABLE IF NOT EXISTS public.business_calendar_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id), -- enforces a single row
+  timezone TEXT NOT NULL DEFAULT 'Asia/Jakarta',
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+INSERT INTO public.business_calendar_settings (id, timezone) VALUES (TRUE, 'Asia/Jakarta')
+ON CONFLICT DO NOTHING;
+
+-- 2. Working hours per weekday (0 = Sunday ... 6 = Saturday, same as EXTRACT(DOW))
+CREATE TABLE IF NOT EXISTS public.business_hours (
+  weekday SMALLINT PRIMARY KEY CHECK (weekday BETWEEN 0 AND 6),
+  is_working_day BOOLEAN NOT NULL DEFAULT TRUE,
+  start_time TIME NOT NULL DEFAULT '08:00',
+  end_time TIME NOT NULL DEFAULT '17:00',
+  CONSTRAINT business_hours_start_before_end CHECK (start_time < end_time)
+);
+
+INSERT INTO public.business_hours (weekday, is_working_day, start_time, end_time) VALUES
+  (0, FALSE, '08:00', '17:00'),
+  (1, TRUE, '08:00', '17:00'),
+  (2, TRUE, '08:00', '17:00'),
+  (3, TRUE, '08:00', '17:00'),
+  (4, TRUE, '08:00', '17:00'),
+  (5, TRUE, '08:00', '17:00'),
+  (6, FALSE, '08:00', '17:00')
+ON CONFLICT DO NOTHING;
+
+-- 3. National holidays and collective leave days
+CREATE TABLE IF NOT EXISTS public.holidays (
+  holiday_date DATE PRIMARY KEY,
+  name TEXT NOT NULL
+);
+
+-- 2026 national holidays (SKB 3 Menteri). Maintained yearly from the admin calendar page.
+INSERT INTO public.holidays (holiday_date, name) VALUES
+  ('2026-01-01', 'Tahun Baru Masehi'),
+  ('2026-01-16', 'Isra Mikraj Nabi Muhammad SAW'),
+  ('2026-02-17', 'Tahun Baru Imlek'),
+  ('2026-03-19', 'Hari Suci Nyepi'),
+  ('2026-03-20', 'Idul Fitri'),
+  ('2026-03-21', 'Idul Fitri'),
+  ('2026-04-03', 'Wafat Yesus Kristus'),
+  ('2026-05-01', 'Hari Buruh Internasional'),
+  ('2026-05-14', 'Kenaikan Yesus Kristus'),
+  ('2026-05-27', 'Idul Adha'),
+  ('2026-05-31', 'Hari Raya Waisak'),
+  ('2026-06-01', 'Hari Lahir Pancasila'),
+  ('2026-06-16', 'Tahun Baru Islam'),
+  ('2026-08-17', 'Hari Kemerdekaan RI'),
+  ('2026-08-25', 'Maulid Nabi Muhammad SAW'),
+  ('2026-12-25', 'Hari Raya Natal')
+ON CONFLICT DO NOTHING;
+
+-- Enable RLS (REQUIRED for security)
+ALTER TABLE public.business_calendar_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.business_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.holidays ENABLE ROW LEVEL SECURITY;
+
+-- The calendar is needed wherever an SLA badge is rendered, including the public ticket page
+CREATE POLICY "Anyone can view business calendar settings" ON public.business_calendar_settings
+FOR SELECT TO anon, authenticated
+USING (true);
+
+CREATE POLICY "Admins can update business calendar settings" ON public.business_calendar_settings
+FOR UPDATE TO authenticated
+USING (get_my_role() = 'admin')
+WITH CHECK (get_my_role() = 'admin');
+
+CREATE POLICY "Anyone can view business hours" ON public.business_hours
+FOR SELECT TO anon, authenticated
+USING (true);
+
+CREATE POLICY "Admins can update business hours" ON public.business_hours
+FOR UPDATE TO authenticated
+USING (get_my_role() = 'admin')
+WITH CHECK (get_my_role() = 'admin');
+
+CREATE POLICY "Anyone can view holidays" ON public.holidays
+FOR SELECT TO anon, authenticated
+USING (true);
+
+CREATE POLICY "Admins can create holidays" ON public.holidays
+FOR INSERT TO authenticated
+WITH CHECK (get_my_role() = 'admin');
+
+CREATE POLICY "Admins can delete holidays" ON public.holidays
+FOR DELETE TO authenticated
+USING (get_my_role() = 'admin');
+
+-- 4. Business seconds between two instants
+-- Walks the calendar days (in the calendar timezone) between p_start and p_end and sums the overlap
+-- with each day's working window, skipping non-working weekdays and holidays.
+CREATE OR REPLACE FUNCTION public.business_seconds_between(p_start TIMESTAMP WITH TIME ZONE, p_end TIMESTAMP WITH TIME ZONE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tz TEXT;
+  _day DATE;
+  _last_day DATE;
+  _hours public.business_hours%ROWTYPE;
+  _window_start TIMESTAMP WITH TIME ZONE;
+  _window_end TIMESTAMP WITH TIME ZONE;
+  _total NUMERIC := 0;
+BEGIN
+  IF p_start IS NULL OR p_end IS NULL OR p_end <= p_start THEN
+    RETURN 0;
+  END IF;
+
+  SELECT timezone INTO _tz FROM public.business_calendar_settings LIMIT 1;
+  _tz := COALESCE(_tz, 'Asia/Jakarta');
+
+  _day := (p_start AT TIME ZONE _tz)::DATE;
+  _last_day := (p_end AT TIME ZONE _tz)::DATE;
+
+  WHILE _day <= _last_day LOOP
+    IF NOT EXISTS (SELECT 1 FROM public.holidays WHERE holiday_date = _day) THEN
+      SELECT * INTO _hours FROM public.business_hours WHERE weekday = EXTRACT(DOW FROM _day);
+
+      IF FOUND AND _hours.is_working_day THEN
+        _window_start := GREATEST(p_start, (_day + _hours.start_time) AT TIME ZONE _tz);
+        _window_end := LEAST(p_end, (_day + _hours.end_time) AT TIME ZONE _tz);
+
+        IF _window_end > _window_start THEN
+          _total := _total + EXTRACT(EPOCH FROM (_window_end - _window_start));
+        END IF;
+      END IF;
+    END IF;
+
+    _day := _day + 1;
+  END LOOP;
+
+  RETURN _total::INTEGER;
+END;
+$$;
+
+-- 5. Pause accounting counts business seconds, so sla_paused_seconds is on the same clock as the SLA
+CREATE OR REPLACE FUNCTION public.enforce_ticket_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _paused_statuses CONSTANT TEXT[] := ARRAY['pending_customer', 'on_hold'];
+BEGIN
+  -- Status unchanged: timestamps and pause counters are owned by this trigger, ignore client writes
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    NEW.resolved_at := OLD.resolved_at;
+    NEW.closed_at := OLD.closed_at;
+    NEW.sla_paused_at := OLD.sla_paused_at;
+    NEW.sla_paused_seconds := OLD.sla_paused_seconds;
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.ticket_status_transitions
+    WHERE from_status = OLD.status AND to_status = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'Perubahan status dari % ke % tidak diizinkan', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Leaving a paused status: add the paused business time to the counter
+  IF OLD.status = ANY (_paused_statuses) AND NOT (NEW.status = ANY (_paused_statuses)) THEN
+    NEW.sla_paused_seconds := OLD.sla_paused_seconds
+      + public.business_seconds_between(OLD.sla_paused_at, NOW());
+    NEW.sla_paused_at := NULL;
+  -- Entering a paused status: start the pause
+  ELSIF NEW.status = ANY (_paused_statuses) AND NOT (OLD.status = ANY (_paused_statuses)) THEN
+    NEW.sla_paused_seconds := OLD.sla_paused_seconds;
+    NEW.sla_paused_at := NOW();
+  -- Moving between two paused statuses: the pause continues
+  ELSE
+    NEW.sla_paused_seconds := OLD.sla_paused_seconds;
+    NEW.sla_paused_at := OLD.sla_paused_at;
+  END IF;
+
+  IF NEW.status = 'resolved' THEN
+    IF COALESCE(BTRIM(NEW.resolution_steps), '') = '' THEN
+      RAISE EXCEPTION 'Langkah penyelesaian (resolution_steps) wajib diisi sebelum tiket diselesaikan'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    NEW.resolved_at := NOW();
+    NEW.closed_at := NULL;
+  ELSIF NEW.status = 'closed' THEN
+    -- Keep resolved_at when closing a resolved ticket
+    NEW.resolved_at := OLD.resolved_at;
+    NEW.closed_at := NOW();
+  ELSE
+    -- Back to an active status: ticket is no longer resolved
+    NEW.resolved_at := NULL;
+    NEW.closed_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 6. SLA aggregation on business time
+CREATE OR REPLACE FUNCTION get_sla_performance()
+RETURNS TABLE(sla_percentage NUMERIC)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  total_tickets INTEGER;
+  sla_met_tickets INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO total_tickets FROM tickets;
+
+  IF total_tickets = 0 THEN
+    sla_percentage := 0;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO sla_met_tickets
+  FROM (
+    SELECT
+      t.status,
+      t.resolved_at,
+      p.resolution_minutes,
+      -- Active SLA time = business time minus business time spent pending customer / on hold
+      public.business_seconds_between(t.created_at, COALESCE(t.resolved_at, NOW()))
+        - t.sla_paused_seconds
+        - public.business_seconds_between(t.sla_paused_at, NOW()) AS active_seconds
+    FROM tickets t
+    CROSS JOIN LATERAL public.get_sla_policy(t.priority, t.category) p
+  ) s
+  WHERE
+    -- Resolved tickets: resolved within the policy target
+    (s.status IN ('resolved', 'closed') AND s.resolved_at IS NOT NULL
+      AND s.active_seconds / 60 <= s.resolution_minutes)
+    OR
+    -- Active tickets (including paused ones): still within the policy target
+    (s.status NOT IN ('resolved', 'closed')
+      AND s.active_seconds / 60 <= s.resolution_minutes)
+    OR
+    -- Resolved tickets without resolved_at: count as not breached if status is resolved
+    (s.status IN ('resolved', 'closed') AND s.resolved_at IS NULL);
+
+  sla_percentage := ROUND((sla_met_tickets::NUMERIC / total_tickets::NUMERIC) * 100, 1);
+  RETURN NEXT;
+  RETURN;
+END;
+$$;
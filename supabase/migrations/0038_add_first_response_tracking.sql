@@ -0,0 +1,259 @@
+-- First-response SLA, tracked separately from resolution
+-- first_response_at is set once, by the first of: a customer-visible reply, a WhatsApp share to the
+-- customer (record_first_response RPC), or the first move to in_progress. Clients cannot write it directly.
+
+-- 1. Column
+ALTER TABLE public.tickets
+ADD COLUMN IF NOT EXISTS first_response_at TIMESTAMP WITH TIME ZONE;
+
+-- 2. Internal helper: stamps first_response_at and remembers the source for the audit trigger.
+-- The transaction-local setting is what lets the status trigger accept this write.
+CREATE OR REPLACE FUNCTION public.mark_first_response(p_ticket_id UUID, p_source TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.first_response_source', p_source, true);
+
+  UPDATE public.tickets
+  SET first_response_at = NOW()
+  WHERE id = p_ticket_id AND first_response_at IS NULL;
+
+  PERFORM set_config('app.first_response_source', '', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_first_response(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- 3. RPC for actions that happen outside the database (WhatsApp share to the customer)
+CREATE OR REPLACE FUNCTION public.record_first_response(p_ticket_id UUID, p_source TEXT DEFAULT 'whatsapp_share')
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF get_my_role() NOT IN ('admin', 'customer_service') THEN
+    RAISE EXCEPTION 'Hanya admin atau customer service yang dapat mencatat respon pertama'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM public.mark_first_response(p_ticket_id, p_source);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_first_response(UUID, TEXT) TO authenticated;
+
+-- 4. First public reply counts as the first response
+CREATE OR REPLACE FUNCTION public.record_first_response_from_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.visibility = 'public' THEN
+    PERFORM public.mark_first_response(NEW.ticket_id, 'public_reply');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_first_response_from_comment ON public.ticket_comments;
+CREATE TRIGGER record_first_response_from_comment
+AFTER INSERT ON public.ticket_comments
+FOR EACH ROW
+EXECUTE FUNCTION public.record_first_response_from_comment();
+
+-- 5. Status trigger owns first_response_at and stamps it on the first move to in_progress
+CREATE OR REPLACE FUNCTION public.enforce_ticket_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _paused_statuses CONSTANT TEXT[] := ARRAY['pending_customer', 'on_hold'];
+BEGIN
+  -- first_response_at is only written through mark_first_response(), and never overwritten
+  IF OLD.first_response_at IS NOT NULL
+     OR COALESCE(current_setting('app.first_response_source', true), '') = '' THEN
+    NEW.first_response_at := OLD.first_response_at;
+  END IF;
+
+  -- Status unchanged: timestamps and pause counters are owned by this trigger, ignore client writes
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    NEW.resolved_at := OLD.resolved_at;
+    NEW.closed_at := OLD.closed_at;
+    NEW.sla_paused_at := OLD.sla_paused_at;
+    NEW.sla_paused_seconds := OLD.sla_paused_seconds;
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.ticket_status_transitions
+    WHERE from_status = OLD.status AND to_status = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'Perubahan status dari % ke % tidak diizinkan', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Picking the ticket up counts as the first response
+  IF NEW.status = 'in_progress' AND NEW.first_response_at IS NULL THEN
+    NEW.first_response_at := NOW();
+  END IF;
+
+  -- Leaving a paused status: add the paused business time to the counter
+  IF OLD.status = ANY (_paused_statuses) AND NOT (NEW.status = ANY (_paused_statuses)) THEN
+    NEW.sla_paused_seconds := OLD.sla_paused_seconds
+      + public.business_seconds_between(OLD.sla_paused_at, NOW());
+    NEW.sla_paused_at := NULL;
+  -- Entering a paused status: start the pause
+  ELSIF NEW.status = ANY (_paused_statuses) AND NOT (OLD.status = ANY (_paused_statuses)) THEN
+    NEW.sla_paused_seconds := OLD.sla_paused_seconds;
+    NEW.sla_paused_at := NOW();
+  -- Moving between two paused statuses: the pause continues
+  ELSE
+    NEW.sla_paused_seconds := OLD.sla_paused_seconds;
+    NEW.sla_paused_at := OLD.sla_paused_at;
+  END IF;
+
+  IF NEW.status = 'resolved' THEN
+    IF COALESCE(BTRIM(NEW.resolution_steps), '') = '' THEN
+      RAISE EXCEPTION 'Langkah penyelesaian (resolution_steps) wajib diisi sebelum tiket diselesaikan'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    NEW.resolved_at := NOW();
+    NEW.closed_at := NULL;
+  ELSIF NEW.status = 'closed' THEN
+    -- Keep resolved_at when closing a resolved ticket
+    NEW.resolved_at := OLD.resolved_at;
+    NEW.closed_at := NOW();
+  ELSE
+    -- Back to an active status: ticket is no longer resolved
+    NEW.resolved_at := NULL;
+    NEW.closed_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_ticket_initial_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.status := 'open';
+  NEW.resolved_at := NULL;
+  NEW.closed_at := NULL;
+  NEW.sla_paused_at := NULL;
+  NEW.sla_paused_seconds := 0;
+  NEW.first_response_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+-- 6. Audit trail: log the first response with its source
+CREATE OR REPLACE FUNCTION public.log_ticket_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor UUID := auth.uid();
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, new_value, actor_id)
+    VALUES (NEW.id, 'created', NEW.status, _actor);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'field_changed', 'status', OLD.status, NEW.status, _actor);
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'field_changed', 'priority', OLD.priority, NEW.priority, _actor);
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'field_changed', 'assigned_to', OLD.assigned_to::TEXT, NEW.assigned_to::TEXT, _actor);
+  END IF;
+
+  IF OLD.first_response_at IS NULL AND NEW.first_response_at IS NOT NULL THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, new_value, actor_id, metadata)
+    VALUES (
+      NEW.id, 'first_response', NEW.first_response_at::TEXT, _actor,
+      jsonb_build_object('source', COALESCE(NULLIF(current_setting('app.first_response_source', true), ''), 'status_in_progress'))
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 7. Backfill: tickets already picked up or answered get their earliest known response
+SELECT set_config('app.first_response_source', 'backfill', true);
+
+UPDATE public.tickets t
+SET first_response_at = s.first_at
+FROM (
+  SELECT ticket_id, MIN(created_at) AS first_at
+  FROM (
+    SELECT ticket_id, created_at FROM public.ticket_comments WHERE visibility = 'public'
+    UNION ALL
+    SELECT ticket_id, created_at FROM public.ticket_events
+    WHERE event_type = 'field_changed' AND field = 'status' AND new_value = 'in_progress'
+  ) responses
+  GROUP BY ticket_id
+) s
+WHERE t.id = s.ticket_id AND t.first_response_at IS NULL;
+
+SELECT set_config('app.first_response_source', '', true);
+
+-- 8. Dashboard metric: share of tickets whose first response met the policy target (business time)
+CREATE OR REPLACE FUNCTION get_first_response_performance()
+RETURNS TABLE(first_response_percentage NUMERIC, avg_first_response_minutes NUMERIC)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  total_tickets INTEGER;
+  met_tickets INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO total_tickets FROM tickets;
+
+  IF total_tickets = 0 THEN
+    first_response_percentage := 0;
+    avg_first_response_minutes := 0;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE s.response_seconds / 60 <= s.first_response_minutes),
+    ROUND(AVG(s.response_seconds / 60) FILTER (WHERE s.first_response_at IS NOT NULL), 1)
+  INTO met_tickets, avg_first_response_minutes
+  FROM (
+    SELECT
+      t.first_response_at,
+      p.first_response_minutes,
+      -- Unanswered tickets keep counting until now
+      public.business_seconds_between(t.created_at, COALESCE(t.first_response_at, NOW()))::NUMERIC AS response_seconds
+    FROM tickets t
+    CROSS JOIN LATERAL public.get_sla_policy(t.priority, t.category) p
+  ) s;
+
+  first_response_percentage := ROUND((met_tickets::NUMERIC / total_tickets::NUMERIC) * 100, 1);
+  avg_first_response_minutes := COALESCE(avg_first_response_minutes, 0);
+  RETURN NEXT;
+  RETURN;
+END;
+$$;
@@ -0,0 +1,232 @@
+-- Persisted SLA deadlines and breach state
+-- sla_warning_at / sla_due_at are computed from the ticket's policy on the business calendar, and
+-- sla_breached_at is stamped once the deadline passes, so SLA can be sorted, filtered and queried in SQL.
+
+-- 1. Columns
+ALTER TABLE public.tickets
+ADD COLUMN IF NOT EXISTS sla_warning_at TIMESTAMP WITH TIME ZONE, -- NULL while the SLA clock is paused
+ADD COLUMN IF NOT EXISTS sla_due_at TIMESTAMP WITH TIME ZONE, -- NULL while the SLA clock is paused
+ADD COLUMN IF NOT EXISTS sla_breached_at TIMESTAMP WITH TIME ZONE; -- moment the deadline was missed
+
+CREATE INDEX IF NOT EXISTS tickets_sla_due_at_idx ON public.tickets (sla_due_at);
+
+-- 2. Add business seconds to an instant (inverse of business_seconds_between)
+CREATE OR REPLACE FUNCTION public.business_time_add(p_start TIMESTAMP WITH TIME ZONE, p_seconds INTEGER)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tz TEXT;
+  _day DATE;
+  _hours public.business_hours%ROWTYPE;
+  _window_start TIMESTAMP WITH TIME ZONE;
+  _window_end TIMESTAMP WITH TIME ZONE;
+  _window_seconds NUMERIC;
+  _remaining NUMERIC := p_seconds;
+  _days_checked INTEGER := 0;
+BEGIN
+  IF p_start IS NULL OR p_seconds IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_seconds <= 0 THEN
+    RETURN p_start;
+  END IF;
+
+  SELECT timezone INTO _tz FROM public.business_calendar_settings LIMIT 1;
+  _tz := COALESCE(_tz, 'Asia/Jakarta');
+
+  _day := (p_start AT TIME ZONE _tz)::DATE;
+
+  -- Guard against a calendar without any working day
+  WHILE _days_checked < 366 LOOP
+    IF NOT EXISTS (SELECT 1 FROM public.holidays WHERE holiday_date = _day) THEN
+      SELECT * INTO _hours FROM public.business_hours WHERE weekday = EXTRACT(DOW FROM _day);
+
+      IF FOUND AND _hours.is_working_day THEN
+        _window_start := GREATEST(p_start, (_day + _hours.start_time) AT TIME ZONE _tz);
+        _window_end := (_day + _hours.end_time) AT TIME ZONE _tz;
+
+        IF _window_end > _window_start THEN
+          _window_seconds := EXTRACT(EPOCH FROM (_window_end - _window_start));
+
+          IF _remaining <= _window_seconds THEN
+            RETURN _window_start + make_interval(secs => _remaining);
+          END IF;
+
+          _remaining := _remaining - _window_seconds;
+        END IF;
+      END IF;
+    END IF;
+
+    _day := _day + 1;
+    _days_checked := _days_checked + 1;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- 3. Deadline trigger
+-- Runs after enforce_ticket_status_transition / enforce_ticket_initial_status (triggers fire in name order),
+-- so sla_paused_seconds and resolved_at are already final. Time spent paused pushes the deadline back.
+CREATE OR REPLACE FUNCTION public.maintain_ticket_sla_deadlines()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.sla_policies;
+  _stopped_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  -- Clock stopped: no deadline until the ticket leaves pending_customer / on_hold
+  IF NEW.sla_paused_at IS NOT NULL THEN
+    NEW.sla_warning_at := NULL;
+    NEW.sla_due_at := NULL;
+    NEW.sla_breached_at := CASE WHEN TG_OP = 'UPDATE' THEN OLD.sla_breached_at END;
+    RETURN NEW;
+  END IF;
+
+  _policy := public.get_sla_policy(NEW.priority, NEW.category);
+
+  NEW.sla_warning_at := public.business_time_add(NEW.created_at, _policy.warning_minutes * 60 + NEW.sla_paused_seconds);
+  NEW.sla_due_at := public.business_time_add(NEW.created_at, _policy.resolution_minutes * 60 + NEW.sla_paused_seconds);
+
+  -- Resolved / closed tickets are judged at the moment they stopped, active ones against now
+  _stopped_at := CASE
+    WHEN NEW.status IN ('resolved', 'closed') THEN COALESCE(NEW.resolved_at, NEW.closed_at, NOW())
+    ELSE NOW()
+  END;
+
+  NEW.sla_breached_at := CASE WHEN NEW.sla_due_at <= _stopped_at THEN NEW.sla_due_at END;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS maintain_ticket_sla_deadlines ON public.tickets;
+CREATE TRIGGER maintain_ticket_sla_deadlines
+BEFORE INSERT OR UPDATE ON public.tickets
+FOR EACH ROW
+EXECUTE FUNCTION public.maintain_ticket_sla_deadlines();
+
+-- 4. Scheduled job: stamp breaches on tickets nobody touched since their deadline passed
+CREATE OR REPLACE FUNCTION public.refresh_sla_breaches()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _updated INTEGER;
+BEGIN
+  -- The deadline trigger does the actual work; touching the row is enough
+  UPDATE public.tickets
+  SET sla_due_at = sla_due_at
+  WHERE status NOT IN ('resolved', 'closed')
+    AND sla_breached_at IS NULL
+    AND sla_due_at <= NOW();
+
+  GET DIAGNOSTICS _updated = ROW_COUNT;
+  RETURN _updated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_sla_breaches() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('refresh-sla-breaches', '* * * * *', $$SELECT public.refresh_sla_breaches()$$);
+
+-- 5. Policy or calendar changes move the deadlines of tickets that are still running
+CREATE OR REPLACE FUNCTION public.recompute_active_ticket_sla_deadlines()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.tickets
+  SET sla_due_at = sla_due_at
+  WHERE status NOT IN ('resolved', 'closed');
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS recompute_sla_deadlines_on_policy_change ON public.sla_policies;
+CREATE TRIGGER recompute_sla_deadlines_on_policy_change
+AFTER INSERT OR UPDATE OR DELETE ON public.sla_policies
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.recompute_active_ticket_sla_deadlines();
+
+DROP TRIGGER IF EXISTS recompute_sla_deadlines_on_hours_change ON public.business_hours;
+CREATE TRIGGER recompute_sla_deadlines_on_hours_change
+AFTER UPDATE ON public.business_hours
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.recompute_active_ticket_sla_deadlines();
+
+DROP TRIGGER IF EXISTS recompute_sla_deadlines_on_holiday_change ON public.holidays;
+CREATE TRIGGER recompute_sla_deadlines_on_holiday_change
+AFTER INSERT OR DELETE ON public.holidays
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.recompute_active_ticket_sla_deadlines();
+
+DROP TRIGGER IF EXISTS recompute_sla_deadlines_on_calendar_change ON public.business_calendar_settings;
+CREATE TRIGGER recompute_sla_deadlines_on_calendar_change
+AFTER UPDATE ON public.business_calendar_settings
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.recompute_active_ticket_sla_deadlines();
+
+-- 6. Audit trail: log the breach
+CREATE OR REPLACE FUNCTION public.log_ticket_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor UUID := auth.uid();
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, new_value, actor_id)
+    VALUES (NEW.id, 'created', NEW.status, _actor);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'field_changed', 'status', OLD.status, NEW.status, _actor);
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'field_changed', 'priority', OLD.priority, NEW.priority, _actor);
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'field_changed', 'assigned_to', OLD.assigned_to::TEXT, NEW.assigned_to::TEXT, _actor);
+  END IF;
+
+  IF OLD.first_response_at IS NULL AND NEW.first_response_at IS NOT NULL THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, new_value, actor_id, metadata)
+    VALUES (
+      NEW.id, 'first_response', NEW.first_response_at::TEXT, _actor,
+      jsonb_build_object('source', COALESCE(NULLIF(current_setting('app.first_response_source', true), ''), 'status_in_progress'))
+    );
+  END IF;
+
+  IF OLD.sla_breached_at IS NULL AND NEW.sla_breached_at IS NOT NULL THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, new_value, actor_id)
+    VALUES (NEW.id, 'sla_breached', NEW.sla_breached_at::TEXT, NULL);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 7. Backfill every ticket through the trigger
+UPDATE public.tickets SET sla_due_at = sla_due_at;
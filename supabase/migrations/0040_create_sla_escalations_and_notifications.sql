@@ -0,0 +1,73 @@
+-- SLA breach escalation
+-- The sla-escalation edge function runs on a schedule, records one sla_escalations row per ticket and level
+-- (the unique key makes it idempotent), bumps the priority per policy and notifies the assignee and admins.
+
+-- 1. Priority bump per policy (number of priority steps, capped at urgent)
+ALTER TABLE public.sla_policies
+ADD COLUMN IF NOT EXISTS warning_priority_bump SMALLINT NOT NULL DEFAULT 0 CHECK (warning_priority_bump BETWEEN 0 AND 3),
+ADD COLUMN IF NOT EXISTS breach_priority_bump SMALLINT NOT NULL DEFAULT 1 CHECK (breach_priority_bump BETWEEN 0 AND 3);
+
+-- 2. Escalation log, one row per ticket and level
+CREATE TABLE IF NOT EXISTS public.sla_escalations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  ticket_id UUID NOT NULL REFERENCES public.tickets(id) ON DELETE CASCADE,
+  level TEXT NOT NULL CHECK (level IN ('warning', 'breach')),
+  previous_priority TEXT,
+  new_priority TEXT,
+  escalated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CONSTRAINT sla_escalations_ticket_level_key UNIQUE (ticket_id, level)
+);
+
+ALTER TABLE public.sla_escalations ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the edge function (service role)
+CREATE POLICY "Admins and CS can view SLA escalations" ON public.sla_escalations
+FOR SELECT TO authenticated
+USING (get_my_role() IN ('admin', 'customer_service'));
+
+-- 3. In-app notifications
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  recipient_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  ticket_id UUID REFERENCES public.tickets(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS notifications_recipient_created_idx
+ON public.notifications (recipient_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications" ON public.notifications
+FOR SELECT TO authenticated
+USING (recipient_id = auth.uid());
+
+-- Used to mark notifications as read
+CREATE POLICY "Users can update their own notifications" ON public.notifications
+FOR UPDATE TO authenticated
+USING (recipient_id = auth.uid())
+WITH CHECK (recipient_id = auth.uid());
+
+-- 4. Schedule the edge function every 5 minutes (requires pg_net and the vault secrets below).
+-- Locally, run the function with `supabase functions serve` and call it from cron instead,
+-- see deploy-edge-function.md.
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'sla-escalation',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/sla-escalation',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
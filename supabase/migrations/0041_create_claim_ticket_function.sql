@@ -0,0 +1,59 @@
+-- Atomic "take ticket" claim
+-- Replaces the unconditional client-side update so two agents clicking at the same time cannot
+-- overwrite each other: the row is locked and only claimed while it is still open and unassigned.
+
+CREATE OR REPLACE FUNCTION public.claim_ticket(p_ticket_id UUID)
+RETURNS public.tickets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ticket public.tickets;
+  _holder_name TEXT;
+BEGIN
+  IF get_my_role() NOT IN ('admin', 'customer_service') THEN
+    RAISE EXCEPTION 'Hanya admin atau customer service yang dapat mengambil tiket'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Lock the row so a concurrent claim waits and then sees the assignment
+  SELECT * INTO _ticket FROM public.tickets WHERE id = p_ticket_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tiket tidak ditemukan'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _ticket.assigned_to IS NOT NULL THEN
+    IF _ticket.assigned_to = auth.uid() THEN
+      RAISE EXCEPTION 'Tiket sudah Anda ambil sebelumnya'
+        USING ERRCODE = 'unique_violation';
+    END IF;
+
+    SELECT COALESCE(NULLIF(BTRIM(CONCAT_WS(' ', first_name, last_name)), ''), email, 'agen lain')
+    INTO _holder_name
+    FROM public.profiles
+    WHERE id = _ticket.assigned_to;
+
+    RAISE EXCEPTION 'Tiket sudah diambil oleh %', COALESCE(_holder_name, 'agen lain')
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  IF _ticket.status <> 'open' THEN
+    RAISE EXCEPTION 'Tiket tidak dapat diambil karena berstatus %', _ticket.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.tickets
+  SET status = 'in_progress',
+      assigned_to = auth.uid()
+  WHERE id = p_ticket_id
+  RETURNING * INTO _ticket;
+
+  RETURN _ticket;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_ticket(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_ticket(UUID) TO authenticated;
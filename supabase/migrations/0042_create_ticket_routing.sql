@@ -0,0 +1,186 @@
+-- Automatic assignment of incoming tickets
+-- routing_rules picks a strategy per category; an AFTER INSERT trigger assigns the new ticket to a
+-- customer_service agent, so both the public edge function and the internal form are covered.
+
+-- 1. Strategy per category (no row = manual)
+CREATE TABLE IF NOT EXISTS public.routing_rules (
+  category TEXT PRIMARY KEY,
+  strategy TEXT NOT NULL DEFAULT 'manual' CHECK (strategy IN ('round_robin', 'least_loaded', 'manual')),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+INSERT INTO public.routing_rules (category, strategy) VALUES
+  ('Technical Issue', 'round_robin'),
+  ('Billing Inquiry', 'round_robin'),
+  ('Service Interruption', 'least_loaded'),
+  ('Product Feedback', 'round_robin'),
+  ('General Inquiry', 'round_robin'),
+  ('Other', 'manual')
+ON CONFLICT DO NOTHING;
+
+-- 2. Round-robin cursor per category
+CREATE TABLE IF NOT EXISTS public.routing_state (
+  category TEXT PRIMARY KEY,
+  last_assigned_to UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE public.routing_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.routing_state ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and CS can view routing rules" ON public.routing_rules
+FOR SELECT TO authenticated
+USING (get_my_role() IN ('admin', 'customer_service'));
+
+CREATE POLICY "Admins can create routing rules" ON public.routing_rules
+FOR INSERT TO authenticated
+WITH CHECK (get_my_role() = 'admin');
+
+CREATE POLICY "Admins can update routing rules" ON public.routing_rules
+FOR UPDATE TO authenticated
+USING (get_my_role() = 'admin')
+WITH CHECK (get_my_role() = 'admin');
+
+-- routing_state is internal to the trigger, no policies
+
+-- 3. Agents eligible for automatic assignment
+CREATE OR REPLACE FUNCTION public.get_routable_agents()
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM public.profiles WHERE role = 'customer_service' ORDER BY id;
+$$;
+
+-- 4. Routing trigger
+CREATE OR REPLACE FUNCTION public.route_new_ticket()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _strategy TEXT;
+  _category TEXT := COALESCE(NEW.category, '');
+  _last_assigned UUID;
+  _agent UUID;
+BEGIN
+  -- Already assigned by whoever created it
+  IF NEW.assigned_to IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT strategy INTO _strategy FROM public.routing_rules WHERE category = NEW.category;
+  _strategy := COALESCE(_strategy, 'manual');
+
+  IF _strategy = 'manual' THEN
+    RETURN NEW;
+  END IF;
+
+  IF _strategy = 'round_robin' THEN
+    -- Lock the cursor so concurrent inserts in the same category take turns
+    INSERT INTO public.routing_state (category) VALUES (_category) ON CONFLICT DO NOTHING;
+    SELECT last_assigned_to INTO _last_assigned
+    FROM public.routing_state WHERE category = _category FOR UPDATE;
+
+    -- Next agent after the last one, wrapping around to the first
+    SELECT agent_id INTO _agent
+    FROM public.get_routable_agents() AS agent_id
+    ORDER BY (_last_assigned IS NOT NULL AND agent_id <= _last_assigned), agent_id
+    LIMIT 1;
+
+    IF _agent IS NOT NULL THEN
+      UPDATE public.routing_state
+      SET last_assigned_to = _agent, updated_at = NOW()
+      WHERE category = _category;
+    END IF;
+  ELSIF _strategy = 'least_loaded' THEN
+    SELECT agent_id INTO _agent
+    FROM public.get_routable_agents() AS agent_id
+    ORDER BY (
+      SELECT COUNT(*) FROM public.tickets t
+      WHERE t.assigned_to = agent_id AND t.status NOT IN ('resolved', 'closed')
+    ), agent_id
+    LIMIT 1;
+  END IF;
+
+  -- Nobody available: leave it in the Unassigned queue
+  IF _agent IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Tell the audit trigger this assignment is a routing decision
+  PERFORM set_config('app.routing_strategy', _strategy, true);
+
+  UPDATE public.tickets SET assigned_to = _agent WHERE id = NEW.id;
+
+  PERFORM set_config('app.routing_strategy', '', true);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS route_new_ticket ON public.tickets;
+CREATE TRIGGER route_new_ticket
+AFTER INSERT ON public.tickets
+FOR EACH ROW
+EXECUTE FUNCTION public.route_new_ticket();
+
+-- 5. Audit trail: routing decisions are logged as 'routed' instead of a plain assignee change
+CREATE OR REPLACE FUNCTION public.log_ticket_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor UUID := auth.uid();
+  _routing_strategy TEXT := NULLIF(current_setting('app.routing_strategy', true), '');
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, new_value, actor_id)
+    VALUES (NEW.id, 'created', NEW.status, _actor);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'field_changed', 'status', OLD.status, NEW.status, _actor);
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'field_changed', 'priority', OLD.priority, NEW.priority, _actor);
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    IF _routing_strategy IS NOT NULL THEN
+      INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id, metadata)
+      VALUES (
+        NEW.id, 'routed', 'assigned_to', OLD.assigned_to::TEXT, NEW.assigned_to::TEXT, NULL,
+        jsonb_build_object('strategy', _routing_strategy)
+      );
+    ELSE
+      INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+      VALUES (NEW.id, 'field_changed', 'assigned_to', OLD.assigned_to::TEXT, NEW.assigned_to::TEXT, _actor);
+    END IF;
+  END IF;
+
+  IF OLD.first_response_at IS NULL AND NEW.first_response_at IS NOT NULL THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, new_value, actor_id, metadata)
+    VALUES (
+      NEW.id, 'first_response', NEW.first_response_at::TEXT, _actor,
+      jsonb_build_object('source', COALESCE(NULLIF(current_setting('app.first_response_source', true), ''), 'status_in_progress'))
+    );
+  END IF;
+
+  IF OLD.sla_breached_at IS NULL AND NEW.sla_breached_at IS NOT NULL THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, new_value, actor_id)
+    VALUES (NEW.id, 'sla_breached', NEW.sla_breached_at::TEXT, NULL);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
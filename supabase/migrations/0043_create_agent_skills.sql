@@ -0,0 +1,121 @@
+-- Agent skills for skill-based routing
+-- Each agent can list the complaint categories and languages they handle. Automatic routing prefers
+-- customer_service agents whose category skill matches the new ticket, and falls back to every
+-- customer_service agent when nobody has that skill.
+
+-- 1. Skills per agent
+CREATE TABLE IF NOT EXISTS public.agent_skills (
+  agent_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  skill_type TEXT NOT NULL CHECK (skill_type IN ('category', 'language')),
+  value TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (agent_id, skill_type, value)
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_skills_type_value ON public.agent_skills(skill_type, value);
+
+ALTER TABLE public.agent_skills ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and CS can view agent skills" ON public.agent_skills
+FOR SELECT TO authenticated
+USING (get_my_role() IN ('admin', 'customer_service'));
+
+CREATE POLICY "Admins can add agent skills" ON public.agent_skills
+FOR INSERT TO authenticated
+WITH CHECK (get_my_role() = 'admin');
+
+CREATE POLICY "Admins can remove agent skills" ON public.agent_skills
+FOR DELETE TO authenticated
+USING (get_my_role() = 'admin');
+
+-- 2. Routable agents now depend on the ticket category
+DROP FUNCTION IF EXISTS public.get_routable_agents();
+
+CREATE OR REPLACE FUNCTION public.get_routable_agents(p_category TEXT)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH agents AS (
+    SELECT p.id,
+      EXISTS (
+        SELECT 1 FROM public.agent_skills s
+        WHERE s.agent_id = p.id AND s.skill_type = 'category' AND s.value = p_category
+      ) AS is_match
+    FROM public.profiles p
+    WHERE p.role = 'customer_service'
+  )
+  SELECT id FROM agents
+  WHERE is_match OR NOT EXISTS (SELECT 1 FROM agents WHERE is_match)
+  ORDER BY id;
+$$;
+
+-- 3. Routing trigger passes the category so round-robin and least-loaded pick among skilled agents
+CREATE OR REPLACE FUNCTION public.route_new_ticket()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _strategy TEXT;
+  _category TEXT := COALESCE(NEW.category, '');
+  _last_assigned UUID;
+  _agent UUID;
+BEGIN
+  -- Already assigned by whoever created it
+  IF NEW.assigned_to IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT strategy INTO _strategy FROM public.routing_rules WHERE category = NEW.category;
+  _strategy := COALESCE(_strategy, 'manual');
+
+  IF _strategy = 'manual' THEN
+    RETURN NEW;
+  END IF;
+
+  IF _strategy = 'round_robin' THEN
+    -- Lock the cursor so concurrent inserts in the same category take turns
+    INSERT INTO public.routing_state (category) VALUES (_category) ON CONFLICT DO NOTHING;
+    SELECT last_assigned_to INTO _last_assigned
+    FROM public.routing_state WHERE category = _category FOR UPDATE;
+
+    -- Next agent after the last one, wrapping around to the first
+    SELECT agent_id INTO _agent
+    FROM public.get_routable_agents(NEW.category) AS agent_id
+    ORDER BY (_last_assigned IS NOT NULL AND agent_id <= _last_assigned), agent_id
+    LIMIT 1;
+
+    IF _agent IS NOT NULL THEN
+      UPDATE public.routing_state
+      SET last_assigned_to = _agent, updated_at = NOW()
+      WHERE category = _category;
+    END IF;
+  ELSIF _strategy = 'least_loaded' THEN
+    SELECT agent_id INTO _agent
+    FROM public.get_routable_agents(NEW.category) AS agent_id
+    ORDER BY (
+      SELECT COUNT(*) FROM public.tickets t
+      WHERE t.assigned_to = agent_id AND t.status NOT IN ('resolved', 'closed')
+    ), agent_id
+    LIMIT 1;
+  END IF;
+
+  -- Nobody available: leave it in the Unassigned queue
+  IF _agent IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Tell the audit trigger this assignment is a routing decision
+  PERFORM set_config('app.routing_strategy', _strategy, true);
+
+  UPDATE public.tickets SET assigned_to = _agent WHERE id = NEW.id;
+
+  PERFORM set_config('app.routing_strategy', '', true);
+
+  RETURN NEW;
+END;
+$$;
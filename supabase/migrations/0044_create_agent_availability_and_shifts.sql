@@ -0,0 +1,175 @@
+-- Agent availability and weekly shift roster
+-- Agents set their own state (online, away, off_shift) from the header; admins maintain a weekly roster.
+-- An agent is available when they are online and, if they have any rostered shift, inside one right now.
+-- Agents without a roster are not restricted by time, so routing keeps working before the roster is filled in.
+
+-- 1. Availability state per profile
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS availability TEXT NOT NULL DEFAULT 'online'
+    CHECK (availability IN ('online', 'away', 'off_shift')),
+  ADD COLUMN IF NOT EXISTS availability_updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.set_my_availability(p_availability TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_availability NOT IN ('online', 'away', 'off_shift') THEN
+    RAISE EXCEPTION 'Status ketersediaan tidak valid: %', p_availability
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.profiles
+  SET availability = p_availability,
+      availability_updated_at = NOW()
+  WHERE id = auth.uid();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_my_availability(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_my_availability(TEXT) TO authenticated;
+
+-- 2. Weekly roster, in the business calendar timezone (weekday 0 = Sunday ... 6 = Saturday)
+CREATE TABLE IF NOT EXISTS public.agent_shifts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CONSTRAINT agent_shifts_start_before_end CHECK (start_time < end_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_shifts_agent_weekday ON public.agent_shifts(agent_id, weekday);
+
+ALTER TABLE public.agent_shifts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and CS can view agent shifts" ON public.agent_shifts
+FOR SELECT TO authenticated
+USING (get_my_role() IN ('admin', 'customer_service'));
+
+CREATE POLICY "Admins can create agent shifts" ON public.agent_shifts
+FOR INSERT TO authenticated
+WITH CHECK (get_my_role() = 'admin');
+
+CREATE POLICY "Admins can update agent shifts" ON public.agent_shifts
+FOR UPDATE TO authenticated
+USING (get_my_role() = 'admin')
+WITH CHECK (get_my_role() = 'admin');
+
+CREATE POLICY "Admins can delete agent shifts" ON public.agent_shifts
+FOR DELETE TO authenticated
+USING (get_my_role() = 'admin');
+
+-- 3. Availability checks
+CREATE OR REPLACE FUNCTION public.is_agent_on_shift(p_agent_id UUID, p_at TIMESTAMP WITH TIME ZONE DEFAULT NOW())
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH local_time AS (
+    SELECT p_at AT TIME ZONE COALESCE((SELECT timezone FROM public.business_calendar_settings LIMIT 1), 'Asia/Jakarta') AS ts
+  )
+  SELECT NOT EXISTS (SELECT 1 FROM public.agent_shifts WHERE agent_id = p_agent_id)
+    OR EXISTS (
+      SELECT 1
+      FROM public.agent_shifts s, local_time l
+      WHERE s.agent_id = p_agent_id
+        AND s.weekday = EXTRACT(DOW FROM l.ts)
+        AND l.ts::TIME >= s.start_time
+        AND l.ts::TIME < s.end_time
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_agent_available(p_agent_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = p_agent_id AND availability = 'online'
+  ) AND public.is_agent_on_shift(p_agent_id);
+$$;
+
+-- 4. Routing skips unavailable agents; the skill fallback only considers agents who are available
+CREATE OR REPLACE FUNCTION public.get_routable_agents(p_category TEXT)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH agents AS (
+    SELECT p.id,
+      EXISTS (
+        SELECT 1 FROM public.agent_skills s
+        WHERE s.agent_id = p.id AND s.skill_type = 'category' AND s.value = p_category
+      ) AS is_match
+    FROM public.profiles p
+    WHERE p.role = 'customer_service'
+      AND public.is_agent_available(p.id)
+  )
+  SELECT id FROM agents
+  WHERE is_match OR NOT EXISTS (SELECT 1 FROM agents WHERE is_match)
+  ORDER BY id;
+$$;
+
+-- 5. Available staff, used by the sla-escalation function to pick notification recipients
+CREATE OR REPLACE FUNCTION public.get_available_agents()
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM public.profiles
+  WHERE role IN ('admin', 'customer_service')
+    AND public.is_agent_available(id)
+  ORDER BY id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_available_agents() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_available_agents() TO service_role;
+
+-- 6. Who is working right now, for supervisors
+CREATE OR REPLACE FUNCTION public.get_agents_on_duty()
+RETURNS TABLE (
+  agent_id UUID,
+  first_name TEXT,
+  last_name TEXT,
+  email TEXT,
+  role TEXT,
+  availability TEXT,
+  is_on_shift BOOLEAN,
+  has_roster BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF get_my_role() NOT IN ('admin', 'customer_service') THEN
+    RAISE EXCEPTION 'Hanya admin atau customer service yang dapat melihat jadwal agen'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, p.first_name, p.last_name, p.email, p.role::TEXT, p.availability,
+    public.is_agent_on_shift(p.id),
+    EXISTS (SELECT 1 FROM public.agent_shifts s WHERE s.agent_id = p.id)
+  FROM public.profiles p
+  WHERE p.role IN ('admin', 'customer_service')
+  ORDER BY p.first_name NULLS LAST, p.email;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_agents_on_duty() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_agents_on_duty() TO authenticated;
@@ -0,0 +1,346 @@
+-- Teams and team queues
+-- Agents belong to at most one team (profiles.team_id) and every ticket can sit in a team queue (tickets.team_id).
+-- New tickets get the team configured for their category in routing_rules and are routed among that team's agents.
+-- A team can restrict visibility so its agents only see their own queue; admins and team leads keep full access.
+
+-- 1. Teams
+CREATE TABLE IF NOT EXISTS public.teams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  lead_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  restrict_visibility BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+INSERT INTO public.teams (name) VALUES
+  ('Jakarta CS'),
+  ('Surabaya CS'),
+  ('Technical')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL;
+
+ALTER TABLE public.tickets
+  ADD COLUMN IF NOT EXISTS team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_team_id ON public.tickets(team_id);
+
+-- Default queue per category
+ALTER TABLE public.routing_rules
+  ADD COLUMN IF NOT EXISTS team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL;
+
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and CS can view teams" ON public.teams
+FOR SELECT TO authenticated
+USING (get_my_role() IN ('admin', 'customer_service'));
+
+CREATE POLICY "Admins can create teams" ON public.teams
+FOR INSERT TO authenticated
+WITH CHECK (get_my_role() = 'admin');
+
+CREATE POLICY "Admins can update teams" ON public.teams
+FOR UPDATE TO authenticated
+USING (get_my_role() = 'admin')
+WITH CHECK (get_my_role() = 'admin');
+
+CREATE POLICY "Admins can delete teams" ON public.teams
+FOR DELETE TO authenticated
+USING (get_my_role() = 'admin');
+
+-- 2. Team access check used by the ticket policies
+CREATE OR REPLACE FUNCTION public.can_access_team_ticket(p_team_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN get_my_role() = 'admin' THEN TRUE
+    WHEN get_my_role() IS DISTINCT FROM 'customer_service' THEN FALSE
+    WHEN p_team_id IS NULL THEN TRUE
+    -- Team leads supervise across queues
+    WHEN EXISTS (SELECT 1 FROM public.teams WHERE lead_id = auth.uid()) THEN TRUE
+    WHEN NOT EXISTS (SELECT 1 FROM public.teams WHERE id = p_team_id AND restrict_visibility) THEN TRUE
+    ELSE EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND team_id = p_team_id)
+  END;
+$$;
+
+-- 3. Ticket policies
+-- The public ticket page is anonymous; signed-in users go through the team-aware policies below
+DROP POLICY IF EXISTS "Anonymous users can view specific tickets for public access" ON public.tickets;
+CREATE POLICY "Anonymous users can view specific tickets for public access" ON public.tickets
+FOR SELECT
+TO anon
+USING (true);
+
+DROP POLICY IF EXISTS "Customer service and admins can view all tickets" ON public.tickets;
+CREATE POLICY "Customer service and admins can view all tickets" ON public.tickets
+FOR SELECT TO authenticated
+USING (
+  (auth.uid() = created_by) OR
+  (auth.uid() = assigned_to) OR
+  (get_my_role() IN ('admin', 'customer_service') AND can_access_team_ticket(team_id))
+);
+
+DROP POLICY IF EXISTS "Customer service and admins can update tickets" ON public.tickets;
+CREATE POLICY "Customer service and admins can update tickets" ON public.tickets
+FOR UPDATE TO authenticated
+USING (
+  get_my_role() IN ('admin', 'customer_service') AND
+  ((auth.uid() = assigned_to) OR can_access_team_ticket(team_id))
+);
+
+-- Internal notes and history follow ticket visibility (the subquery goes through the tickets policies)
+DROP POLICY IF EXISTS "Customer service and admins can view all ticket comments" ON public.ticket_comments;
+CREATE POLICY "Customer service and admins can view all ticket comments" ON public.ticket_comments
+FOR SELECT TO authenticated
+USING (
+  get_my_role() IN ('admin', 'customer_service') AND
+  EXISTS (SELECT 1 FROM public.tickets t WHERE t.id = ticket_comments.ticket_id)
+);
+
+DROP POLICY IF EXISTS "Customer service and admins can view ticket events" ON public.ticket_events;
+CREATE POLICY "Customer service and admins can view ticket events" ON public.ticket_events
+FOR SELECT TO authenticated
+USING (
+  get_my_role() IN ('admin', 'customer_service') AND
+  EXISTS (SELECT 1 FROM public.tickets t WHERE t.id = ticket_events.ticket_id)
+);
+
+-- 4. New tickets land in their category's team queue unless the creator picked one
+CREATE OR REPLACE FUNCTION public.assign_ticket_team()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.team_id IS NULL THEN
+    SELECT team_id INTO NEW.team_id FROM public.routing_rules WHERE category = NEW.category;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_ticket_team ON public.tickets;
+CREATE TRIGGER assign_ticket_team
+BEFORE INSERT ON public.tickets
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_ticket_team();
+
+-- 5. Routing only picks agents of the ticket's team; a team with nobody available keeps the ticket in its queue
+DROP FUNCTION IF EXISTS public.get_routable_agents(TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_routable_agents(p_category TEXT, p_team_id UUID)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH agents AS (
+    SELECT p.id,
+      EXISTS (
+        SELECT 1 FROM public.agent_skills s
+        WHERE s.agent_id = p.id AND s.skill_type = 'category' AND s.value = p_category
+      ) AS is_match
+    FROM public.profiles p
+    WHERE p.role = 'customer_service'
+      AND (p_team_id IS NULL OR p.team_id = p_team_id)
+      AND public.is_agent_available(p.id)
+  )
+  SELECT id FROM agents
+  WHERE is_match OR NOT EXISTS (SELECT 1 FROM agents WHERE is_match)
+  ORDER BY id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.route_new_ticket()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _strategy TEXT;
+  _category TEXT := COALESCE(NEW.category, '');
+  _last_assigned UUID;
+  _agent UUID;
+BEGIN
+  -- Already assigned by whoever created it
+  IF NEW.assigned_to IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT strategy INTO _strategy FROM public.routing_rules WHERE category = NEW.category;
+  _strategy := COALESCE(_strategy, 'manual');
+
+  IF _strategy = 'manual' THEN
+    RETURN NEW;
+  END IF;
+
+  IF _strategy = 'round_robin' THEN
+    -- Lock the cursor so concurrent inserts in the same category take turns
+    INSERT INTO public.routing_state (category) VALUES (_category) ON CONFLICT DO NOTHING;
+    SELECT last_assigned_to INTO _last_assigned
+    FROM public.routing_state WHERE category = _category FOR UPDATE;
+
+    -- Next agent after the last one, wrapping around to the first
+    SELECT agent_id INTO _agent
+    FROM public.get_routable_agents(NEW.category, NEW.team_id) AS agent_id
+    ORDER BY (_last_assigned IS NOT NULL AND agent_id <= _last_assigned), agent_id
+    LIMIT 1;
+
+    IF _agent IS NOT NULL THEN
+      UPDATE public.routing_state
+      SET last_assigned_to = _agent, updated_at = NOW()
+      WHERE category = _category;
+    END IF;
+  ELSIF _strategy = 'least_loaded' THEN
+    SELECT agent_id INTO _agent
+    FROM public.get_routable_agents(NEW.category, NEW.team_id) AS agent_id
+    ORDER BY (
+      SELECT COUNT(*) FROM public.tickets t
+      WHERE t.assigned_to = agent_id AND t.status NOT IN ('resolved', 'closed')
+    ), agent_id
+    LIMIT 1;
+  END IF;
+
+  -- Nobody available: leave it in the Unassigned queue
+  IF _agent IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Tell the audit trigger this assignment is a routing decision
+  PERFORM set_config('app.routing_strategy', _strategy, true);
+
+  UPDATE public.tickets SET assigned_to = _agent WHERE id = NEW.id;
+
+  PERFORM set_config('app.routing_strategy', '', true);
+
+  RETURN NEW;
+END;
+$$;
+
+-- 6. Claiming respects team visibility
+CREATE OR REPLACE FUNCTION public.claim_ticket(p_ticket_id UUID)
+RETURNS public.tickets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ticket public.tickets;
+  _holder_name TEXT;
+BEGIN
+  IF get_my_role() NOT IN ('admin', 'customer_service') THEN
+    RAISE EXCEPTION 'Hanya admin atau customer service yang dapat mengambil tiket'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Lock the row so a concurrent claim waits and then sees the assignment
+  SELECT * INTO _ticket FROM public.tickets WHERE id = p_ticket_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT can_access_team_ticket(_ticket.team_id) THEN
+    RAISE EXCEPTION 'Tiket tidak ditemukan'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _ticket.assigned_to IS NOT NULL THEN
+    IF _ticket.assigned_to = auth.uid() THEN
+      RAISE EXCEPTION 'Tiket sudah Anda ambil sebelumnya'
+        USING ERRCODE = 'unique_violation';
+    END IF;
+
+    SELECT COALESCE(NULLIF(BTRIM(CONCAT_WS(' ', first_name, last_name)), ''), email, 'agen lain')
+    INTO _holder_name
+    FROM public.profiles
+    WHERE id = _ticket.assigned_to;
+
+    RAISE EXCEPTION 'Tiket sudah diambil oleh %', COALESCE(_holder_name, 'agen lain')
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  IF _ticket.status <> 'open' THEN
+    RAISE EXCEPTION 'Tiket tidak dapat diambil karena berstatus %', _ticket.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.tickets
+  SET status = 'in_progress',
+      assigned_to = auth.uid()
+  WHERE id = p_ticket_id
+  RETURNING * INTO _ticket;
+
+  RETURN _ticket;
+END;
+$$;
+
+-- 7. Audit trail: queue moves are logged with team names
+CREATE OR REPLACE FUNCTION public.log_ticket_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor UUID := auth.uid();
+  _routing_strategy TEXT := NULLIF(current_setting('app.routing_strategy', true), '');
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, new_value, actor_id)
+    VALUES (NEW.id, 'created', NEW.status, _actor);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'field_changed', 'status', OLD.status, NEW.status, _actor);
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'field_changed', 'priority', OLD.priority, NEW.priority, _actor);
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    IF _routing_strategy IS NOT NULL THEN
+      INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id, metadata)
+      VALUES (
+        NEW.id, 'routed', 'assigned_to', OLD.assigned_to::TEXT, NEW.assigned_to::TEXT, NULL,
+        jsonb_build_object('strategy', _routing_strategy)
+      );
+    ELSE
+      INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+      VALUES (NEW.id, 'field_changed', 'assigned_to', OLD.assigned_to::TEXT, NEW.assigned_to::TEXT, _actor);
+    END IF;
+  END IF;
+
+  IF NEW.team_id IS DISTINCT FROM OLD.team_id THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (
+      NEW.id, 'field_changed', 'team',
+      (SELECT name FROM public.teams WHERE id = OLD.team_id),
+      (SELECT name FROM public.teams WHERE id = NEW.team_id),
+      _actor
+    );
+  END IF;
+
+  IF OLD.first_response_at IS NULL AND NEW.first_response_at IS NOT NULL THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, new_value, actor_id, metadata)
+    VALUES (
+      NEW.id, 'first_response', NEW.first_response_at::TEXT, _actor,
+      jsonb_build_object('source', COALESCE(NULLIF(current_setting('app.first_response_source', true), ''), 'status_in_progress'))
+    );
+  END IF;
+
+  IF OLD.sla_breached_at IS NULL AND NEW.sla_breached_at IS NOT NULL THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, new_value, actor_id)
+    VALUES (NEW.id, 'sla_breached', NEW.sla_breached_at::TEXT, NULL);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
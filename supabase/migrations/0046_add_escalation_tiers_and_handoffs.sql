@@ -0,0 +1,251 @@
+-- Escalation tiers and handoffs
+-- Tickets move between L1 (customer service), L2 (technical) and L3 (management) only through
+-- handoff_ticket(), which requires a reason, records the handoff and puts the ticket back in the target queue.
+
+-- 1. Current tier per ticket
+ALTER TABLE public.tickets
+  ADD COLUMN IF NOT EXISTS escalation_level SMALLINT NOT NULL DEFAULT 1 CHECK (escalation_level BETWEEN 1 AND 3);
+
+-- 2. Handoff history
+CREATE TABLE IF NOT EXISTS public.ticket_handoffs (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  ticket_id UUID NOT NULL REFERENCES public.tickets(id) ON DELETE CASCADE,
+  direction TEXT NOT NULL CHECK (direction IN ('escalate', 'de_escalate')),
+  from_level SMALLINT NOT NULL,
+  to_level SMALLINT NOT NULL,
+  from_team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL,
+  to_team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL,
+  from_assignee UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL CHECK (BTRIM(reason) <> ''),
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_handoffs_ticket_id ON public.ticket_handoffs(ticket_id);
+CREATE INDEX IF NOT EXISTS idx_ticket_handoffs_from_level ON public.ticket_handoffs(from_level, direction);
+
+ALTER TABLE public.ticket_handoffs ENABLE ROW LEVEL SECURITY;
+
+-- Follows ticket visibility; rows are only written by handoff_ticket()
+CREATE POLICY "Customer service and admins can view ticket handoffs" ON public.ticket_handoffs
+FOR SELECT TO authenticated
+USING (
+  get_my_role() IN ('admin', 'customer_service') AND
+  EXISTS (SELECT 1 FROM public.tickets t WHERE t.id = ticket_handoffs.ticket_id)
+);
+
+-- 3. escalation_level is only written through handoff_ticket()
+CREATE OR REPLACE FUNCTION public.protect_ticket_escalation_level()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.escalation_level := 1;
+  ELSIF NEW.escalation_level IS DISTINCT FROM OLD.escalation_level
+    AND COALESCE(current_setting('app.ticket_handoff', true), '') <> 'on' THEN
+    NEW.escalation_level := OLD.escalation_level;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_ticket_escalation_level ON public.tickets;
+CREATE TRIGGER protect_ticket_escalation_level
+BEFORE INSERT OR UPDATE ON public.tickets
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_ticket_escalation_level();
+
+-- 4. Escalate / de-escalate
+CREATE OR REPLACE FUNCTION public.handoff_ticket(
+  p_ticket_id UUID,
+  p_direction TEXT,
+  p_to_level SMALLINT,
+  p_to_team_id UUID,
+  p_reason TEXT
+)
+RETURNS public.tickets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ticket public.tickets;
+BEGIN
+  IF get_my_role() NOT IN ('admin', 'customer_service') THEN
+    RAISE EXCEPTION 'Hanya admin atau customer service yang dapat mengeskalasi tiket'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_reason IS NULL OR BTRIM(p_reason) = '' THEN
+    RAISE EXCEPTION 'Alasan handoff wajib diisi'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO _ticket FROM public.tickets WHERE id = p_ticket_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT can_access_team_ticket(_ticket.team_id) THEN
+    RAISE EXCEPTION 'Tiket tidak ditemukan'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _ticket.status IN ('resolved', 'closed') THEN
+    RAISE EXCEPTION 'Tiket berstatus % tidak dapat dieskalasi', _ticket.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_to_level NOT BETWEEN 1 AND 3 THEN
+    RAISE EXCEPTION 'Tier tujuan tidak valid: %', p_to_level
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Escalating may stay on the same tier when the ticket moves to another team
+  IF p_direction = 'escalate' THEN
+    IF p_to_level < _ticket.escalation_level
+      OR (p_to_level = _ticket.escalation_level AND p_to_team_id IS NOT DISTINCT FROM _ticket.team_id) THEN
+      RAISE EXCEPTION 'Eskalasi harus ke tier yang lebih tinggi atau ke tim lain'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSIF p_direction = 'de_escalate' THEN
+    IF p_to_level >= _ticket.escalation_level THEN
+      RAISE EXCEPTION 'De-eskalasi harus ke tier yang lebih rendah'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Arah handoff tidak valid: %', p_direction
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.ticket_handoffs (
+    ticket_id, direction, from_level, to_level, from_team_id, to_team_id, from_assignee, reason, actor_id
+  ) VALUES (
+    _ticket.id, p_direction, _ticket.escalation_level, p_to_level, _ticket.team_id, p_to_team_id,
+    _ticket.assigned_to, BTRIM(p_reason), auth.uid()
+  );
+
+  -- Tell the audit trigger to log this as a handoff, with its reason
+  PERFORM set_config('app.ticket_handoff', 'on', true);
+  PERFORM set_config('app.handoff_reason', BTRIM(p_reason), true);
+
+  -- The ticket goes back to the target queue, unassigned, for the next tier to pick up
+  UPDATE public.tickets
+  SET escalation_level = p_to_level,
+      team_id = p_to_team_id,
+      assigned_to = NULL,
+      status = CASE WHEN status = 'in_progress' THEN 'open' ELSE status END
+  WHERE id = p_ticket_id
+  RETURNING * INTO _ticket;
+
+  PERFORM set_config('app.ticket_handoff', '', true);
+  PERFORM set_config('app.handoff_reason', '', true);
+
+  RETURN _ticket;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.handoff_ticket(UUID, TEXT, SMALLINT, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.handoff_ticket(UUID, TEXT, SMALLINT, UUID, TEXT) TO authenticated;
+
+-- 5. Audit trail: tier changes are logged as 'escalated' / 'de_escalated' with the handoff reason
+CREATE OR REPLACE FUNCTION public.log_ticket_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor UUID := auth.uid();
+  _routing_strategy TEXT := NULLIF(current_setting('app.routing_strategy', true), '');
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, new_value, actor_id)
+    VALUES (NEW.id, 'created', NEW.status, _actor);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'field_changed', 'status', OLD.status, NEW.status, _actor);
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'field_changed', 'priority', OLD.priority, NEW.priority, _actor);
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    IF _routing_strategy IS NOT NULL THEN
+      INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id, metadata)
+      VALUES (
+        NEW.id, 'routed', 'assigned_to', OLD.assigned_to::TEXT, NEW.assigned_to::TEXT, NULL,
+        jsonb_build_object('strategy', _routing_strategy)
+      );
+    ELSE
+      INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+      VALUES (NEW.id, 'field_changed', 'assigned_to', OLD.assigned_to::TEXT, NEW.assigned_to::TEXT, _actor);
+    END IF;
+  END IF;
+
+  IF NEW.team_id IS DISTINCT FROM OLD.team_id THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (
+      NEW.id, 'field_changed', 'team',
+      (SELECT name FROM public.teams WHERE id = OLD.team_id),
+      (SELECT name FROM public.teams WHERE id = NEW.team_id),
+      _actor
+    );
+  END IF;
+
+  IF NEW.escalation_level IS DISTINCT FROM OLD.escalation_level
+    OR COALESCE(current_setting('app.ticket_handoff', true), '') = 'on' THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id, metadata)
+    VALUES (
+      NEW.id,
+      CASE WHEN NEW.escalation_level < OLD.escalation_level THEN 'de_escalated' ELSE 'escalated' END,
+      'escalation_level', OLD.escalation_level::TEXT, NEW.escalation_level::TEXT, _actor,
+      jsonb_build_object('reason', NULLIF(current_setting('app.handoff_reason', true), ''))
+    );
+  END IF;
+
+  IF OLD.first_response_at IS NULL AND NEW.first_response_at IS NOT NULL THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, new_value, actor_id, metadata)
+    VALUES (
+      NEW.id, 'first_response', NEW.first_response_at::TEXT, _actor,
+      jsonb_build_object('source', COALESCE(NULLIF(current_setting('app.first_response_source', true), ''), 'status_in_progress'))
+    );
+  END IF;
+
+  IF OLD.sla_breached_at IS NULL AND NEW.sla_breached_at IS NOT NULL THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, new_value, actor_id)
+    VALUES (NEW.id, 'sla_breached', NEW.sla_breached_at::TEXT, NULL);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 6. Tier report: tickets each tier resolved versus handed up
+CREATE OR REPLACE FUNCTION public.get_escalation_tier_report()
+RETURNS TABLE (
+  escalation_level SMALLINT,
+  resolved_count BIGINT,
+  escalated_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT tier.level::SMALLINT,
+    (SELECT COUNT(*) FROM public.tickets t
+      WHERE t.escalation_level = tier.level AND t.status IN ('resolved', 'closed')),
+    (SELECT COUNT(*) FROM public.ticket_handoffs h
+      WHERE h.from_level = tier.level AND h.direction = 'escalate')
+  FROM generate_series(1, 3) AS tier(level)
+  WHERE get_my_role() IN ('admin', 'customer_service')
+  ORDER BY tier.level;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_escalation_tier_report() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_escalation_tier_report() TO authenticated;
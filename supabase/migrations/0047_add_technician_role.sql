@@ -0,0 +1,4 @@
+-- Field technician role
+-- Kept in its own migration: a new enum value cannot be used in the transaction that adds it.
+
+ALTER TYPE public.user_role ADD VALUE IF NOT EXISTS 'technician';
@@ -0,0 +1,300 @@
+-- Field technician work orders
+-- A ticket can get one or more technician visits (reinstall / replace a GPS unit). Customer service schedules
+-- the visit; the assigned technician checks in, uploads photo proof, captures the customer's sign-off and closes
+-- the visit through check_in_work_order() / complete_work_order(). Closing a visit appends to the ticket's
+-- resolution_steps and every status change is written to the ticket history.
+
+-- 1. Work orders
+CREATE TABLE IF NOT EXISTS public.work_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id UUID NOT NULL REFERENCES public.tickets(id) ON DELETE CASCADE,
+  address TEXT NOT NULL CHECK (BTRIM(address) <> ''),
+  scheduled_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  scheduled_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  technician_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  required_parts TEXT[] NOT NULL DEFAULT '{}',
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'checked_in', 'completed', 'cancelled')),
+  checked_in_at TIMESTAMP WITH TIME ZONE,
+  check_in_latitude DOUBLE PRECISION,
+  check_in_longitude DOUBLE PRECISION,
+  work_summary TEXT,
+  photo_paths TEXT[] NOT NULL DEFAULT '{}',
+  signoff_name TEXT,
+  signoff_signature_path TEXT,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CHECK (scheduled_end > scheduled_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_orders_ticket_id ON public.work_orders(ticket_id);
+CREATE INDEX IF NOT EXISTS idx_work_orders_technician_status ON public.work_orders(technician_id, status);
+
+-- 2. Technicians only see tickets they have a visit for.
+-- SECURITY DEFINER so the tickets policy can look at work_orders without recursing into its policies.
+CREATE OR REPLACE FUNCTION public.is_my_work_order_ticket(p_ticket_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.work_orders
+    WHERE ticket_id = p_ticket_id
+      AND technician_id = auth.uid()
+      AND status <> 'cancelled'
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_my_work_order_ticket(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_my_work_order_ticket(UUID) TO authenticated;
+
+CREATE POLICY "Technicians can view tickets of their work orders" ON public.tickets
+FOR SELECT TO authenticated
+USING (get_my_role() = 'technician' AND is_my_work_order_ticket(id));
+
+-- 3. RLS: customer service schedules and cancels visits on tickets they can see.
+-- Technicians only read their own visits and write through the RPCs below.
+ALTER TABLE public.work_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customer service and admins can view work orders" ON public.work_orders
+FOR SELECT TO authenticated
+USING (
+  get_my_role() IN ('admin', 'customer_service') AND
+  EXISTS (SELECT 1 FROM public.tickets t WHERE t.id = work_orders.ticket_id)
+);
+
+CREATE POLICY "Technicians can view their work orders" ON public.work_orders
+FOR SELECT TO authenticated
+USING (technician_id = auth.uid());
+
+CREATE POLICY "Customer service and admins can create work orders" ON public.work_orders
+FOR INSERT TO authenticated
+WITH CHECK (
+  get_my_role() IN ('admin', 'customer_service') AND
+  EXISTS (SELECT 1 FROM public.tickets t WHERE t.id = work_orders.ticket_id)
+);
+
+CREATE POLICY "Customer service and admins can update work orders" ON public.work_orders
+FOR UPDATE TO authenticated
+USING (
+  get_my_role() IN ('admin', 'customer_service') AND
+  EXISTS (SELECT 1 FROM public.tickets t WHERE t.id = work_orders.ticket_id)
+)
+WITH CHECK (
+  get_my_role() IN ('admin', 'customer_service') AND
+  EXISTS (SELECT 1 FROM public.tickets t WHERE t.id = work_orders.ticket_id)
+);
+
+-- 4. Status guard: checked_in / completed are only reachable through the technician RPCs,
+-- and finished visits are frozen.
+CREATE OR REPLACE FUNCTION public.protect_work_order_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'scheduled';
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'Work order berstatus % tidak dapat diubah', OLD.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'scheduled' THEN
+      RAISE EXCEPTION 'Work order tidak dapat dikembalikan ke status scheduled'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status IN ('checked_in', 'completed')
+      AND COALESCE(current_setting('app.work_order_visit', true), '') <> 'on' THEN
+      RAISE EXCEPTION 'Status % hanya dapat diisi oleh teknisi saat kunjungan', NEW.status
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_work_order_status ON public.work_orders;
+CREATE TRIGGER protect_work_order_status
+BEFORE INSERT OR UPDATE ON public.work_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_work_order_status();
+
+-- 5. Ticket history: one 'work_order' event per visit status change
+CREATE OR REPLACE FUNCTION public.log_work_order_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id, metadata)
+  VALUES (
+    NEW.ticket_id, 'work_order', 'status',
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END, NEW.status, auth.uid(),
+    jsonb_strip_nulls(jsonb_build_object(
+      'work_order_id', NEW.id,
+      'technician_id', NEW.technician_id,
+      'scheduled_start', NEW.scheduled_start,
+      'signoff_name', NEW.signoff_name
+    ))
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_work_order_changes ON public.work_orders;
+CREATE TRIGGER log_work_order_changes
+AFTER INSERT OR UPDATE ON public.work_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.log_work_order_changes();
+
+-- 6. Technician check-in on site
+CREATE OR REPLACE FUNCTION public.check_in_work_order(
+  p_work_order_id UUID,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION
+)
+RETURNS public.work_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _work_order public.work_orders;
+BEGIN
+  SELECT * INTO _work_order FROM public.work_orders WHERE id = p_work_order_id FOR UPDATE;
+
+  IF NOT FOUND OR _work_order.technician_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Work order tidak ditemukan'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _work_order.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'Work order berstatus % tidak dapat check-in', _work_order.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.work_order_visit', 'on', true);
+
+  UPDATE public.work_orders
+  SET status = 'checked_in',
+      checked_in_at = NOW(),
+      check_in_latitude = p_latitude,
+      check_in_longitude = p_longitude
+  WHERE id = p_work_order_id
+  RETURNING * INTO _work_order;
+
+  PERFORM set_config('app.work_order_visit', '', true);
+
+  RETURN _work_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_in_work_order(UUID, DOUBLE PRECISION, DOUBLE PRECISION) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.check_in_work_order(UUID, DOUBLE PRECISION, DOUBLE PRECISION) TO authenticated;
+
+-- 7. Close the visit: proof, customer sign-off, and the ticket's resolution steps
+CREATE OR REPLACE FUNCTION public.complete_work_order(
+  p_work_order_id UUID,
+  p_work_summary TEXT,
+  p_photo_paths TEXT[],
+  p_signoff_name TEXT,
+  p_signoff_signature_path TEXT
+)
+RETURNS public.work_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _work_order public.work_orders;
+  _technician_name TEXT;
+BEGIN
+  SELECT * INTO _work_order FROM public.work_orders WHERE id = p_work_order_id FOR UPDATE;
+
+  IF NOT FOUND OR _work_order.technician_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Work order tidak ditemukan'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _work_order.status <> 'checked_in' THEN
+    RAISE EXCEPTION 'Lakukan check-in sebelum menutup kunjungan'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_work_summary IS NULL OR BTRIM(p_work_summary) = '' THEN
+    RAISE EXCEPTION 'Ringkasan pekerjaan wajib diisi'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF COALESCE(cardinality(p_photo_paths), 0) = 0 THEN
+    RAISE EXCEPTION 'Minimal satu foto bukti wajib diunggah'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_signoff_name IS NULL OR BTRIM(p_signoff_name) = ''
+    OR p_signoff_signature_path IS NULL OR BTRIM(p_signoff_signature_path) = '' THEN
+    RAISE EXCEPTION 'Nama dan tanda tangan pelanggan wajib diisi'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Proof files must be the technician's own uploads (storage folder = uploader id)
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_photo_paths || p_signoff_signature_path) AS path
+    WHERE path NOT LIKE auth.uid()::TEXT || '/%'
+  ) THEN
+    RAISE EXCEPTION 'File bukti tidak valid'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.work_order_visit', 'on', true);
+
+  UPDATE public.work_orders
+  SET status = 'completed',
+      completed_at = NOW(),
+      work_summary = BTRIM(p_work_summary),
+      photo_paths = p_photo_paths,
+      signoff_name = BTRIM(p_signoff_name),
+      signoff_signature_path = p_signoff_signature_path
+  WHERE id = p_work_order_id
+  RETURNING * INTO _work_order;
+
+  PERFORM set_config('app.work_order_visit', '', true);
+
+  SELECT COALESCE(NULLIF(BTRIM(CONCAT_WS(' ', first_name, last_name)), ''), email)
+  INTO _technician_name
+  FROM public.profiles
+  WHERE id = _work_order.technician_id;
+
+  UPDATE public.tickets
+  SET resolution_steps = CONCAT_WS(
+    E'\n\n',
+    NULLIF(BTRIM(resolution_steps), ''),
+    FORMAT(
+      '[Kunjungan teknisi - %s] %s (Diterima oleh %s)',
+      COALESCE(_technician_name, 'Teknisi'), _work_order.work_summary, _work_order.signoff_name
+    )
+  )
+  WHERE id = _work_order.ticket_id;
+
+  RETURN _work_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_work_order(UUID, TEXT, TEXT[], TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.complete_work_order(UUID, TEXT, TEXT[], TEXT, TEXT) TO authenticated;
@@ -0,0 +1,141 @@
+-- Customer (CRM) records
+-- One customer per normalized WhatsApp number, so repeat callers are recognised across tickets.
+-- Tickets keep their free-text customer_name / customer_whatsapp; customer_id is derived from the number
+-- on every insert and whenever the number is edited.
+
+-- 1. Same normalization as formatWhatsappNumber() in src/utils/whatsapp.ts: digits only, leading 0 dropped, 62 prefix
+CREATE OR REPLACE FUNCTION public.normalize_whatsapp_number(p_number TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _digits TEXT := regexp_replace(COALESCE(p_number, ''), '\D', '', 'g');
+BEGIN
+  IF _digits = '' THEN
+    RETURN NULL;
+  END IF;
+
+  IF LEFT(_digits, 1) = '0' THEN
+    _digits := SUBSTRING(_digits FROM 2);
+  END IF;
+
+  IF LEFT(_digits, 2) <> '62' THEN
+    _digits := '62' || _digits;
+  END IF;
+
+  RETURN _digits;
+END;
+$$;
+
+-- 2. Customers
+CREATE TABLE IF NOT EXISTS public.customers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  whatsapp_number TEXT NOT NULL UNIQUE,
+  name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE public.customers ENABLE ROW LEVEL SECURITY;
+
+-- Rows are created by the ticket trigger below; staff may correct the name
+CREATE POLICY "Customer service and admins can view customers" ON public.customers
+FOR SELECT TO authenticated
+USING (get_my_role() IN ('admin', 'customer_service'));
+
+CREATE POLICY "Customer service and admins can update customers" ON public.customers
+FOR UPDATE TO authenticated
+USING (get_my_role() IN ('admin', 'customer_service'))
+WITH CHECK (get_my_role() IN ('admin', 'customer_service'));
+
+-- 3. Notes on a customer, shared by all agents
+CREATE TABLE IF NOT EXISTS public.customer_notes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 5000),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS customer_notes_customer_id_created_at_idx
+ON public.customer_notes (customer_id, created_at);
+
+ALTER TABLE public.customer_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customer service and admins can view customer notes" ON public.customer_notes
+FOR SELECT TO authenticated
+USING (get_my_role() IN ('admin', 'customer_service'));
+
+CREATE POLICY "Customer service and admins can add customer notes" ON public.customer_notes
+FOR INSERT TO authenticated
+WITH CHECK (
+  (get_my_role() IN ('admin', 'customer_service')) AND
+  (author_id = auth.uid())
+);
+
+CREATE POLICY "Authors and admins can delete customer notes" ON public.customer_notes
+FOR DELETE TO authenticated
+USING (
+  (author_id = auth.uid()) OR
+  (get_my_role() = 'admin')
+);
+
+-- 4. Ticket -> customer link
+ALTER TABLE public.tickets
+  ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_customer_id ON public.tickets(customer_id);
+
+-- 5. Backfill from existing tickets; the most recent non-empty name wins
+INSERT INTO public.customers (whatsapp_number, name, created_at)
+SELECT
+  normalized.whatsapp_number,
+  (ARRAY_AGG(normalized.customer_name ORDER BY normalized.created_at DESC)
+    FILTER (WHERE BTRIM(normalized.customer_name) <> ''))[1],
+  MIN(normalized.created_at)
+FROM (
+  SELECT normalize_whatsapp_number(customer_whatsapp) AS whatsapp_number, customer_name, created_at
+  FROM public.tickets
+) AS normalized
+WHERE normalized.whatsapp_number IS NOT NULL
+GROUP BY normalized.whatsapp_number
+ON CONFLICT (whatsapp_number) DO NOTHING;
+
+UPDATE public.tickets t
+SET customer_id = c.id
+FROM public.customers c
+WHERE c.whatsapp_number = normalize_whatsapp_number(t.customer_whatsapp)
+  AND t.customer_id IS NULL;
+
+-- 6. Keep the link current (customer_id is always derived, never taken from the client).
+-- SECURITY DEFINER: public submissions create customers they cannot read.
+CREATE OR REPLACE FUNCTION public.link_ticket_customer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _number TEXT := normalize_whatsapp_number(NEW.customer_whatsapp);
+BEGIN
+  IF _number IS NULL THEN
+    NEW.customer_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.customers (whatsapp_number, name)
+  VALUES (_number, NULLIF(BTRIM(NEW.customer_name), ''))
+  ON CONFLICT (whatsapp_number) DO UPDATE
+    SET name = COALESCE(public.customers.name, EXCLUDED.name)
+  RETURNING id INTO NEW.customer_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS link_ticket_customer ON public.tickets;
+CREATE TRIGGER link_ticket_customer
+BEFORE INSERT OR UPDATE OF customer_whatsapp, customer_name, customer_id ON public.tickets
+FOR EACH ROW
+EXECUTE FUNCTION public.link_ticket_customer();
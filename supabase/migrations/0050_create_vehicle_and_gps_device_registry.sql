@@ -0,0 +1,258 @@
+-- Vehicle and GPS device registry
+-- Tickets keep the free-text no_plat_kendaraan / no_simcard_gps they were filed with, and are linked to the
+-- registered vehicle (by plate) and to the GPS device installed in it at the time. Every device install on a
+-- vehicle is recorded in gps_device_installations, which gives the vehicle's device swap history.
+
+-- 1. Plate key: upper case, single spaces. Spelling variants are not merged yet.
+CREATE OR REPLACE FUNCTION public.normalize_plate_number(p_plate TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT NULLIF(UPPER(BTRIM(regexp_replace(COALESCE(p_plate, ''), '\s+', ' ', 'g'))), '');
+$$;
+
+-- 2. Vehicles, owned by a customer
+CREATE TABLE IF NOT EXISTS public.vehicles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  plate_number TEXT NOT NULL UNIQUE,
+  make TEXT,
+  customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_vehicles_customer_id ON public.vehicles(customer_id);
+
+-- 3. GPS devices; vehicle_id is the vehicle the device is currently installed in
+CREATE TABLE IF NOT EXISTS public.gps_devices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  imei TEXT NOT NULL UNIQUE CHECK (imei ~ '^[0-9]{15}$'),
+  model TEXT,
+  simcard_number TEXT CHECK (simcard_number IS NULL OR simcard_number ~ '^08[0-9]{0,13}$'),
+  vehicle_id UUID REFERENCES public.vehicles(id) ON DELETE SET NULL,
+  installed_at DATE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- One device per vehicle at a time
+CREATE UNIQUE INDEX IF NOT EXISTS gps_devices_vehicle_id_key ON public.gps_devices(vehicle_id) WHERE vehicle_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_gps_devices_simcard_number ON public.gps_devices(simcard_number);
+
+-- 4. Install history, written by install_gps_device()
+CREATE TABLE IF NOT EXISTS public.gps_device_installations (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  device_id UUID NOT NULL REFERENCES public.gps_devices(id) ON DELETE CASCADE,
+  vehicle_id UUID NOT NULL REFERENCES public.vehicles(id) ON DELETE CASCADE,
+  installed_at DATE NOT NULL,
+  removed_at DATE,
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_gps_device_installations_vehicle_id ON public.gps_device_installations(vehicle_id, installed_at);
+
+-- vehicle_id / installed_at are only written through install_gps_device(), so the history stays complete
+CREATE OR REPLACE FUNCTION public.protect_gps_device_installation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(current_setting('app.gps_device_install', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.vehicle_id := NULL;
+    NEW.installed_at := NULL;
+  ELSE
+    NEW.vehicle_id := OLD.vehicle_id;
+    NEW.installed_at := OLD.installed_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_gps_device_installation ON public.gps_devices;
+CREATE TRIGGER protect_gps_device_installation
+BEFORE INSERT OR UPDATE ON public.gps_devices
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_gps_device_installation();
+
+-- 5. RLS: staff manage the registry; installation history is read-only
+ALTER TABLE public.vehicles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gps_devices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gps_device_installations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customer service and admins can view vehicles" ON public.vehicles
+FOR SELECT TO authenticated
+USING (get_my_role() IN ('admin', 'customer_service'));
+
+CREATE POLICY "Customer service and admins can create vehicles" ON public.vehicles
+FOR INSERT TO authenticated
+WITH CHECK (get_my_role() IN ('admin', 'customer_service'));
+
+CREATE POLICY "Customer service and admins can update vehicles" ON public.vehicles
+FOR UPDATE TO authenticated
+USING (get_my_role() IN ('admin', 'customer_service'))
+WITH CHECK (get_my_role() IN ('admin', 'customer_service'));
+
+CREATE POLICY "Customer service and admins can view GPS devices" ON public.gps_devices
+FOR SELECT TO authenticated
+USING (get_my_role() IN ('admin', 'customer_service'));
+
+CREATE POLICY "Customer service and admins can create GPS devices" ON public.gps_devices
+FOR INSERT TO authenticated
+WITH CHECK (get_my_role() IN ('admin', 'customer_service'));
+
+CREATE POLICY "Customer service and admins can update GPS devices" ON public.gps_devices
+FOR UPDATE TO authenticated
+USING (get_my_role() IN ('admin', 'customer_service'))
+WITH CHECK (get_my_role() IN ('admin', 'customer_service'));
+
+CREATE POLICY "Customer service and admins can view GPS device installations" ON public.gps_device_installations
+FOR SELECT TO authenticated
+USING (get_my_role() IN ('admin', 'customer_service'));
+
+-- 6. Ticket links
+ALTER TABLE public.tickets
+  ADD COLUMN IF NOT EXISTS vehicle_id UUID REFERENCES public.vehicles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS gps_device_id UUID REFERENCES public.gps_devices(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_vehicle_id ON public.tickets(vehicle_id);
+CREATE INDEX IF NOT EXISTS idx_tickets_gps_device_id ON public.tickets(gps_device_id);
+
+-- 7. Backfill vehicles from existing tickets; the owner is the customer of the most recent ticket
+INSERT INTO public.vehicles (plate_number, customer_id, created_at)
+SELECT
+  normalized.plate_number,
+  (ARRAY_AGG(normalized.customer_id ORDER BY normalized.created_at DESC)
+    FILTER (WHERE normalized.customer_id IS NOT NULL))[1],
+  MIN(normalized.created_at)
+FROM (
+  SELECT normalize_plate_number(no_plat_kendaraan) AS plate_number, customer_id, created_at
+  FROM public.tickets
+) AS normalized
+WHERE normalized.plate_number IS NOT NULL
+GROUP BY normalized.plate_number
+ON CONFLICT (plate_number) DO NOTHING;
+
+UPDATE public.tickets t
+SET vehicle_id = v.id
+FROM public.vehicles v
+WHERE v.plate_number = normalize_plate_number(t.no_plat_kendaraan)
+  AND t.vehicle_id IS NULL;
+
+-- 8. Keep the links current. Runs after link_ticket_customer (trigger name order), so the ticket's
+-- customer becomes the owner of a newly seen vehicle. The device is the one installed when the ticket is filed,
+-- falling back to a registered device with the reported simcard.
+CREATE OR REPLACE FUNCTION public.link_ticket_vehicle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _plate TEXT := normalize_plate_number(NEW.no_plat_kendaraan);
+BEGIN
+  IF _plate IS NULL THEN
+    NEW.vehicle_id := NULL;
+  ELSE
+    INSERT INTO public.vehicles (plate_number, customer_id)
+    VALUES (_plate, NEW.customer_id)
+    ON CONFLICT (plate_number) DO UPDATE
+      SET customer_id = COALESCE(public.vehicles.customer_id, EXCLUDED.customer_id)
+    RETURNING id INTO NEW.vehicle_id;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.vehicle_id IS NOT DISTINCT FROM OLD.vehicle_id
+    AND NEW.no_simcard_gps IS NOT DISTINCT FROM OLD.no_simcard_gps THEN
+    NEW.gps_device_id := OLD.gps_device_id;
+    RETURN NEW;
+  END IF;
+
+  NEW.gps_device_id := COALESCE(
+    (SELECT id FROM public.gps_devices WHERE vehicle_id = NEW.vehicle_id),
+    (SELECT id FROM public.gps_devices WHERE simcard_number = NEW.no_simcard_gps ORDER BY created_at DESC LIMIT 1)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS link_ticket_vehicle ON public.tickets;
+CREATE TRIGGER link_ticket_vehicle
+BEFORE INSERT OR UPDATE OF no_plat_kendaraan, no_simcard_gps, vehicle_id, gps_device_id ON public.tickets
+FOR EACH ROW
+EXECUTE FUNCTION public.link_ticket_vehicle();
+
+-- 9. Install (or swap) the GPS device of a vehicle. The device is registered on first use; the device it
+-- replaces, and any vehicle the device came from, get their installation closed on the same date.
+CREATE OR REPLACE FUNCTION public.install_gps_device(
+  p_vehicle_id UUID,
+  p_imei TEXT,
+  p_model TEXT,
+  p_simcard_number TEXT,
+  p_installed_at DATE
+)
+RETURNS public.gps_devices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _installed_at DATE := COALESCE(p_installed_at, CURRENT_DATE);
+  _imei TEXT := BTRIM(p_imei);
+  _device public.gps_devices;
+BEGIN
+  IF get_my_role() NOT IN ('admin', 'customer_service') THEN
+    RAISE EXCEPTION 'Hanya admin atau customer service yang dapat memasang perangkat GPS'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.vehicles WHERE id = p_vehicle_id) THEN
+    RAISE EXCEPTION 'Kendaraan tidak ditemukan'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.gps_devices WHERE imei = _imei AND vehicle_id = p_vehicle_id) THEN
+    RAISE EXCEPTION 'Perangkat % sudah terpasang di kendaraan ini', _imei
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.gps_device_install', 'on', true);
+
+  -- Close the installations this swap ends: the vehicle's current device and the new device's previous vehicle
+  UPDATE public.gps_device_installations i
+  SET removed_at = _installed_at
+  FROM public.gps_devices d
+  WHERE i.device_id = d.id
+    AND i.removed_at IS NULL
+    AND (d.vehicle_id = p_vehicle_id OR d.imei = _imei);
+
+  UPDATE public.gps_devices
+  SET vehicle_id = NULL, installed_at = NULL
+  WHERE vehicle_id = p_vehicle_id OR imei = _imei;
+
+  INSERT INTO public.gps_devices (imei, model, simcard_number, vehicle_id, installed_at)
+  VALUES (_imei, NULLIF(BTRIM(p_model), ''), NULLIF(BTRIM(p_simcard_number), ''), p_vehicle_id, _installed_at)
+  ON CONFLICT (imei) DO UPDATE
+    SET model = COALESCE(EXCLUDED.model, public.gps_devices.model),
+        simcard_number = COALESCE(EXCLUDED.simcard_number, public.gps_devices.simcard_number),
+        vehicle_id = EXCLUDED.vehicle_id,
+        installed_at = EXCLUDED.installed_at
+  RETURNING * INTO _device;
+
+  INSERT INTO public.gps_device_installations (device_id, vehicle_id, installed_at, actor_id)
+  VALUES (_device.id, p_vehicle_id, _installed_at, auth.uid());
+
+  PERFORM set_config('app.gps_device_install', '', true);
+
+  RETURN _device;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.install_gps_device(UUID, TEXT, TEXT, TEXT, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.install_gps_device(UUID, TEXT, TEXT, TEXT, DATE) TO authenticated;
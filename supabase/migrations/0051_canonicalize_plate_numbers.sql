@@ -0,0 +1,277 @@
+-- Canonical Indonesian plate numbers
+-- Plates are parsed into region code, number and suffix and stored as "B 1234 XYZ", so spelling variants
+-- ("b1234xyz", "B1234 XYZ") stop creating separate vehicles. The region code maps to a province for reporting.
+-- The parser mirrors supabase/functions/_shared/plateNumber.ts, which the forms and edge functions use.
+
+-- 1. Region codes (kode wilayah TNKB)
+CREATE TABLE IF NOT EXISTS public.plate_regions (
+  code TEXT PRIMARY KEY CHECK (code ~ '^[A-Z]{1,2}$'),
+  region TEXT NOT NULL
+);
+
+INSERT INTO public.plate_regions (code, region) VALUES
+  ('A', 'Banten'),
+  ('B', 'Jakarta'),
+  ('D', 'Jawa Barat'),
+  ('E', 'Jawa Barat'),
+  ('F', 'Jawa Barat'),
+  ('T', 'Jawa Barat'),
+  ('Z', 'Jawa Barat'),
+  ('G', 'Jawa Tengah'),
+  ('H', 'Jawa Tengah'),
+  ('K', 'Jawa Tengah'),
+  ('R', 'Jawa Tengah'),
+  ('AA', 'Jawa Tengah'),
+  ('AD', 'Jawa Tengah'),
+  ('AB', 'DI Yogyakarta'),
+  ('L', 'Jawa Timur'),
+  ('M', 'Jawa Timur'),
+  ('N', 'Jawa Timur'),
+  ('P', 'Jawa Timur'),
+  ('S', 'Jawa Timur'),
+  ('W', 'Jawa Timur'),
+  ('AE', 'Jawa Timur'),
+  ('AG', 'Jawa Timur'),
+  ('BL', 'Aceh'),
+  ('BB', 'Sumatera Utara'),
+  ('BK', 'Sumatera Utara'),
+  ('BA', 'Sumatera Barat'),
+  ('BM', 'Riau'),
+  ('BP', 'Kepulauan Riau'),
+  ('BH', 'Jambi'),
+  ('BD', 'Bengkulu'),
+  ('BG', 'Sumatera Selatan'),
+  ('BN', 'Kepulauan Bangka Belitung'),
+  ('BE', 'Lampung'),
+  ('DK', 'Bali'),
+  ('DR', 'Nusa Tenggara Barat'),
+  ('EA', 'Nusa Tenggara Barat'),
+  ('DH', 'Nusa Tenggara Timur'),
+  ('EB', 'Nusa Tenggara Timur'),
+  ('ED', 'Nusa Tenggara Timur'),
+  ('KB', 'Kalimantan Barat'),
+  ('DA', 'Kalimantan Selatan'),
+  ('KH', 'Kalimantan Tengah'),
+  ('KT', 'Kalimantan Timur'),
+  ('KU', 'Kalimantan Utara'),
+  ('DB', 'Sulawesi Utara'),
+  ('DL', 'Sulawesi Utara'),
+  ('DM', 'Gorontalo'),
+  ('DN', 'Sulawesi Tengah'),
+  ('DD', 'Sulawesi Selatan'),
+  ('DC', 'Sulawesi Barat'),
+  ('DT', 'Sulawesi Tenggara'),
+  ('DE', 'Maluku'),
+  ('DG', 'Maluku Utara'),
+  ('PA', 'Papua'),
+  ('DS', 'Papua'),
+  ('PB', 'Papua Barat')
+ON CONFLICT (code) DO UPDATE SET region = EXCLUDED.region;
+
+ALTER TABLE public.plate_regions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view plate regions" ON public.plate_regions
+FOR SELECT TO authenticated
+USING (true);
+
+-- 2. Parser: "B 1234 XYZ" for any spacing, case or separators, NULL when the plate does not parse
+-- or the region code is unknown
+CREATE OR REPLACE FUNCTION public.canonical_plate_number(p_plate TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT concat_ws(' ', m.parts[1], m.parts[2], NULLIF(m.parts[3], ''))
+  FROM regexp_match(
+    regexp_replace(UPPER(COALESCE(p_plate, '')), '[^A-Z0-9]', '', 'g'),
+    '^([A-Z]{1,2})([1-9][0-9]{0,3})([A-Z]{0,3})$'
+  ) AS m(parts)
+  WHERE EXISTS (SELECT 1 FROM public.plate_regions r WHERE r.code = m.parts[1]);
+$$;
+
+-- The vehicle key is now the canonical plate; plates that do not parse (older tickets) keep the
+-- upper case, single space form from 0050
+CREATE OR REPLACE FUNCTION public.normalize_plate_number(p_plate TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    canonical_plate_number(p_plate),
+    NULLIF(UPPER(BTRIM(regexp_replace(COALESCE(p_plate, ''), '\s+', ' ', 'g'))), '')
+  );
+$$;
+
+-- 3. Vehicles carry their region code for reporting
+ALTER TABLE public.vehicles
+  ADD COLUMN IF NOT EXISTS region_code TEXT REFERENCES public.plate_regions(code);
+
+CREATE INDEX IF NOT EXISTS idx_vehicles_region_code ON public.vehicles(region_code);
+
+CREATE OR REPLACE FUNCTION public.canonicalize_vehicle_plate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.plate_number := normalize_plate_number(NEW.plate_number);
+  NEW.region_code := CASE
+    WHEN canonical_plate_number(NEW.plate_number) IS NOT NULL THEN split_part(NEW.plate_number, ' ', 1)
+  END;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS canonicalize_vehicle_plate ON public.vehicles;
+CREATE TRIGGER canonicalize_vehicle_plate
+BEFORE INSERT OR UPDATE OF plate_number ON public.vehicles
+FOR EACH ROW
+EXECUTE FUNCTION public.canonicalize_vehicle_plate();
+
+-- 4. Backfill. Ticket links are rewritten here, so link_ticket_vehicle stays out of the way until the
+-- duplicate vehicles are merged.
+ALTER TABLE public.tickets DISABLE TRIGGER link_ticket_vehicle;
+
+UPDATE public.tickets
+SET no_plat_kendaraan = canonical_plate_number(no_plat_kendaraan)
+WHERE canonical_plate_number(no_plat_kendaraan) IS NOT NULL
+  AND canonical_plate_number(no_plat_kendaraan) IS DISTINCT FROM no_plat_kendaraan;
+
+-- Vehicles that are spelling variants of one plate merge into the oldest of them
+CREATE TEMP TABLE vehicle_merge AS
+SELECT id AS vehicle_id,
+  FIRST_VALUE(id) OVER (PARTITION BY normalize_plate_number(plate_number) ORDER BY created_at, id) AS keeper_id
+FROM public.vehicles;
+
+UPDATE public.vehicles k
+SET customer_id = COALESCE(k.customer_id, merged.customer_id),
+    make = COALESCE(k.make, merged.make)
+FROM (
+  SELECT m.keeper_id,
+    (ARRAY_AGG(v.customer_id ORDER BY v.created_at DESC) FILTER (WHERE v.customer_id IS NOT NULL))[1] AS customer_id,
+    (ARRAY_AGG(v.make ORDER BY v.created_at DESC) FILTER (WHERE v.make IS NOT NULL))[1] AS make
+  FROM vehicle_merge m
+  JOIN public.vehicles v ON v.id = m.vehicle_id
+  WHERE m.vehicle_id <> m.keeper_id
+  GROUP BY m.keeper_id
+) AS merged
+WHERE k.id = merged.keeper_id;
+
+UPDATE public.tickets t
+SET vehicle_id = m.keeper_id
+FROM vehicle_merge m
+WHERE t.vehicle_id = m.vehicle_id
+  AND m.vehicle_id <> m.keeper_id;
+
+-- A merged vehicle keeps its most recently installed device; the others are recorded as removed today
+SELECT set_config('app.gps_device_install', 'on', true);
+
+CREATE TEMP TABLE device_merge AS
+SELECT d.id AS device_id,
+  m.keeper_id,
+  ROW_NUMBER() OVER (PARTITION BY m.keeper_id ORDER BY d.installed_at DESC NULLS LAST, d.created_at DESC) AS device_rank
+FROM public.gps_devices d
+JOIN vehicle_merge m ON m.vehicle_id = d.vehicle_id;
+
+UPDATE public.gps_device_installations i
+SET removed_at = CURRENT_DATE
+FROM device_merge dm
+WHERE i.device_id = dm.device_id
+  AND dm.device_rank > 1
+  AND i.removed_at IS NULL;
+
+UPDATE public.gps_devices d
+SET vehicle_id = NULL, installed_at = NULL
+FROM device_merge dm
+WHERE d.id = dm.device_id
+  AND dm.device_rank > 1;
+
+UPDATE public.gps_devices d
+SET vehicle_id = dm.keeper_id
+FROM device_merge dm
+WHERE d.id = dm.device_id
+  AND dm.device_rank = 1
+  AND d.vehicle_id <> dm.keeper_id;
+
+SELECT set_config('app.gps_device_install', '', true);
+
+UPDATE public.gps_device_installations i
+SET vehicle_id = m.keeper_id
+FROM vehicle_merge m
+WHERE i.vehicle_id = m.vehicle_id
+  AND m.vehicle_id <> m.keeper_id;
+
+DELETE FROM public.vehicles v
+USING vehicle_merge m
+WHERE v.id = m.vehicle_id
+  AND m.vehicle_id <> m.keeper_id;
+
+-- Rewrites the surviving plates to canonical form and fills region_code
+UPDATE public.vehicles
+SET plate_number = plate_number;
+
+DROP TABLE device_merge;
+DROP TABLE vehicle_merge;
+
+ALTER TABLE public.tickets ENABLE TRIGGER link_ticket_vehicle;
+
+-- 5. New and edited ticket plates must parse, and are stored canonical. Runs before link_ticket_vehicle
+-- (trigger name order), so the vehicle is looked up by the canonical plate. Plates of older tickets that
+-- do not parse are left alone until someone edits them.
+CREATE OR REPLACE FUNCTION public.canonicalize_ticket_plate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _canonical TEXT;
+BEGIN
+  IF NEW.no_plat_kendaraan IS NULL
+    OR (TG_OP = 'UPDATE' AND NEW.no_plat_kendaraan IS NOT DISTINCT FROM OLD.no_plat_kendaraan) THEN
+    RETURN NEW;
+  END IF;
+
+  _canonical := canonical_plate_number(NEW.no_plat_kendaraan);
+  IF _canonical IS NULL THEN
+    RAISE EXCEPTION 'No plat kendaraan "%" tidak valid. Contoh: B 1234 XYZ', NEW.no_plat_kendaraan
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.no_plat_kendaraan := _canonical;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS canonicalize_ticket_plate ON public.tickets;
+CREATE TRIGGER canonicalize_ticket_plate
+BEFORE INSERT OR UPDATE OF no_plat_kendaraan ON public.tickets
+FOR EACH ROW
+EXECUTE FUNCTION public.canonicalize_ticket_plate();
+
+-- 6. Region report: tickets per province of the vehicle's plate
+CREATE OR REPLACE FUNCTION public.get_ticket_region_report()
+RETURNS TABLE (
+  region TEXT,
+  ticket_count BIGINT,
+  active_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.region,
+    COUNT(t.id),
+    COUNT(t.id) FILTER (WHERE t.status IN ('open', 'in_progress', 'pending_customer', 'on_hold'))
+  FROM public.tickets t
+  LEFT JOIN public.vehicles v ON v.id = t.vehicle_id
+  LEFT JOIN public.plate_regions r ON r.code = v.region_code
+  WHERE get_my_role() IN ('admin', 'customer_service')
+  GROUP BY r.region
+  ORDER BY COUNT(t.id) DESC, r.region;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_ticket_region_report() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_ticket_region_report() TO authenticated;
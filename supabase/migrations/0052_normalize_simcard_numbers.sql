@@ -0,0 +1,150 @@
+-- GPS simcard numbers in E.164 with their operator
+-- Ticket and device simcards are stored as "+6281234567890" whatever form they were typed in, and the
+-- operator (Telkomsel, Indosat, ...) is derived from the prefix so data-quota problems can be traced to a carrier.
+-- Mirrors supabase/functions/_shared/simcardNumber.ts, which the forms and edge functions use.
+
+-- 1. Normalizer: E.164, or NULL when the number is not an Indonesian mobile number
+CREATE OR REPLACE FUNCTION public.normalize_simcard_number(p_number TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT '+62' || s.subscriber
+  FROM (
+    SELECT regexp_replace(regexp_replace(regexp_replace(c.compact, '^\+', ''), '^62', ''), '^0', '') AS subscriber,
+      c.compact
+    FROM (SELECT regexp_replace(BTRIM(COALESCE(p_number, '')), '[\s().-]', '', 'g') AS compact) AS c
+  ) AS s
+  WHERE s.compact ~ '^\+?[0-9]+$'
+    AND s.subscriber ~ '^8[0-9]{8,11}$';
+$$;
+
+-- Operator from the first three digits after +62; NULL for prefixes we do not know
+CREATE OR REPLACE FUNCTION public.simcard_operator(p_e164 TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN substr(p_e164, 4, 3) IN ('811', '812', '813', '821', '822', '823', '851', '852', '853') THEN 'telkomsel'
+    WHEN substr(p_e164, 4, 3) IN ('814', '815', '816', '855', '856', '857', '858') THEN 'indosat'
+    WHEN substr(p_e164, 4, 3) IN ('817', '818', '819', '859', '877', '878') THEN 'xl'
+    WHEN substr(p_e164, 4, 3) IN ('831', '832', '833', '838') THEN 'axis'
+    WHEN substr(p_e164, 4, 3) IN ('895', '896', '897', '898', '899') THEN 'tri'
+    WHEN substr(p_e164, 4, 3) IN ('881', '882', '883', '884', '885', '886', '887', '888', '889') THEN 'smartfren'
+  END;
+$$;
+
+-- 2. Operator columns. The format checks also accept the older 08... form, kept on rows whose number
+-- never parsed.
+ALTER TABLE public.tickets
+  ADD COLUMN IF NOT EXISTS simcard_operator TEXT
+    CHECK (simcard_operator IN ('telkomsel', 'indosat', 'xl', 'axis', 'tri', 'smartfren'));
+
+ALTER TABLE public.gps_devices
+  ADD COLUMN IF NOT EXISTS simcard_operator TEXT
+    CHECK (simcard_operator IN ('telkomsel', 'indosat', 'xl', 'axis', 'tri', 'smartfren'));
+
+CREATE INDEX IF NOT EXISTS idx_tickets_simcard_operator ON public.tickets(simcard_operator);
+
+ALTER TABLE public.tickets DROP CONSTRAINT IF EXISTS tickets_no_simcard_gps_format_check;
+ALTER TABLE public.tickets
+ADD CONSTRAINT tickets_no_simcard_gps_format_check
+CHECK (no_simcard_gps IS NULL OR no_simcard_gps ~ '^(\+628[0-9]{8,11}|08[0-9]{0,13})$');
+
+ALTER TABLE public.gps_devices DROP CONSTRAINT IF EXISTS gps_devices_simcard_number_check;
+ALTER TABLE public.gps_devices
+ADD CONSTRAINT gps_devices_simcard_number_check
+CHECK (simcard_number IS NULL OR simcard_number ~ '^(\+628[0-9]{8,11}|08[0-9]{0,13})$');
+
+-- 3. Backfill. Devices first, so tickets and devices still match on simcard afterwards; the ticket's
+-- device link is left as filed.
+UPDATE public.gps_devices
+SET simcard_number = normalize_simcard_number(simcard_number),
+    simcard_operator = simcard_operator(normalize_simcard_number(simcard_number))
+WHERE normalize_simcard_number(simcard_number) IS NOT NULL;
+
+ALTER TABLE public.tickets DISABLE TRIGGER link_ticket_vehicle;
+
+UPDATE public.tickets
+SET no_simcard_gps = normalize_simcard_number(no_simcard_gps),
+    simcard_operator = simcard_operator(normalize_simcard_number(no_simcard_gps))
+WHERE normalize_simcard_number(no_simcard_gps) IS NOT NULL;
+
+ALTER TABLE public.tickets ENABLE TRIGGER link_ticket_vehicle;
+
+-- 4. New and edited simcards must parse and are stored in E.164; the operator always follows the number.
+-- The ticket trigger runs before link_ticket_vehicle (trigger name order), which matches devices by simcard.
+CREATE OR REPLACE FUNCTION public.canonicalize_ticket_simcard()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _e164 TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.no_simcard_gps IS NOT DISTINCT FROM OLD.no_simcard_gps THEN
+    NEW.simcard_operator := OLD.simcard_operator;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.no_simcard_gps IS NULL THEN
+    NEW.simcard_operator := NULL;
+    RETURN NEW;
+  END IF;
+
+  _e164 := normalize_simcard_number(NEW.no_simcard_gps);
+  IF _e164 IS NULL THEN
+    RAISE EXCEPTION 'No simcard GPS "%" bukan nomor seluler Indonesia yang valid', NEW.no_simcard_gps
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.no_simcard_gps := _e164;
+  NEW.simcard_operator := simcard_operator(_e164);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS canonicalize_ticket_simcard ON public.tickets;
+CREATE TRIGGER canonicalize_ticket_simcard
+BEFORE INSERT OR UPDATE OF no_simcard_gps, simcard_operator ON public.tickets
+FOR EACH ROW
+EXECUTE FUNCTION public.canonicalize_ticket_simcard();
+
+CREATE OR REPLACE FUNCTION public.canonicalize_gps_device_simcard()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _e164 TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.simcard_number IS NOT DISTINCT FROM OLD.simcard_number THEN
+    NEW.simcard_operator := OLD.simcard_operator;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.simcard_number IS NULL THEN
+    NEW.simcard_operator := NULL;
+    RETURN NEW;
+  END IF;
+
+  _e164 := normalize_simcard_number(NEW.simcard_number);
+  IF _e164 IS NULL THEN
+    RAISE EXCEPTION 'No simcard "%" bukan nomor seluler Indonesia yang valid', NEW.simcard_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.simcard_number := _e164;
+  NEW.simcard_operator := simcard_operator(_e164);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS canonicalize_gps_device_simcard ON public.gps_devices;
+CREATE TRIGGER canonicalize_gps_device_simcard
+BEFORE INSERT OR UPDATE OF simcard_number, simcard_operator ON public.gps_devices
+FOR EACH ROW
+EXECUTE FUNCTION public.canonicalize_gps_device_simcard();
@@ -0,0 +1,201 @@
+-- Customer WhatsApp numbers in E.164
+-- The 0049 rule assumed every number was Indonesian (drop a leading 0, prepend 62), which corrupted foreign
+-- numbers such as +60 Malaysian ones. Tickets now keep the number as typed in customer_whatsapp and the
+-- normalized E.164 form in customer_whatsapp_e164; customers are keyed by E.164.
+-- Mirrors supabase/functions/_shared/phoneNumber.ts, which the forms, edge functions and wa.me links use.
+
+-- 1. Supported country calling codes
+CREATE TABLE IF NOT EXISTS public.phone_country_codes (
+  calling_code TEXT PRIMARY KEY CHECK (calling_code ~ '^[1-9][0-9]{0,2}$'),
+  country TEXT NOT NULL
+);
+
+INSERT INTO public.phone_country_codes (calling_code, country) VALUES
+  ('62', 'Indonesia'),
+  ('60', 'Malaysia'),
+  ('65', 'Singapura'),
+  ('673', 'Brunei'),
+  ('670', 'Timor Leste'),
+  ('63', 'Filipina'),
+  ('66', 'Thailand'),
+  ('84', 'Vietnam'),
+  ('61', 'Australia'),
+  ('86', 'Tiongkok'),
+  ('852', 'Hong Kong'),
+  ('886', 'Taiwan'),
+  ('81', 'Jepang'),
+  ('82', 'Korea Selatan'),
+  ('91', 'India'),
+  ('966', 'Arab Saudi'),
+  ('971', 'Uni Emirat Arab'),
+  ('31', 'Belanda'),
+  ('44', 'Inggris'),
+  ('49', 'Jerman'),
+  ('1', 'Amerika Serikat / Kanada')
+ON CONFLICT (calling_code) DO UPDATE SET country = EXCLUDED.country;
+
+ALTER TABLE public.phone_country_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view phone country codes" ON public.phone_country_codes
+FOR SELECT TO authenticated
+USING (true);
+
+-- 2. Normalizer: E.164, or NULL when the number does not parse. Numbers without a country code are Indonesian.
+CREATE OR REPLACE FUNCTION public.normalize_phone_number(p_number TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _compact TEXT := regexp_replace(BTRIM(COALESCE(p_number, '')), '[\s().-]', '', 'g');
+  _digits TEXT;
+  _code TEXT;
+BEGIN
+  IF _compact !~ '^(\+|00)?[0-9]+$' THEN
+    RETURN NULL;
+  END IF;
+
+  IF LEFT(_compact, 1) = '+' THEN
+    _digits := SUBSTRING(_compact FROM 2);
+  ELSIF LEFT(_compact, 2) = '00' THEN
+    _digits := SUBSTRING(_compact FROM 3);
+  ELSIF LEFT(_compact, 1) = '0' THEN
+    _digits := '62' || SUBSTRING(_compact FROM 2);
+  ELSIF LEFT(_compact, 1) = '8' THEN
+    _digits := '62' || _compact;
+  ELSE
+    _digits := _compact;
+  END IF;
+
+  -- "+62 0812..." keeps the trunk 0 by mistake
+  IF LEFT(_digits, 3) = '620' THEN
+    _digits := '62' || SUBSTRING(_digits FROM 4);
+  END IF;
+
+  SELECT calling_code INTO _code
+  FROM public.phone_country_codes
+  WHERE _digits LIKE calling_code || '%'
+  ORDER BY length(calling_code) DESC
+  LIMIT 1;
+
+  IF _code IS NULL
+    OR SUBSTRING(_digits FROM length(_code) + 1) !~ '^[1-9][0-9]{5,13}$'
+    OR length(_digits) > 15 THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN '+' || _digits;
+END;
+$$;
+
+-- 3. Dedicated column for the normalized number
+ALTER TABLE public.tickets
+  ADD COLUMN IF NOT EXISTS customer_whatsapp_e164 TEXT CHECK (customer_whatsapp_e164 ~ '^\+[1-9][0-9]{6,14}$');
+
+-- 4. Backfill. link_ticket_customer is replaced below; it stays out of the way while customers are re-keyed.
+ALTER TABLE public.tickets DISABLE TRIGGER link_ticket_customer;
+
+UPDATE public.tickets
+SET customer_whatsapp_e164 = normalize_phone_number(customer_whatsapp)
+WHERE customer_whatsapp_e164 IS DISTINCT FROM normalize_phone_number(customer_whatsapp);
+
+-- Same numbers, E.164 spelling ("628..." -> "+628...")
+UPDATE public.customers
+SET whatsapp_number = '+' || whatsapp_number
+WHERE whatsapp_number NOT LIKE '+%';
+
+-- Numbers the old rule mangled get a customer of their own
+INSERT INTO public.customers (whatsapp_number, name, created_at)
+SELECT t.customer_whatsapp_e164,
+  (ARRAY_AGG(t.customer_name ORDER BY t.created_at DESC) FILTER (WHERE BTRIM(t.customer_name) <> ''))[1],
+  MIN(t.created_at)
+FROM public.tickets t
+WHERE t.customer_whatsapp_e164 IS NOT NULL
+GROUP BY t.customer_whatsapp_e164
+ON CONFLICT (whatsapp_number) DO NOTHING;
+
+-- Where a customer's latest ticket now belongs to another customer, that one takes over its notes and vehicles
+CREATE TEMP TABLE customer_merge AS
+SELECT DISTINCT ON (t.customer_id) t.customer_id AS old_id, c.id AS new_id
+FROM public.tickets t
+JOIN public.customers c ON c.whatsapp_number = t.customer_whatsapp_e164
+WHERE t.customer_id IS NOT NULL
+ORDER BY t.customer_id, t.created_at DESC;
+
+DELETE FROM customer_merge WHERE old_id = new_id;
+
+UPDATE public.tickets t
+SET customer_id = c.id
+FROM public.customers c
+WHERE c.whatsapp_number = t.customer_whatsapp_e164
+  AND t.customer_id IS DISTINCT FROM c.id;
+
+-- Only customers left without tickets are folded in
+DELETE FROM customer_merge m
+WHERE EXISTS (SELECT 1 FROM public.tickets t WHERE t.customer_id = m.old_id);
+
+UPDATE public.customer_notes n
+SET customer_id = m.new_id
+FROM customer_merge m
+WHERE n.customer_id = m.old_id;
+
+UPDATE public.vehicles v
+SET customer_id = m.new_id
+FROM customer_merge m
+WHERE v.customer_id = m.old_id;
+
+DELETE FROM public.customers c
+USING customer_merge m
+WHERE c.id = m.old_id;
+
+DROP TABLE customer_merge;
+
+ALTER TABLE public.tickets ENABLE TRIGGER link_ticket_customer;
+
+-- 5. Keep the normalized number and the customer link current. Edited numbers must parse; numbers of older
+-- tickets that never parsed are left alone until someone edits them.
+CREATE OR REPLACE FUNCTION public.link_ticket_customer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.customer_whatsapp IS DISTINCT FROM OLD.customer_whatsapp THEN
+    NEW.customer_whatsapp_e164 := normalize_phone_number(NEW.customer_whatsapp);
+    IF NEW.customer_whatsapp_e164 IS NULL AND BTRIM(COALESCE(NEW.customer_whatsapp, '')) <> '' THEN
+      RAISE EXCEPTION 'Nomor WhatsApp "%" tidak valid', NEW.customer_whatsapp
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSE
+    NEW.customer_whatsapp_e164 := OLD.customer_whatsapp_e164;
+  END IF;
+
+  -- No number, or an older one that never parsed: keep whatever customer the ticket already had
+  IF NEW.customer_whatsapp_e164 IS NULL THEN
+    IF TG_OP = 'UPDATE' AND NEW.customer_whatsapp IS NOT DISTINCT FROM OLD.customer_whatsapp THEN
+      NEW.customer_id := OLD.customer_id;
+    ELSE
+      NEW.customer_id := NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.customers (whatsapp_number, name)
+  VALUES (NEW.customer_whatsapp_e164, NULLIF(BTRIM(NEW.customer_name), ''))
+  ON CONFLICT (whatsapp_number) DO UPDATE
+    SET name = COALESCE(public.customers.name, EXCLUDED.name)
+  RETURNING id INTO NEW.customer_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS link_ticket_customer ON public.tickets;
+CREATE TRIGGER link_ticket_customer
+BEFORE INSERT OR UPDATE OF customer_whatsapp, customer_whatsapp_e164, customer_name, customer_id ON public.tickets
+FOR EACH ROW
+EXECUTE FUNCTION public.link_ticket_customer();
+
+DROP FUNCTION IF EXISTS public.normalize_whatsapp_number(TEXT);
@@ -0,0 +1,120 @@
+-- Corporate fleet accounts
+-- A fleet account is a company with many vehicles under one contract. Vehicles (and the customers who call in
+-- for them, such as drivers or the company's own staff) are assigned to a fleet; a ticket belongs to a fleet
+-- through its vehicle, so the fleet page always reflects the vehicles currently in the fleet.
+
+-- 1. Fleet accounts with their PIC contact and contract tier
+CREATE TABLE IF NOT EXISTS public.fleet_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE CHECK (char_length(BTRIM(name)) BETWEEN 1 AND 200),
+  pic_name TEXT,
+  pic_whatsapp TEXT CHECK (pic_whatsapp ~ '^\+[1-9][0-9]{6,14}$'),
+  pic_email TEXT,
+  contract_tier TEXT NOT NULL DEFAULT 'standard' CHECK (contract_tier IN ('standard', 'gold', 'platinum')),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- The PIC number is stored in E.164 like customer numbers
+CREATE OR REPLACE FUNCTION public.canonicalize_fleet_account_pic()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _e164 TEXT;
+BEGIN
+  NEW.name := BTRIM(NEW.name);
+
+  IF BTRIM(COALESCE(NEW.pic_whatsapp, '')) = '' THEN
+    NEW.pic_whatsapp := NULL;
+    RETURN NEW;
+  END IF;
+
+  _e164 := normalize_phone_number(NEW.pic_whatsapp);
+  IF _e164 IS NULL THEN
+    RAISE EXCEPTION 'Nomor WhatsApp PIC "%" tidak valid', NEW.pic_whatsapp
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.pic_whatsapp := _e164;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS canonicalize_fleet_account_pic ON public.fleet_accounts;
+CREATE TRIGGER canonicalize_fleet_account_pic
+BEFORE INSERT OR UPDATE OF name, pic_whatsapp ON public.fleet_accounts
+FOR EACH ROW
+EXECUTE FUNCTION public.canonicalize_fleet_account_pic();
+
+ALTER TABLE public.fleet_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customer service and admins can view fleet accounts" ON public.fleet_accounts
+FOR SELECT TO authenticated
+USING (get_my_role() IN ('admin', 'customer_service'));
+
+CREATE POLICY "Customer service and admins can create fleet accounts" ON public.fleet_accounts
+FOR INSERT TO authenticated
+WITH CHECK (get_my_role() IN ('admin', 'customer_service'));
+
+CREATE POLICY "Customer service and admins can update fleet accounts" ON public.fleet_accounts
+FOR UPDATE TO authenticated
+USING (get_my_role() IN ('admin', 'customer_service'))
+WITH CHECK (get_my_role() IN ('admin', 'customer_service'));
+
+CREATE POLICY "Admins can delete fleet accounts" ON public.fleet_accounts
+FOR DELETE TO authenticated
+USING (get_my_role() = 'admin');
+
+-- 2. Fleet membership. Deleting a fleet leaves its vehicles and customers in place.
+ALTER TABLE public.vehicles
+  ADD COLUMN IF NOT EXISTS fleet_account_id UUID REFERENCES public.fleet_accounts(id) ON DELETE SET NULL;
+
+ALTER TABLE public.customers
+  ADD COLUMN IF NOT EXISTS fleet_account_id UUID REFERENCES public.fleet_accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_vehicles_fleet_account_id ON public.vehicles(fleet_account_id);
+CREATE INDEX IF NOT EXISTS idx_customers_fleet_account_id ON public.customers(fleet_account_id);
+
+-- 3. Monthly complaint volume of a fleet for service reviews: the last p_months calendar months (Jakarta
+-- time), including months without tickets
+CREATE OR REPLACE FUNCTION public.get_fleet_monthly_ticket_volume(
+  p_fleet_account_id UUID,
+  p_months INTEGER DEFAULT 12
+)
+RETURNS TABLE (
+  month DATE,
+  ticket_count BIGINT,
+  resolved_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH months AS (
+    SELECT generate_series(
+      date_trunc('month', NOW() AT TIME ZONE 'Asia/Jakarta') - make_interval(months => GREATEST(p_months, 1) - 1),
+      date_trunc('month', NOW() AT TIME ZONE 'Asia/Jakarta'),
+      INTERVAL '1 month'
+    )::DATE AS month
+  ),
+  fleet_tickets AS (
+    SELECT date_trunc('month', t.created_at AT TIME ZONE 'Asia/Jakarta')::DATE AS month, t.status
+    FROM public.tickets t
+    JOIN public.vehicles v ON v.id = t.vehicle_id
+    WHERE v.fleet_account_id = p_fleet_account_id
+  )
+  SELECT m.month,
+    COUNT(ft.month),
+    COUNT(ft.month) FILTER (WHERE ft.status IN ('resolved', 'closed'))
+  FROM months m
+  LEFT JOIN fleet_tickets ft ON ft.month = m.month
+  WHERE get_my_role() IN ('admin', 'customer_service')
+  GROUP BY m.month
+  ORDER BY m.month;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_fleet_monthly_ticket_volume(UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_fleet_monthly_ticket_volume(UUID, INTEGER) TO authenticated;
@@ -0,0 +1,192 @@
+-- Bulk import of customers, vehicles and GPS devices from spreadsheets
+-- The import page sends the mapped CSV rows in batches. Every row is upserted by its natural key (canonical
+-- plate, E.164 WhatsApp number, IMEI), so importing the same file twice changes nothing the second time.
+-- A dry run does all the work and rolls it back, which gives the per-row preview.
+
+CREATE OR REPLACE FUNCTION public.import_registry_rows(
+  p_rows JSONB,
+  p_dry_run BOOLEAN DEFAULT true
+)
+RETURNS TABLE (
+  row_number INTEGER,
+  status TEXT,
+  message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _results JSONB := '[]'::JSONB;
+  _row JSONB;
+  _row_number INTEGER;
+  _plate TEXT;
+  _make TEXT;
+  _customer_name TEXT;
+  _whatsapp TEXT;
+  _imei TEXT;
+  _model TEXT;
+  _simcard TEXT;
+  _installed_at DATE;
+  _customer_id UUID;
+  _vehicle public.vehicles;
+  _device public.gps_devices;
+  _created BOOLEAN;
+  _changes TEXT[];
+BEGIN
+  IF get_my_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Hanya admin yang dapat mengimpor data registry'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF jsonb_typeof(p_rows) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Data impor harus berupa daftar baris'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF jsonb_array_length(p_rows) > 500 THEN
+    RAISE EXCEPTION 'Maksimal 500 baris per permintaan impor'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Outer block: a dry run rolls back everything done inside it, the collected results survive
+  BEGIN
+    FOR _row IN SELECT value FROM jsonb_array_elements(p_rows) LOOP
+      _row_number := (_row->>'row_number')::INTEGER;
+
+      -- Inner block: a failing row is rolled back on its own and reported
+      BEGIN
+        _plate := canonical_plate_number(_row->>'plate_number');
+        _make := NULLIF(BTRIM(COALESCE(_row->>'make', '')), '');
+        _customer_name := NULLIF(BTRIM(COALESCE(_row->>'customer_name', '')), '');
+        _whatsapp := NULLIF(BTRIM(COALESCE(_row->>'customer_whatsapp', '')), '');
+        _imei := NULLIF(BTRIM(COALESCE(_row->>'imei', '')), '');
+        _model := NULLIF(BTRIM(COALESCE(_row->>'device_model', '')), '');
+        _simcard := NULLIF(BTRIM(COALESCE(_row->>'simcard_number', '')), '');
+        _installed_at := NULLIF(BTRIM(COALESCE(_row->>'installed_at', '')), '')::DATE;
+        _created := false;
+        _changes := '{}';
+
+        IF _plate IS NULL THEN
+          RAISE EXCEPTION 'No plat "%" tidak valid', COALESCE(_row->>'plate_number', '')
+            USING ERRCODE = 'check_violation';
+        END IF;
+
+        IF _whatsapp IS NOT NULL AND normalize_phone_number(_whatsapp) IS NULL THEN
+          RAISE EXCEPTION 'Nomor WhatsApp "%" tidak valid', _whatsapp
+            USING ERRCODE = 'check_violation';
+        END IF;
+        _whatsapp := normalize_phone_number(_whatsapp);
+
+        IF _imei IS NOT NULL AND _imei !~ '^[0-9]{15}$' THEN
+          RAISE EXCEPTION 'IMEI "%" harus 15 digit angka', _imei
+            USING ERRCODE = 'check_violation';
+        END IF;
+
+        IF _simcard IS NOT NULL AND normalize_simcard_number(_simcard) IS NULL THEN
+          RAISE EXCEPTION 'No simcard "%" bukan nomor seluler Indonesia yang valid', _simcard
+            USING ERRCODE = 'check_violation';
+        END IF;
+        _simcard := normalize_simcard_number(_simcard);
+
+        IF _imei IS NULL AND (_simcard IS NOT NULL OR _model IS NOT NULL) THEN
+          RAISE EXCEPTION 'No simcard dan model perangkat memerlukan IMEI'
+            USING ERRCODE = 'check_violation';
+        END IF;
+
+        -- Customer, by E.164 number; a name in the file replaces the stored one
+        _customer_id := NULL;
+        IF _whatsapp IS NOT NULL THEN
+          SELECT id INTO _customer_id FROM public.customers WHERE whatsapp_number = _whatsapp;
+
+          IF _customer_id IS NULL THEN
+            INSERT INTO public.customers (whatsapp_number, name)
+            VALUES (_whatsapp, _customer_name)
+            RETURNING id INTO _customer_id;
+            _changes := _changes || 'pelanggan baru'::TEXT;
+          ELSE
+            UPDATE public.customers
+            SET name = _customer_name
+            WHERE id = _customer_id
+              AND _customer_name IS NOT NULL
+              AND name IS DISTINCT FROM _customer_name;
+            IF FOUND THEN
+              _changes := _changes || 'nama pelanggan'::TEXT;
+            END IF;
+          END IF;
+        END IF;
+
+        -- Vehicle, by canonical plate; the customer in the file becomes the owner
+        SELECT * INTO _vehicle FROM public.vehicles WHERE plate_number = _plate;
+
+        IF NOT FOUND THEN
+          INSERT INTO public.vehicles (plate_number, make, customer_id)
+          VALUES (_plate, _make, _customer_id)
+          RETURNING * INTO _vehicle;
+          _created := true;
+        ELSE
+          UPDATE public.vehicles
+          SET make = COALESCE(_make, make),
+              customer_id = COALESCE(_customer_id, customer_id)
+          WHERE id = _vehicle.id
+            AND (make IS DISTINCT FROM COALESCE(_make, make)
+              OR customer_id IS DISTINCT FROM COALESCE(_customer_id, customer_id));
+          IF FOUND THEN
+            _changes := _changes || 'data kendaraan'::TEXT;
+          END IF;
+        END IF;
+
+        -- Device, by IMEI. A device already in this vehicle is only updated; anything else goes through
+        -- install_gps_device() so the swap history stays complete.
+        IF _imei IS NOT NULL THEN
+          SELECT * INTO _device FROM public.gps_devices WHERE imei = _imei;
+
+          IF _device.id IS NOT NULL AND _device.vehicle_id = _vehicle.id THEN
+            UPDATE public.gps_devices
+            SET model = COALESCE(_model, model),
+                simcard_number = COALESCE(_simcard, simcard_number)
+            WHERE id = _device.id
+              AND (model IS DISTINCT FROM COALESCE(_model, model)
+                OR simcard_number IS DISTINCT FROM COALESCE(_simcard, simcard_number));
+            IF FOUND THEN
+              _changes := _changes || 'data perangkat'::TEXT;
+            END IF;
+          ELSE
+            _changes := _changes || CASE WHEN _device.id IS NOT NULL THEN 'perangkat dipindahkan' ELSE 'perangkat baru' END;
+            PERFORM install_gps_device(_vehicle.id, _imei, _model, _simcard, _installed_at);
+          END IF;
+        END IF;
+
+        _results := _results || jsonb_build_object(
+          'row_number', _row_number,
+          'status', CASE
+            WHEN _created THEN 'created'
+            WHEN cardinality(_changes) > 0 THEN 'updated'
+            ELSE 'unchanged'
+          END,
+          'message', NULLIF(array_to_string(_changes, ', '), '')
+        );
+      EXCEPTION WHEN OTHERS THEN
+        _results := _results || jsonb_build_object(
+          'row_number', _row_number,
+          'status', 'error',
+          'message', SQLERRM
+        );
+      END;
+    END LOOP;
+
+    IF p_dry_run THEN
+      RAISE EXCEPTION 'Dry run' USING ERRCODE = 'RIDRY';
+    END IF;
+  EXCEPTION WHEN SQLSTATE 'RIDRY' THEN
+    NULL;
+  END;
+
+  RETURN QUERY
+  SELECT (r.value->>'row_number')::INTEGER, r.value->>'status', r.value->>'message'
+  FROM jsonb_array_elements(_results) AS r;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.import_registry_rows(JSONB, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.import_registry_rows(JSONB, BOOLEAN) TO authenticated;
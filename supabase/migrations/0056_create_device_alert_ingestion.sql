@@ -0,0 +1,201 @@
+-- Tickets from GPS device alerts
+-- The device-alert-ingest edge function receives alerts ("offline > 24h", "power cut") from the tracking
+-- platform and hands them to ingest_device_alert(). The alert is matched to the registered device, its vehicle
+-- and owner; the first alert opens a 'Device Alert' ticket with source 'device_alert', later alerts for the same
+-- device are added to that ticket for as long as it is open. Every alert is kept in device_alerts.
+
+-- 1. Where a ticket came from
+ALTER TABLE public.tickets
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'internal'
+    CHECK (source IN ('internal', 'public_form', 'device_alert'));
+
+-- Public submissions are the tickets without a creator (see 0029)
+UPDATE public.tickets
+SET source = 'public_form'
+WHERE created_by IS NULL AND source = 'internal';
+
+-- 2. Routing for the new category
+INSERT INTO public.routing_rules (category, strategy) VALUES
+  ('Device Alert', 'least_loaded')
+ON CONFLICT DO NOTHING;
+
+-- 3. Alert log, written only by ingest_device_alert()
+CREATE TABLE IF NOT EXISTS public.device_alerts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  alert_type TEXT NOT NULL CHECK (alert_type IN ('device_offline', 'power_cut')),
+  -- The platform's event ID, when it sends one
+  external_id TEXT UNIQUE,
+  imei TEXT,
+  simcard_number TEXT,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::JSONB,
+  gps_device_id UUID REFERENCES public.gps_devices(id) ON DELETE SET NULL,
+  vehicle_id UUID REFERENCES public.vehicles(id) ON DELETE SET NULL,
+  customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+  ticket_id UUID REFERENCES public.tickets(id) ON DELETE SET NULL,
+  -- created: opened a ticket; deduplicated: added to the device's open ticket; unmatched: unknown device
+  outcome TEXT NOT NULL CHECK (outcome IN ('created', 'deduplicated', 'unmatched')),
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_alerts_gps_device_id ON public.device_alerts(gps_device_id, received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_device_alerts_ticket_id ON public.device_alerts(ticket_id);
+
+ALTER TABLE public.device_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and CS can view device alerts" ON public.device_alerts
+FOR SELECT TO authenticated
+USING (get_my_role() IN ('admin', 'customer_service'));
+
+-- 4. Ingestion. Alerts for one device are serialized on its gps_devices row, so two alerts arriving together
+-- still end up on a single ticket.
+CREATE OR REPLACE FUNCTION public.ingest_device_alert(
+  p_alert_type TEXT,
+  p_imei TEXT,
+  p_simcard TEXT,
+  p_occurred_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_external_id TEXT DEFAULT NULL,
+  p_payload JSONB DEFAULT '{}'::JSONB
+)
+RETURNS TABLE (
+  alert_id UUID,
+  outcome TEXT,
+  ticket_id UUID,
+  ticket_number TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _imei TEXT := NULLIF(BTRIM(COALESCE(p_imei, '')), '');
+  _simcard TEXT := normalize_simcard_number(p_simcard);
+  _occurred_at TIMESTAMP WITH TIME ZONE := COALESCE(p_occurred_at, NOW());
+  _existing public.device_alerts;
+  _device public.gps_devices;
+  _vehicle public.vehicles;
+  _customer public.customers;
+  _ticket public.tickets;
+  _label TEXT;
+  _priority TEXT;
+  _outcome TEXT;
+  _alert_id UUID;
+BEGIN
+  IF p_alert_type IS NULL OR p_alert_type NOT IN ('device_offline', 'power_cut') THEN
+    RAISE EXCEPTION 'Jenis alert "%" tidak dikenal', p_alert_type
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF _imei IS NULL AND _simcard IS NULL THEN
+    RAISE EXCEPTION 'Alert harus menyertakan IMEI atau no simcard'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Redelivery of an event already received: report what happened the first time
+  IF p_external_id IS NOT NULL THEN
+    SELECT * INTO _existing FROM public.device_alerts WHERE external_id = p_external_id;
+    IF _existing.id IS NOT NULL THEN
+      RETURN QUERY
+      SELECT _existing.id, _existing.outcome, _existing.ticket_id, t.ticket_number
+      FROM (SELECT 1) AS one
+      LEFT JOIN public.tickets t ON t.id = _existing.ticket_id;
+      RETURN;
+    END IF;
+  END IF;
+
+  IF _imei IS NOT NULL THEN
+    SELECT * INTO _device FROM public.gps_devices WHERE imei = _imei FOR UPDATE;
+  END IF;
+  IF _device.id IS NULL AND _simcard IS NOT NULL THEN
+    SELECT * INTO _device FROM public.gps_devices
+    WHERE simcard_number = _simcard
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+  END IF;
+
+  IF _device.id IS NULL THEN
+    INSERT INTO public.device_alerts (alert_type, external_id, imei, simcard_number, occurred_at, payload, outcome)
+    VALUES (p_alert_type, p_external_id, _imei, _simcard, _occurred_at, COALESCE(p_payload, '{}'::JSONB), 'unmatched')
+    RETURNING id INTO _alert_id;
+
+    RETURN QUERY SELECT _alert_id, 'unmatched'::TEXT, NULL::UUID, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT * INTO _vehicle FROM public.vehicles WHERE id = _device.vehicle_id;
+  SELECT * INTO _customer FROM public.customers WHERE id = _vehicle.customer_id;
+
+  _label := CASE p_alert_type
+    WHEN 'device_offline' THEN 'Perangkat offline > 24 jam'
+    ELSE 'Power perangkat terputus'
+  END;
+  -- A power cut on a wired tracker can mean tampering or theft
+  _priority := CASE p_alert_type WHEN 'power_cut' THEN 'urgent' ELSE 'high' END;
+
+  -- The device's alert ticket, while it is still open
+  SELECT t.* INTO _ticket
+  FROM public.device_alerts a
+  JOIN public.tickets t ON t.id = a.ticket_id
+  WHERE a.gps_device_id = _device.id
+    AND t.status NOT IN ('resolved', 'closed')
+  ORDER BY a.received_at DESC
+  LIMIT 1;
+
+  IF _ticket.id IS NULL THEN
+    INSERT INTO public.tickets (
+      title, description, category, source, status, priority,
+      customer_name, customer_whatsapp, no_plat_kendaraan, no_simcard_gps
+    )
+    VALUES (
+      _label || COALESCE(' - ' || _vehicle.plate_number, ''),
+      format('Alert otomatis dari platform tracking: %s pada %s (IMEI %s).',
+        _label, to_char(_occurred_at AT TIME ZONE 'Asia/Jakarta', 'DD-MM-YYYY HH24:MI'), _device.imei),
+      'Device Alert',
+      'device_alert',
+      'open',
+      _priority,
+      _customer.name,
+      _customer.whatsapp_number,
+      _vehicle.plate_number,
+      _device.simcard_number
+    )
+    RETURNING * INTO _ticket;
+
+    _outcome := 'created';
+  ELSE
+    -- Raise the priority when the new alert is more serious; the audit trigger records the change
+    IF array_position(ARRAY['low', 'medium', 'high', 'urgent'], _priority)
+      > COALESCE(array_position(ARRAY['low', 'medium', 'high', 'urgent'], _ticket.priority), 0) THEN
+      UPDATE public.tickets SET priority = _priority WHERE id = _ticket.id;
+    END IF;
+
+    _outcome := 'deduplicated';
+  END IF;
+
+  INSERT INTO public.device_alerts (
+    alert_type, external_id, imei, simcard_number, occurred_at, payload,
+    gps_device_id, vehicle_id, customer_id, ticket_id, outcome
+  )
+  VALUES (
+    p_alert_type, p_external_id, _device.imei, COALESCE(_simcard, _device.simcard_number), _occurred_at,
+    COALESCE(p_payload, '{}'::JSONB), _device.id, _vehicle.id, _customer.id, _ticket.id, _outcome
+  )
+  RETURNING id INTO _alert_id;
+
+  INSERT INTO public.ticket_events (ticket_id, event_type, new_value, actor_id, metadata)
+  VALUES (
+    _ticket.id,
+    'device_alert',
+    p_alert_type,
+    NULL,
+    jsonb_build_object('alert_id', _alert_id, 'occurred_at', _occurred_at, 'repeat', _outcome = 'deduplicated')
+  );
+
+  RETURN QUERY SELECT _alert_id, _outcome, _ticket.id, _ticket.ticket_number;
+END;
+$$;
+
+-- Only the edge function (service role) ingests alerts
+REVOKE EXECUTE ON FUNCTION public.ingest_device_alert(TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ingest_device_alert(TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TEXT, JSONB) TO service_role;
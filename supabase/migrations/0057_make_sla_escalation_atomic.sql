@@ -0,0 +1,146 @@
+-- Atomic SLA escalation
+-- The sla-escalation edge function used to claim the (ticket, level) slot, bump the priority and log the event in
+-- separate calls, releasing the claim when a later call failed. A retry then bumped the already-bumped priority
+-- again. escalate_ticket_sla() does all three in one transaction; notifications stay in the edge function.
+
+-- 1. Audit trigger: the escalation's priority bump is logged once, as sla_escalated
+CREATE OR REPLACE FUNCTION public.log_ticket_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor UUID := auth.uid();
+  _routing_strategy TEXT := NULLIF(current_setting('app.routing_strategy', true), '');
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, new_value, actor_id)
+    VALUES (NEW.id, 'created', NEW.status, _actor);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'field_changed', 'status', OLD.status, NEW.status, _actor);
+  END IF;
+
+  -- escalate_ticket_sla() writes its own sla_escalated event for the bump
+  IF NEW.priority IS DISTINCT FROM OLD.priority
+    AND COALESCE(current_setting('app.sla_escalation', true), '') <> 'on' THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'field_changed', 'priority', OLD.priority, NEW.priority, _actor);
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    IF _routing_strategy IS NOT NULL THEN
+      INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id, metadata)
+      VALUES (
+        NEW.id, 'routed', 'assigned_to', OLD.assigned_to::TEXT, NEW.assigned_to::TEXT, NULL,
+        jsonb_build_object('strategy', _routing_strategy)
+      );
+    ELSE
+      INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+      VALUES (NEW.id, 'field_changed', 'assigned_to', OLD.assigned_to::TEXT, NEW.assigned_to::TEXT, _actor);
+    END IF;
+  END IF;
+
+  IF NEW.team_id IS DISTINCT FROM OLD.team_id THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (
+      NEW.id, 'field_changed', 'team',
+      (SELECT name FROM public.teams WHERE id = OLD.team_id),
+      (SELECT name FROM public.teams WHERE id = NEW.team_id),
+      _actor
+    );
+  END IF;
+
+  IF NEW.escalation_level IS DISTINCT FROM OLD.escalation_level
+    OR COALESCE(current_setting('app.ticket_handoff', true), '') = 'on' THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id, metadata)
+    VALUES (
+      NEW.id,
+      CASE WHEN NEW.escalation_level < OLD.escalation_level THEN 'de_escalated' ELSE 'escalated' END,
+      'escalation_level', OLD.escalation_level::TEXT, NEW.escalation_level::TEXT, _actor,
+      jsonb_build_object('reason', NULLIF(current_setting('app.handoff_reason', true), ''))
+    );
+  END IF;
+
+  IF OLD.first_response_at IS NULL AND NEW.first_response_at IS NOT NULL THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, new_value, actor_id, metadata)
+    VALUES (
+      NEW.id, 'first_response', NEW.first_response_at::TEXT, _actor,
+      jsonb_build_object('source', COALESCE(NULLIF(current_setting('app.first_response_source', true), ''), 'status_in_progress'))
+    );
+  END IF;
+
+  IF OLD.sla_breached_at IS NULL AND NEW.sla_breached_at IS NOT NULL THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, new_value, actor_id)
+    VALUES (NEW.id, 'sla_breached', NEW.sla_breached_at::TEXT, NULL);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 2. Claim, priority bump and event for one ticket and level. Returns no row when the level was already
+-- escalated (by an earlier or concurrent run) or the ticket is no longer active.
+CREATE OR REPLACE FUNCTION public.escalate_ticket_sla(p_ticket_id UUID, p_level TEXT)
+RETURNS TABLE (
+  previous_priority TEXT,
+  new_priority TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _priorities TEXT[] := ARRAY['low', 'medium', 'high', 'urgent'];
+  _ticket public.tickets;
+  _policy public.sla_policies;
+  _bump SMALLINT;
+  _new_priority TEXT;
+  _claimed UUID;
+BEGIN
+  IF p_level IS NULL OR p_level NOT IN ('warning', 'breach') THEN
+    RAISE EXCEPTION 'Level eskalasi "%" tidak dikenal', p_level
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO _ticket FROM public.tickets WHERE id = p_ticket_id FOR UPDATE;
+  IF _ticket.id IS NULL OR _ticket.status IN ('resolved', 'closed') THEN
+    RETURN;
+  END IF;
+
+  _policy := public.get_sla_policy(_ticket.priority, _ticket.category);
+  _bump := CASE p_level WHEN 'warning' THEN _policy.warning_priority_bump ELSE _policy.breach_priority_bump END;
+  _new_priority := CASE
+    WHEN array_position(_priorities, _ticket.priority) IS NULL OR COALESCE(_bump, 0) <= 0 THEN _ticket.priority
+    ELSE _priorities[LEAST(array_position(_priorities, _ticket.priority) + _bump, array_length(_priorities, 1))]
+  END;
+
+  INSERT INTO public.sla_escalations (ticket_id, level, previous_priority, new_priority)
+  VALUES (_ticket.id, p_level, _ticket.priority, _new_priority)
+  ON CONFLICT ON CONSTRAINT sla_escalations_ticket_level_key DO NOTHING
+  RETURNING id INTO _claimed;
+
+  IF _claimed IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF _new_priority IS DISTINCT FROM _ticket.priority THEN
+    PERFORM set_config('app.sla_escalation', 'on', true);
+    UPDATE public.tickets SET priority = _new_priority WHERE id = _ticket.id;
+    PERFORM set_config('app.sla_escalation', '', true);
+  END IF;
+
+  INSERT INTO public.ticket_events (ticket_id, event_type, old_value, new_value, actor_id, metadata)
+  VALUES (_ticket.id, 'sla_escalated', _ticket.priority, _new_priority, NULL, jsonb_build_object('level', p_level));
+
+  RETURN QUERY SELECT _ticket.priority, _new_priority;
+END;
+$$;
+
+-- Only the edge function (service role) escalates
+REVOKE EXECUTE ON FUNCTION public.escalate_ticket_sla(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.escalate_ticket_sla(UUID, TEXT) TO service_role;
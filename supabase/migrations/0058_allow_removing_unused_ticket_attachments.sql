@@ -0,0 +1,32 @@
+-- Cleanup of orphaned uploads
+-- Files are uploaded before the ticket or work order that references them is saved. When that save fails, the
+-- uploader removes the files again; storage had no DELETE policy, so the removal was silently denied.
+-- Files already referenced as a ticket attachment or as visit proof stay undeletable.
+
+-- 1. Whether a file is referenced. SECURITY DEFINER, so tickets and work orders the caller cannot see count too.
+CREATE OR REPLACE FUNCTION public.is_referenced_ticket_attachment(p_path TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.tickets WHERE attachments ? p_path)
+    OR EXISTS (
+      SELECT 1 FROM public.work_orders
+      WHERE p_path = ANY(photo_paths) OR signoff_signature_path = p_path
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_referenced_ticket_attachment(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_referenced_ticket_attachment(TEXT) TO authenticated;
+
+-- 2. Uploaders may remove their own files that nothing references
+DROP POLICY IF EXISTS "Allow authenticated users to delete their own unused files" ON storage.objects;
+CREATE POLICY "Allow authenticated users to delete their own unused files"
+ON storage.objects FOR DELETE TO authenticated
+USING (
+  bucket_id = 'ticket-attachments'
+  AND auth.uid() = (storage.foldername(name))[1]::uuid
+  AND NOT public.is_referenced_ticket_attachment(name)
+);
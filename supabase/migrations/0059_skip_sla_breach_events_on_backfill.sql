@@ -0,0 +1,93 @@
+-- No breach events from SLA backfills
+-- 0039 filled in the deadlines by touching every ticket, so each ticket that was already past its deadline got an
+-- sla_breached event dated at migration time. Backfills now set app.sla_backfill; the breach is still stamped on
+-- the ticket, only the timeline event is skipped. The events the 0039 backfill wrote are removed.
+
+-- 1. Audit trigger
+CREATE OR REPLACE FUNCTION public.log_ticket_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor UUID := auth.uid();
+  _routing_strategy TEXT := NULLIF(current_setting('app.routing_strategy', true), '');
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, new_value, actor_id)
+    VALUES (NEW.id, 'created', NEW.status, _actor);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'field_changed', 'status', OLD.status, NEW.status, _actor);
+  END IF;
+
+  -- escalate_ticket_sla() writes its own sla_escalated event for the bump
+  IF NEW.priority IS DISTINCT FROM OLD.priority
+    AND COALESCE(current_setting('app.sla_escalation', true), '') <> 'on' THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'field_changed', 'priority', OLD.priority, NEW.priority, _actor);
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    IF _routing_strategy IS NOT NULL THEN
+      INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id, metadata)
+      VALUES (
+        NEW.id, 'routed', 'assigned_to', OLD.assigned_to::TEXT, NEW.assigned_to::TEXT, NULL,
+        jsonb_build_object('strategy', _routing_strategy)
+      );
+    ELSE
+      INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+      VALUES (NEW.id, 'field_changed', 'assigned_to', OLD.assigned_to::TEXT, NEW.assigned_to::TEXT, _actor);
+    END IF;
+  END IF;
+
+  IF NEW.team_id IS DISTINCT FROM OLD.team_id THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (
+      NEW.id, 'field_changed', 'team',
+      (SELECT name FROM public.teams WHERE id = OLD.team_id),
+      (SELECT name FROM public.teams WHERE id = NEW.team_id),
+      _actor
+    );
+  END IF;
+
+  IF NEW.escalation_level IS DISTINCT FROM OLD.escalation_level
+    OR COALESCE(current_setting('app.ticket_handoff', true), '') = 'on' THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, field, old_value, new_value, actor_id, metadata)
+    VALUES (
+      NEW.id,
+      CASE WHEN NEW.escalation_level < OLD.escalation_level THEN 'de_escalated' ELSE 'escalated' END,
+      'escalation_level', OLD.escalation_level::TEXT, NEW.escalation_level::TEXT, _actor,
+      jsonb_build_object('reason', NULLIF(current_setting('app.handoff_reason', true), ''))
+    );
+  END IF;
+
+  IF OLD.first_response_at IS NULL AND NEW.first_response_at IS NOT NULL THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, new_value, actor_id, metadata)
+    VALUES (
+      NEW.id, 'first_response', NEW.first_response_at::TEXT, _actor,
+      jsonb_build_object('source', COALESCE(NULLIF(current_setting('app.first_response_source', true), ''), 'status_in_progress'))
+    );
+  END IF;
+
+  -- Backfills stamp breaches that happened long before; only live breaches go on the timeline
+  IF OLD.sla_breached_at IS NULL AND NEW.sla_breached_at IS NOT NULL
+    AND COALESCE(current_setting('app.sla_backfill', true), '') <> 'on' THEN
+    INSERT INTO public.ticket_events (ticket_id, event_type, new_value, actor_id)
+    VALUES (NEW.id, 'sla_breached', NEW.sla_breached_at::TEXT, NULL);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 2. Events written by the 0039 backfill: they all share its transaction time, which came well after the
+-- deadlines they report (the scheduled job stamps a live breach within a minute of the deadline)
+DELETE FROM public.ticket_events e
+WHERE e.event_type = 'sla_breached'
+  AND e.created_at = (SELECT MIN(created_at) FROM public.ticket_events WHERE event_type = 'sla_breached')
+  AND e.created_at > e.new_value::TIMESTAMP WITH TIME ZONE + INTERVAL '5 minutes';
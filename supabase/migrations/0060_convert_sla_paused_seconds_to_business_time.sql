@@ -0,0 +1,36 @@
+-- Pause counters in business seconds
+-- Under 0035 sla_paused_seconds accumulated wall-clock seconds; since 0037 the counter and everything that reads it
+-- work in business seconds, so pauses recorded before 0037 pushed the deadlines back by nights and weekends too.
+-- The counter is recomputed from the status history in ticket_events, where every pause is recorded.
+
+-- 1. The status trigger ignores counter writes while the status is unchanged, so it stays out of the way. The
+-- deadline trigger moves the deadlines to match, without breach events (see 0059).
+ALTER TABLE public.tickets DISABLE TRIGGER enforce_ticket_status_transition;
+
+SELECT set_config('app.sla_backfill', 'on', true);
+
+-- 2. Each status event into pending_customer / on_hold lasts until the next status event. The pause still running
+-- is left out; it is counted from sla_paused_at.
+UPDATE public.tickets t
+SET sla_paused_seconds = p.paused_seconds
+FROM (
+  SELECT ticket_id, SUM(public.business_seconds_between(created_at, ended_at))::INTEGER AS paused_seconds
+  FROM (
+    SELECT
+      ticket_id,
+      new_value,
+      created_at,
+      LEAD(created_at) OVER (PARTITION BY ticket_id ORDER BY created_at, id) AS ended_at
+    FROM public.ticket_events
+    WHERE event_type = 'field_changed' AND field = 'status'
+  ) status_periods
+  WHERE new_value IN ('pending_customer', 'on_hold')
+    AND ended_at IS NOT NULL
+  GROUP BY ticket_id
+) p
+WHERE p.ticket_id = t.id
+  AND t.sla_paused_seconds IS DISTINCT FROM p.paused_seconds;
+
+SELECT set_config('app.sla_backfill', '', true);
+
+ALTER TABLE public.tickets ENABLE TRIGGER enforce_ticket_status_transition;
@@ -0,0 +1,70 @@
+-- First response for tickets older than the response history
+-- The 0038 backfill only looked at public replies and moves to in_progress, which ticket_comments (0032) and
+-- ticket_events (0033) hold for recent tickets only. Older tickets stayed without first_response_at and counted as
+-- unanswered until now, so the first-response percentage dropped and their badge read "Terlambat".
+-- They now get the earliest sign that someone picked them up: an assignment, or else resolving or closing it.
+-- Finished tickets that still have no recorded response are left out of the metric instead of counted as late.
+
+-- 1. Backfill
+SELECT set_config('app.first_response_source', 'backfill', true);
+
+UPDATE public.tickets t
+SET first_response_at = s.first_at
+FROM (
+  SELECT ticket_id, MIN(created_at) AS first_at
+  FROM (
+    SELECT ticket_id, created_at FROM public.ticket_events
+    WHERE event_type IN ('field_changed', 'routed') AND field = 'assigned_to' AND new_value IS NOT NULL
+    UNION ALL
+    SELECT id, resolved_at FROM public.tickets WHERE resolved_at IS NOT NULL
+    UNION ALL
+    SELECT id, closed_at FROM public.tickets WHERE closed_at IS NOT NULL
+  ) responses
+  GROUP BY ticket_id
+) s
+WHERE t.id = s.ticket_id AND t.first_response_at IS NULL;
+
+SELECT set_config('app.first_response_source', '', true);
+
+-- 2. Dashboard metric: finished tickets without a recorded response are not judged
+CREATE OR REPLACE FUNCTION get_first_response_performance()
+RETURNS TABLE(first_response_percentage NUMERIC, avg_first_response_minutes NUMERIC)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  total_tickets INTEGER;
+  met_tickets INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO total_tickets
+  FROM tickets
+  WHERE first_response_at IS NOT NULL OR status NOT IN ('resolved', 'closed');
+
+  IF total_tickets = 0 THEN
+    first_response_percentage := 0;
+    avg_first_response_minutes := 0;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE s.response_seconds / 60 <= s.first_response_minutes),
+    ROUND(AVG(s.response_seconds / 60) FILTER (WHERE s.first_response_at IS NOT NULL), 1)
+  INTO met_tickets, avg_first_response_minutes
+  FROM (
+    SELECT
+      t.first_response_at,
+      p.first_response_minutes,
+      -- Unanswered active tickets keep counting until now
+      public.business_seconds_between(t.created_at, COALESCE(t.first_response_at, NOW()))::NUMERIC AS response_seconds
+    FROM tickets t
+    CROSS JOIN LATERAL public.get_sla_policy(t.priority, t.category) p
+    WHERE t.first_response_at IS NOT NULL OR t.status NOT IN ('resolved', 'closed')
+  ) s;
+
+  first_response_percentage := ROUND((met_tickets::NUMERIC / total_tickets::NUMERIC) * 100, 1);
+  avg_first_response_minutes := COALESCE(avg_first_response_minutes, 0);
+  RETURN NEXT;
+  RETURN;
+END;
+$$;
@@ -0,0 +1,232 @@
+-- SLA deadlines stay put when a ticket is escalated
+-- The escalation's priority bump went through the deadline trigger, which recomputed the deadlines from created_at
+-- under the stricter policy: a breached medium ticket bumped to high had its breach moved back by hours, and a warning
+-- bump could breach a ticket on the spot. The deadlines now follow sla_priority, the priority the ticket is judged
+-- under. It follows priority changes made by people and stays put for escalation bumps (app.sla_escalation).
+
+-- 1. Column, backfilled with the priority from before the first escalation since the last priority change by a person
+ALTER TABLE public.tickets
+ADD COLUMN IF NOT EXISTS sla_priority TEXT CHECK (sla_priority IN ('low', 'medium', 'high', 'urgent'));
+
+UPDATE public.tickets t
+SET sla_priority = COALESCE(
+  (
+    SELECT e.previous_priority
+    FROM public.sla_escalations e
+    WHERE e.ticket_id = t.id
+      AND e.previous_priority IS DISTINCT FROM e.new_priority
+      AND e.escalated_at > COALESCE(
+        (
+          SELECT MAX(ev.created_at) FROM public.ticket_events ev
+          WHERE ev.ticket_id = t.id AND ev.event_type = 'field_changed' AND ev.field = 'priority'
+            AND ev.actor_id IS NOT NULL
+        ),
+        '-infinity'
+      )
+    ORDER BY e.escalated_at
+    LIMIT 1
+  ),
+  t.priority
+);
+
+ALTER TABLE public.tickets ALTER COLUMN sla_priority SET NOT NULL;
+
+-- 2. Deadline trigger: owns sla_priority and computes the deadlines from it
+CREATE OR REPLACE FUNCTION public.maintain_ticket_sla_deadlines()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.sla_policies;
+  _stopped_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  -- Escalation bumps (escalate_ticket_sla) change the priority but not the SLA the ticket is judged under
+  IF TG_OP = 'INSERT' THEN
+    NEW.sla_priority := NEW.priority;
+  ELSIF NEW.priority IS DISTINCT FROM OLD.priority
+    AND COALESCE(current_setting('app.sla_escalation', true), '') <> 'on' THEN
+    NEW.sla_priority := NEW.priority;
+  ELSE
+    NEW.sla_priority := OLD.sla_priority;
+  END IF;
+
+  -- Clock stopped: no deadline until the ticket leaves pending_customer / on_hold
+  IF NEW.sla_paused_at IS NOT NULL THEN
+    NEW.sla_warning_at := NULL;
+    NEW.sla_due_at := NULL;
+    NEW.sla_breached_at := CASE WHEN TG_OP = 'UPDATE' THEN OLD.sla_breached_at END;
+    RETURN NEW;
+  END IF;
+
+  _policy := public.get_sla_policy(NEW.sla_priority, NEW.category);
+
+  NEW.sla_warning_at := public.business_time_add(NEW.created_at, _policy.warning_minutes * 60 + NEW.sla_paused_seconds);
+  NEW.sla_due_at := public.business_time_add(NEW.created_at, _policy.resolution_minutes * 60 + NEW.sla_paused_seconds);
+
+  -- Resolved / closed tickets are judged at the moment they stopped, active ones against now
+  _stopped_at := CASE
+    WHEN NEW.status IN ('resolved', 'closed') THEN COALESCE(NEW.resolved_at, NEW.closed_at, NOW())
+    ELSE NOW()
+  END;
+
+  NEW.sla_breached_at := CASE WHEN NEW.sla_due_at <= _stopped_at THEN NEW.sla_due_at END;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 3. Move the deadlines of already escalated tickets back to their own policy, without breach events (see 0059)
+SELECT set_config('app.sla_backfill', 'on', true);
+
+UPDATE public.tickets SET sla_due_at = sla_due_at WHERE sla_priority <> priority;
+
+SELECT set_config('app.sla_backfill', '', true);
+
+-- 4. Escalation: the bump comes from the policy the ticket is judged under, whose deadline it crossed
+CREATE OR REPLACE FUNCTION public.escalate_ticket_sla(p_ticket_id UUID, p_level TEXT)
+RETURNS TABLE (
+  previous_priority TEXT,
+  new_priority TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _priorities TEXT[] := ARRAY['low', 'medium', 'high', 'urgent'];
+  _ticket public.tickets;
+  _policy public.sla_policies;
+  _bump SMALLINT;
+  _new_priority TEXT;
+  _claimed UUID;
+BEGIN
+  IF p_level IS NULL OR p_level NOT IN ('warning', 'breach') THEN
+    RAISE EXCEPTION 'Level eskalasi "%" tidak dikenal', p_level
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO _ticket FROM public.tickets WHERE id = p_ticket_id FOR UPDATE;
+  IF _ticket.id IS NULL OR _ticket.status IN ('resolved', 'closed') THEN
+    RETURN;
+  END IF;
+
+  _policy := public.get_sla_policy(_ticket.sla_priority, _ticket.category);
+  _bump := CASE p_level WHEN 'warning' THEN _policy.warning_priority_bump ELSE _policy.breach_priority_bump END;
+  _new_priority := CASE
+    WHEN array_position(_priorities, _ticket.priority) IS NULL OR COALESCE(_bump, 0) <= 0 THEN _ticket.priority
+    ELSE _priorities[LEAST(array_position(_priorities, _ticket.priority) + _bump, array_length(_priorities, 1))]
+  END;
+
+  INSERT INTO public.sla_escalations (ticket_id, level, previous_priority, new_priority)
+  VALUES (_ticket.id, p_level, _ticket.priority, _new_priority)
+  ON CONFLICT ON CONSTRAINT sla_escalations_ticket_level_key DO NOTHING
+  RETURNING id INTO _claimed;
+
+  IF _claimed IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF _new_priority IS DISTINCT FROM _ticket.priority THEN
+    PERFORM set_config('app.sla_escalation', 'on', true);
+    UPDATE public.tickets SET priority = _new_priority WHERE id = _ticket.id;
+    PERFORM set_config('app.sla_escalation', '', true);
+  END IF;
+
+  INSERT INTO public.ticket_events (ticket_id, event_type, old_value, new_value, actor_id, metadata)
+  VALUES (_ticket.id, 'sla_escalated', _ticket.priority, _new_priority, NULL, jsonb_build_object('level', p_level));
+
+  RETURN QUERY SELECT _ticket.priority, _new_priority;
+END;
+$$;
+
+-- 5. Dashboard metrics judge tickets by the same policy as the deadlines
+CREATE OR REPLACE FUNCTION get_sla_performance()
+RETURNS TABLE(sla_percentage NUMERIC)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  total_tickets INTEGER;
+  sla_met_tickets INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO total_tickets FROM tickets;
+
+  IF total_tickets = 0 THEN
+    sla_percentage := 0;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO sla_met_tickets
+  FROM (
+    SELECT
+      t.status,
+      t.resolved_at,
+      p.resolution_minutes,
+      -- Active SLA time = business time minus business time spent pending customer / on hold
+      public.business_seconds_between(t.created_at, COALESCE(t.resolved_at, NOW()))
+        - t.sla_paused_seconds
+        - public.business_seconds_between(t.sla_paused_at, NOW()) AS active_seconds
+    FROM tickets t
+    CROSS JOIN LATERAL public.get_sla_policy(t.sla_priority, t.category) p
+  ) s
+  WHERE
+    -- Resolved tickets: resolved within the policy target
+    (s.status IN ('resolved', 'closed') AND s.resolved_at IS NOT NULL
+      AND s.active_seconds / 60 <= s.resolution_minutes)
+    OR
+    -- Active tickets (including paused ones): still within the policy target
+    (s.status NOT IN ('resolved', 'closed')
+      AND s.active_seconds / 60 <= s.resolution_minutes)
+    OR
+    -- Resolved tickets without resolved_at: count as not breached if status is resolved
+    (s.status IN ('resolved', 'closed') AND s.resolved_at IS NULL);
+
+  sla_percentage := ROUND((sla_met_tickets::NUMERIC / total_tickets::NUMERIC) * 100, 1);
+  RETURN NEXT;
+  RETURN;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_first_response_performance()
+RETURNS TABLE(first_response_percentage NUMERIC, avg_first_response_minutes NUMERIC)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  total_tickets INTEGER;
+  met_tickets INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO total_tickets
+  FROM tickets
+  WHERE first_response_at IS NOT NULL OR status NOT IN ('resolved', 'closed');
+
+  IF total_tickets = 0 THEN
+    first_response_percentage := 0;
+    avg_first_response_minutes := 0;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE s.response_seconds / 60 <= s.first_response_minutes),
+    ROUND(AVG(s.response_seconds / 60) FILTER (WHERE s.first_response_at IS NOT NULL), 1)
+  INTO met_tickets, avg_first_response_minutes
+  FROM (
+    SELECT
+      t.first_response_at,
+      p.first_response_minutes,
+      -- Unanswered active tickets keep counting until now
+      public.business_seconds_between(t.created_at, COALESCE(t.first_response_at, NOW()))::NUMERIC AS response_seconds
+    FROM tickets t
+    CROSS JOIN LATERAL public.get_sla_policy(t.sla_priority, t.category) p
+    WHERE t.first_response_at IS NOT NULL OR t.status NOT IN ('resolved', 'closed')
+  ) s;
+
+  first_response_percentage := ROUND((met_tickets::NUMERIC / total_tickets::NUMERIC) * 100, 1);
+  avg_first_response_minutes := COALESCE(avg_first_response_minutes, 0);
+  RETURN NEXT;
+  RETURN;
+END;
+$$;
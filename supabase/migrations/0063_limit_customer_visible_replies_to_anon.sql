@@ -0,0 +1,10 @@
+-- Customer-visible replies for the public ticket page only
+-- 0032 opened public replies to anon and authenticated, which let agents read the replies on tickets outside their
+-- team queues (0045). The policy now covers the anonymous ticket page only; agents read replies through the
+-- ticket-visibility policies from 0045.
+
+DROP POLICY IF EXISTS "Anyone can view customer-visible replies" ON public.ticket_comments;
+CREATE POLICY "Anyone can view customer-visible replies" ON public.ticket_comments
+FOR SELECT
+TO anon
+USING (visibility = 'public');
@@ -0,0 +1,25 @@
+-- Tier report counts tickets, not handoffs
+-- The escalated column counted every 'escalate' handoff out of a tier, so a ticket handed up, back down and up again
+-- counted twice, and same-tier team transfers counted as escalations.
+
+CREATE OR REPLACE FUNCTION public.get_escalation_tier_report()
+RETURNS TABLE (
+  escalation_level SMALLINT,
+  resolved_count BIGINT,
+  escalated_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT tier.level::SMALLINT,
+    (SELECT COUNT(*) FROM public.tickets t
+      WHERE t.escalation_level = tier.level AND t.status IN ('resolved', 'closed')),
+    -- Distinct tickets moved up from this tier
+    (SELECT COUNT(DISTINCT h.ticket_id) FROM public.ticket_handoffs h
+      WHERE h.from_level = tier.level AND h.direction = 'escalate' AND h.to_level > h.from_level)
+  FROM generate_series(1, 3) AS tier(level)
+  WHERE get_my_role() IN ('admin', 'customer_service')
+  ORDER BY tier.level;
+$$;